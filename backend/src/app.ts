@@ -7,9 +7,13 @@
 import express from 'express';
 import cors from 'cors';
 import routes from './routes';
+import { TRUST_PROXY_HOPS } from './constants';
 
 const app = express();
 
+// Read the client IP from X-Forwarded-For behind TRUST_PROXY_HOPS proxies, for per-IP rate limits
+app.set('trust proxy', TRUST_PROXY_HOPS);
+
 /**
  * Middleware Configuration
  * - CORS: Enables Cross-Origin Resource Sharing with specified origin
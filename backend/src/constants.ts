@@ -0,0 +1,405 @@
+/**
+ * Application Constants Module
+ * Central place for static values shared across controllers and utilities.
+ */
+
+import { RideOption, RideStatus, VehicleType } from './types/ride.type';
+import { IntercityRateCard, RateCard } from './types/fare.type';
+import { DriverDocument } from './types/driver.type';
+import { RatingTag } from './types/rating.type';
+import { RidePaymentMethod } from './types/ledger.type';
+import { CancellationPolicy, CancellationReason } from './types/cancellation.type';
+import { QuickReplyCode } from './types/chat.type';
+import { RateLimitedRoute, RateLimitRule } from './types/rate-limit.type';
+import { Permission } from './types/auth.type';
+import { Role } from './types/role.type';
+
+/** Ride options offered to riders */
+export const RIDE_OPTIONS: RideOption[] = ['trip', 'auto', 'intercity', 'reserve', 'pool'];
+
+/** Vehicle types a driver can register and a rider can request */
+export const VEHICLE_TYPES: VehicleType[] = ['bike', 'auto', 'car'];
+
+/** Documents a driver must upload, keyed by their multipart field name */
+export const DRIVER_DOCUMENTS: DriverDocument[] = ['licence', 'registration', 'insurance'];
+
+/** Every status a ride can be in */
+export const RIDE_STATUSES: RideStatus[] = [
+  'requested',
+  'driver_assigned',
+  'driver_arrived',
+  'in_progress',
+  'completed',
+  'cancelled',
+];
+
+/** Ride statuses after which a ride can no longer change */
+export const TERMINAL_RIDE_STATUSES: RideStatus[] = ['completed', 'cancelled'];
+
+/** Currency used for all fares */
+export const FARE_CURRENCY = 'INR';
+
+/** Multiplier converting straight-line distance to an approximate road distance */
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+/**
+ * Rate cards per vehicle type
+ * Used for both fare estimates and final fares so the two always agree
+ */
+export const RATE_CARDS: Record<VehicleType, RateCard> = {
+  bike: {
+    baseFare: 20,
+    perKm: 6,
+    perMinute: 1,
+    minimumFare: 30,
+    bookingFee: 5,
+    taxRate: 0.05,
+    averageSpeedKmph: 30,
+  },
+  auto: {
+    baseFare: 30,
+    perKm: 11,
+    perMinute: 1.5,
+    minimumFare: 45,
+    bookingFee: 10,
+    taxRate: 0.05,
+    averageSpeedKmph: 25,
+  },
+  car: {
+    baseFare: 50,
+    perKm: 15,
+    perMinute: 2,
+    minimumFare: 80,
+    bookingFee: 15,
+    taxRate: 0.05,
+    averageSpeedKmph: 28,
+  },
+};
+
+/** Oldest location ping (in seconds) accepted from a driver */
+export const DRIVER_LOCATION_MAX_AGE_SECONDS = Number(process.env.DRIVER_LOCATION_MAX_AGE_SECONDS) || 30;
+
+/** Seconds without a location ping after which an online driver is marked offline */
+export const DRIVER_OFFLINE_TIMEOUT_SECONDS = Number(process.env.DRIVER_OFFLINE_TIMEOUT_SECONDS) || 120;
+
+/** Radius (in kilometres) around the pickup searched for drivers */
+export const DISPATCH_RADIUS_KM = Number(process.env.DISPATCH_RADIUS_KM) || 5;
+
+/** Seconds a driver has to accept a ride offer before it moves to the next driver */
+export const DISPATCH_OFFER_TIMEOUT_SECONDS = Number(process.env.DISPATCH_OFFER_TIMEOUT_SECONDS) || 15;
+
+/** Minimum minutes between booking a reserve ride and its pickup */
+export const RESERVATION_MIN_LEAD_MINUTES = Number(process.env.RESERVATION_MIN_LEAD_MINUTES) || 30;
+
+/** Maximum days ahead a reserve ride can be booked */
+export const RESERVATION_MAX_LEAD_DAYS = Number(process.env.RESERVATION_MAX_LEAD_DAYS) || 7;
+
+/** Minutes before pickup that the reminder email is sent */
+export const RESERVATION_REMINDER_MINUTES = Number(process.env.RESERVATION_REMINDER_MINUTES) || 60;
+
+/** Minutes before pickup that dispatch starts looking for a driver */
+export const RESERVATION_DISPATCH_LEAD_MINUTES = Number(process.env.RESERVATION_DISPATCH_LEAD_MINUTES) || 15;
+
+/**
+ * Intercity rate cards per vehicle type
+ * Only vehicle types listed here can be booked for intercity trips
+ */
+export const INTERCITY_RATE_CARDS: Partial<Record<VehicleType, IntercityRateCard>> = {
+  car: {
+    baseFare: 300,
+    perKm: 12,
+    minimumKmPerDay: 250,
+    driverNightAllowance: 300,
+    tollPerKm: 1.5,
+    maxTollPerKm: 3,
+    statePermitCharge: 500,
+    bookingFee: 50,
+    taxRate: 0.05,
+    averageSpeedKmph: 50,
+  },
+};
+
+/** Vehicle types offered for intercity trips */
+export const INTERCITY_VEHICLE_TYPES = Object.keys(INTERCITY_RATE_CARDS) as VehicleType[];
+
+/** Longest intercity round trip, in days */
+export const INTERCITY_MAX_TRIP_DAYS = Number(process.env.INTERCITY_MAX_TRIP_DAYS) || 7;
+
+/** Minutes before departure that dispatch starts looking for an intercity driver */
+export const INTERCITY_DISPATCH_LEAD_MINUTES = Number(process.env.INTERCITY_DISPATCH_LEAD_MINUTES) || 120;
+
+/** Radius (in kilometres) around the pickup searched for intercity drivers */
+export const INTERCITY_DISPATCH_RADIUS_KM = Number(process.env.INTERCITY_DISPATCH_RADIUS_KM) || 15;
+
+/** Hours after completion during which a ride can be rated */
+export const RATING_WINDOW_HOURS = Number(process.env.RATING_WINDOW_HOURS) || 72;
+
+/** Number of most recent ratings included in a user's rolling average */
+export const RATING_ROLLING_WINDOW = Number(process.env.RATING_ROLLING_WINDOW) || 100;
+
+/** Ratings a user needs before thresholds apply to them */
+export const RATING_MIN_COUNT = Number(process.env.RATING_MIN_COUNT) || 10;
+
+/** Average rating below which an account is listed for admin review */
+export const LOW_RATING_THRESHOLD = Number(process.env.LOW_RATING_THRESHOLD) || 4.2;
+
+/** Average rating below which a driver no longer receives ride offers */
+export const DISPATCH_MIN_DRIVER_RATING = Number(process.env.DISPATCH_MIN_DRIVER_RATING) || 3.5;
+
+/** Tags a rider can attach when rating a driver */
+export const DRIVER_RATING_TAGS: RatingTag[] = [
+  'polite',
+  'on_time',
+  'safe_driving',
+  'clean_vehicle',
+  'good_navigation',
+  'rude',
+  'late',
+  'unsafe_driving',
+  'dirty_vehicle',
+];
+
+/** Tags a driver can attach when rating a rider */
+export const RIDER_RATING_TAGS: RatingTag[] = [
+  'polite',
+  'on_time',
+  'respectful',
+  'rude',
+  'late',
+  'messy',
+  'wrong_pickup',
+];
+
+/** Ways a rider can pay for a ride */
+export const RIDE_PAYMENT_METHODS: RidePaymentMethod[] = ['cash', 'wallet'];
+
+/** Payment provider used for wallet top-ups */
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || 'fake';
+
+/** Smallest wallet top-up */
+export const WALLET_MIN_TOP_UP = Number(process.env.WALLET_MIN_TOP_UP) || 50;
+
+/** Largest wallet top-up */
+export const WALLET_MAX_TOP_UP = Number(process.env.WALLET_MAX_TOP_UP) || 10000;
+
+/**
+ * Platform commission per vehicle type, as a percentage of the fare
+ * Tolls and permits on intercity trips are passed to the driver without commission
+ */
+export const COMMISSION_RATES: Record<VehicleType, number> = {
+  bike: Number(process.env.COMMISSION_RATE_BIKE) || 15,
+  auto: Number(process.env.COMMISSION_RATE_AUTO) || 18,
+  car: Number(process.env.COMMISSION_RATE_CAR) || 20,
+};
+
+/** Time zone that earnings days and payout weeks are counted in */
+export const EARNINGS_TIME_ZONE = process.env.EARNINGS_TIME_ZONE || 'Asia/Kolkata';
+
+/** Cron schedule of the weekly payout batch, in EARNINGS_TIME_ZONE (Mondays at 02:00 by default) */
+export const PAYOUT_BATCH_CRON = process.env.PAYOUT_BATCH_CRON || '0 2 * * 1';
+
+/** Most places a rider can save */
+export const SAVED_PLACES_LIMIT = Number(process.env.SAVED_PLACES_LIMIT) || 10;
+
+/** Recent destinations listed from a rider's completed rides */
+export const RECENT_DESTINATIONS_LIMIT = Number(process.env.RECENT_DESTINATIONS_LIMIT) || 5;
+
+/**
+ * Seats a pool can fill per vehicle type
+ * Only vehicle types listed here can be pooled
+ */
+export const POOL_SEAT_CAPACITY: Partial<Record<VehicleType, number>> = {
+  auto: Number(process.env.POOL_SEAT_CAPACITY_AUTO) || 3,
+  car: Number(process.env.POOL_SEAT_CAPACITY_CAR) || 4,
+};
+
+/** Vehicle types offered for pooled rides */
+export const POOL_VEHICLE_TYPES = Object.keys(POOL_SEAT_CAPACITY) as VehicleType[];
+
+/** Most seats one rider can book on a pooled ride */
+export const POOL_MAX_SEATS_PER_RIDER = Number(process.env.POOL_MAX_SEATS_PER_RIDER) || 2;
+
+/** Extra minutes a pooled rider may spend in the vehicle compared with riding alone */
+export const POOL_MAX_DETOUR_MINUTES = Number(process.env.POOL_MAX_DETOUR_MINUTES) || 10;
+
+/** Discount on a pooled fare compared with the same trip alone, as a percentage */
+export const POOL_DISCOUNT_PERCENT = Number(process.env.POOL_DISCOUNT_PERCENT) || 30;
+
+/** Charge for each pooled seat beyond the first, as a percentage of the one-seat fare */
+export const POOL_EXTRA_SEAT_PERCENT = Number(process.env.POOL_EXTRA_SEAT_PERCENT) || 50;
+
+/**
+ * Cancellation rules per ride option
+ * Riders cancel for free until the grace period after assignment ends, then pay the base fee
+ * plus a charge for every kilometre the driver has already driven towards the pickup
+ */
+export const CANCELLATION_POLICIES: Record<RideOption, CancellationPolicy> = {
+  trip: { graceMinutes: 2, baseFee: 20, perKmFee: 5, maxFee: 75 },
+  auto: { graceMinutes: 2, baseFee: 15, perKmFee: 4, maxFee: 50 },
+  pool: { graceMinutes: 2, baseFee: 10, perKmFee: 3, maxFee: 40 },
+  reserve: { graceMinutes: 5, baseFee: 50, perKmFee: 5, maxFee: 150 },
+  intercity: { graceMinutes: 15, baseFee: 200, perKmFee: 10, maxFee: 500 },
+};
+
+/** Reasons a rider can give when cancelling a ride */
+export const RIDER_CANCELLATION_REASONS: CancellationReason[] = [
+  'driver_too_far',
+  'driver_not_moving',
+  'changed_plans',
+  'found_other_ride',
+  'wrong_pickup',
+  'other',
+];
+
+/** Reasons a driver can give when cancelling a ride */
+export const DRIVER_CANCELLATION_REASONS: CancellationReason[] = [
+  'rider_not_at_pickup',
+  'rider_unreachable',
+  'too_many_riders',
+  'vehicle_issue',
+  'unsafe_pickup',
+  'other',
+];
+
+/** Cancellations within DRIVER_CANCELLATION_WINDOW_DAYS after which a driver is flagged for review */
+export const DRIVER_CANCELLATION_FLAG_THRESHOLD = Number(process.env.DRIVER_CANCELLATION_FLAG_THRESHOLD) || 3;
+
+/** Days of driver cancellations counted towards flagging */
+export const DRIVER_CANCELLATION_WINDOW_DAYS = Number(process.env.DRIVER_CANCELLATION_WINDOW_DAYS) || 7;
+
+/** Most emergency contacts a rider can store */
+export const EMERGENCY_CONTACTS_LIMIT = Number(process.env.EMERGENCY_CONTACTS_LIMIT) || 5;
+
+/** Minutes a trip sharing link stays valid; every link also stops working when the ride ends */
+export const TRIP_SHARE_LINK_TTL_MINUTES = Number(process.env.TRIP_SHARE_LINK_TTL_MINUTES) || 180;
+
+/** Ride statuses during which a rider can raise an SOS or share their trip */
+export const ACTIVE_TRIP_STATUSES: RideStatus[] = ['driver_assigned', 'driver_arrived', 'in_progress'];
+
+/** Canned replies a driver can send in the ride chat with one tap */
+export const DRIVER_QUICK_REPLIES: Record<QuickReplyCode, string> = {
+  on_my_way: "I'm on my way.",
+  arrived: "I've arrived at the pickup point.",
+  running_late: "I'm running a few minutes late, sorry.",
+  stuck_in_traffic: "I'm stuck in traffic and will be there as soon as I can.",
+  cannot_find_pickup: "I can't find the pickup point. Could you describe where you are?",
+  please_come_to_pickup: 'Please come to the pickup point.',
+};
+
+/** SMS provider used for phone OTPs */
+export const SMS_PROVIDER = process.env.SMS_PROVIDER || 'console';
+
+/** File the console SMS provider appends every message to, besides logging it (optional) */
+export const SMS_OUTBOX_FILE = process.env.SMS_OUTBOX_FILE || '';
+
+/** Country calling code assumed for phone numbers typed without one */
+export const DEFAULT_PHONE_COUNTRY_CODE = process.env.DEFAULT_PHONE_COUNTRY_CODE || '91';
+
+/** Minutes a phone OTP stays valid */
+export const PHONE_OTP_TTL_MINUTES = Number(process.env.PHONE_OTP_TTL_MINUTES) || 5;
+
+/** Wrong guesses allowed per OTP before it stops working */
+export const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS) || 5;
+
+/** Seconds a user has to wait before another OTP for the same purpose is sent */
+export const OTP_RESEND_COOLDOWN_SECONDS = Number(process.env.OTP_RESEND_COOLDOWN_SECONDS) || 60;
+
+/** Minutes a password reset token stays valid after its OTP was verified */
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES) || 15;
+
+/** Where rate limit counters are kept: memory (single instance) or postgres (shared by every instance) */
+export const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+
+/** Proxy hops in front of the server, so client IPs are read from X-Forwarded-For (0 when exposed directly) */
+export const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS) || 0;
+
+/**
+ * Rate limits per route: requests allowed per window, per client IP and per targeted account
+ * Every rule of a route must allow the request
+ */
+export const RATE_LIMITS: Record<RateLimitedRoute, RateLimitRule[]> = {
+  signIn: [
+    { scope: 'ip', limit: 30, windowSeconds: 15 * 60 },
+    { scope: 'account', limit: 10, windowSeconds: 15 * 60 },
+  ],
+  forgotPassword: [
+    { scope: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { scope: 'account', limit: 5, windowSeconds: 60 * 60 },
+  ],
+  verifyEmail: [
+    { scope: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { scope: 'account', limit: 5, windowSeconds: 60 * 60 },
+  ],
+  verifyOtp: [
+    { scope: 'ip', limit: 30, windowSeconds: 60 * 60 },
+    { scope: 'account', limit: 10, windowSeconds: 60 * 60 },
+  ],
+  requestPhoneOtp: [
+    { scope: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { scope: 'account', limit: 5, windowSeconds: 60 * 60 },
+  ],
+  verifyPhoneOtp: [
+    { scope: 'ip', limit: 30, windowSeconds: 60 * 60 },
+    { scope: 'account', limit: 10, windowSeconds: 60 * 60 },
+  ],
+  changePassword: [
+    { scope: 'ip', limit: 30, windowSeconds: 15 * 60 },
+    { scope: 'account', limit: 10, windowSeconds: 15 * 60 },
+  ],
+  emergencyContactInvite: [
+    { scope: 'ip', limit: 20, windowSeconds: 60 * 60 },
+    { scope: 'account', limit: 10, windowSeconds: 60 * 60 },
+  ],
+};
+
+/** Failed password sign-ins in a row that lock an account */
+export const SIGN_IN_MAX_FAILED_ATTEMPTS = Number(process.env.SIGN_IN_MAX_FAILED_ATTEMPTS) || 5;
+
+/** Minutes password sign-in stays locked after too many failed attempts */
+export const ACCOUNT_LOCK_MINUTES = Number(process.env.ACCOUNT_LOCK_MINUTES) || 15;
+
+/** Permissions granted to each role; routes state the permission they require with authorize(...) */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [
+    'fares:estimate',
+    'rides:book',
+    'rides:view',
+    'rides:participate',
+    'account:manage',
+    'profile:view',
+    'profile:edit',
+    'places:manage',
+    'emergency_contacts:manage',
+    'wallet:use',
+  ],
+  driver: [
+    'fares:estimate',
+    'rides:view',
+    'rides:participate',
+    'rides:drive',
+    'earnings:view',
+    'account:manage',
+    'profile:view',
+    'profile:edit',
+    'wallet:use',
+    'driver_profile:manage',
+  ],
+  admin: [
+    'fares:estimate',
+    'rides:view',
+    'rides:view_any',
+    'account:manage',
+    'profile:view',
+    'wallet:use',
+    'users:list',
+    'drivers:review',
+    'ratings:review',
+    'safety:manage',
+    'promos:manage',
+    'ledger:manage',
+    'payouts:manage',
+  ],
+};
+
+/** Permissions a driver only has once their application is approved */
+export const APPROVED_DRIVER_PERMISSIONS: Permission[] = ['rides:drive', 'earnings:view'];
@@ -0,0 +1,285 @@
+/**
+ * Admin Controllers Module
+ * Handles the driver application review queue: listing applications,
+ * approving, rejecting and requesting document resubmission.
+ * Also lists low-rated riders and drivers, and drivers flagged for repeated
+ * cancellations, for review.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { sendDriverApprovedEmail } from '../emails/send-driver-approved.email';
+import { sendDriverRejectedEmail } from '../emails/send-driver-rejected.email';
+import { sendDriverResubmissionEmail } from '../emails/send-driver-resubmission.email';
+import {
+  DISPATCH_MIN_DRIVER_RATING,
+  DRIVER_CANCELLATION_WINDOW_DAYS,
+  DRIVER_DOCUMENTS,
+  LOW_RATING_THRESHOLD,
+  RATING_MIN_COUNT,
+} from '../constants';
+import { DriverDocument, DriverStatus } from '../types/driver.type';
+
+/** Statuses an application can be listed by */
+const DRIVER_STATUSES: DriverStatus[] = ['pending_review', 'resubmission_requested', 'approved', 'rejected'];
+
+/**
+ * Records an admin decision on a pending driver application
+ * @param driverId - User ID of the driver
+ * @param status - New application status
+ * @param adminId - ID of the reviewing admin
+ * @param reason - Reason for the decision (optional)
+ * @param requestedDocuments - Documents the driver must upload again (optional)
+ * @returns Promise resolving to the updated driver profile joined with the user's name and email
+ * @throws {ApiError} 404 if the application does not exist, 409 if it is not pending review
+ */
+const reviewDriverApplication = async (
+  driverId: string,
+  status: DriverStatus,
+  adminId: string,
+  reason: string | null = null,
+  requestedDocuments: DriverDocument[] | null = null,
+) => {
+  const { rows } = await pool.query(
+    `UPDATE drivers d
+     SET status = $1, review_reason = $2, requested_documents = $3, reviewed_by = $4, reviewed_at = NOW(), updated_at = NOW()
+     FROM users u
+     WHERE d.user_id = $5 AND u.id = d.user_id AND d.status = 'pending_review'
+     RETURNING d.*, u.firstname, u.lastname, u.email`,
+    [status, reason, requestedDocuments, adminId, driverId],
+  );
+
+  if (rows.length === 0) {
+    const existing = await pool.query('SELECT status FROM drivers WHERE user_id = $1 LIMIT 1', [driverId]);
+    if (existing.rowCount === 0) {
+      throw new ApiError(404, 'Driver application not found');
+    }
+    throw new ApiError(409, `Driver application is ${existing.rows[0].status}, not pending review`);
+  }
+
+  return rows[0];
+};
+
+/**
+ * Lists driver applications with their documents, oldest first
+ * @route GET /api/v1/admin/drivers
+ * @query status - Application status to filter by (defaults to pending_review)
+ * @access Private (admins)
+ */
+export const listDriverApplications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = (req.query.status as DriverStatus) || 'pending_review';
+
+    if (!DRIVER_STATUSES.includes(status)) {
+      sendResponse(res, 400, {}, 'Invalid application status');
+      return;
+    }
+
+    const applications = await pool.query(
+      `SELECT u.id, u.avatar, u.firstname, u.lastname, u.email, u.phone_number, u.is_verified, u.rating_average, u.rating_count,
+              row_to_json(d.*) AS driver_profile
+       FROM drivers d
+       JOIN users u ON u.id = d.user_id
+       WHERE d.status = $1
+       ORDER BY d.updated_at ASC`,
+      [status],
+    );
+
+    sendResponse(res, 200, applications.rows, 'Driver applications fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting driver applications');
+  }
+};
+
+/**
+ * Approves a pending driver application
+ * @route POST /api/v1/admin/drivers/:id/approve
+ * @access Private (admins)
+ */
+export const approveDriver = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driver = await reviewDriverApplication(req.params.id, 'approved', req.user.id);
+
+    await sendDriverApprovedEmail({ name: `${driver.firstname} ${driver.lastname}`, email: driver.email });
+
+    sendResponse(res, 200, driver, 'Driver approved successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while approving the driver');
+  }
+};
+
+/**
+ * Rejects a pending driver application
+ * @route POST /api/v1/admin/drivers/:id/reject
+ * @body reason - Reason shown to the driver
+ * @access Private (admins)
+ */
+export const rejectDriver = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason } = req.body;
+
+    const validation = validateRequiredFieldsUtils({ reason });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'Reason is required');
+      return;
+    }
+
+    const driver = await reviewDriverApplication(req.params.id, 'rejected', req.user.id, reason);
+
+    await sendDriverRejectedEmail({ name: `${driver.firstname} ${driver.lastname}`, email: driver.email }, reason);
+
+    sendResponse(res, 200, driver, 'Driver rejected successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while rejecting the driver');
+  }
+};
+
+/**
+ * Asks the driver to upload specific documents again
+ * @route POST /api/v1/admin/drivers/:id/request-resubmission
+ * @body documents - Documents to resubmit (licence, registration, insurance)
+ * @body reason - Reason shown to the driver
+ * @access Private (admins)
+ */
+export const requestDocumentResubmission = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { documents, reason } = req.body;
+
+    const validation = validateRequiredFieldsUtils({ documents, reason });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (
+      !Array.isArray(documents) ||
+      documents.length === 0 ||
+      !documents.every((document) => DRIVER_DOCUMENTS.includes(document))
+    ) {
+      sendResponse(res, 400, {}, `Documents must be a list of: ${DRIVER_DOCUMENTS.join(', ')}`);
+      return;
+    }
+
+    const requestedDocuments: DriverDocument[] = [...new Set<DriverDocument>(documents)];
+    const driver = await reviewDriverApplication(
+      req.params.id,
+      'resubmission_requested',
+      req.user.id,
+      reason,
+      requestedDocuments,
+    );
+
+    await sendDriverResubmissionEmail(
+      { name: `${driver.firstname} ${driver.lastname}`, email: driver.email },
+      requestedDocuments,
+      reason,
+    );
+
+    sendResponse(res, 200, driver, 'Document resubmission requested successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while requesting document resubmission');
+  }
+};
+
+/**
+ * Lists riders or drivers whose rolling average rating is below a threshold, lowest first
+ * Only accounts with at least RATING_MIN_COUNT ratings are listed.
+ * @route GET /api/v1/admin/ratings/low
+ * @query role - user or driver (defaults to driver)
+ * @query threshold - Average rating to list accounts below (defaults to LOW_RATING_THRESHOLD)
+ * @access Private (admins)
+ */
+export const listLowRatedAccounts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const role = (req.query.role as string) || 'driver';
+    const threshold = req.query.threshold === undefined ? LOW_RATING_THRESHOLD : Number(req.query.threshold);
+
+    if (role !== 'user' && role !== 'driver') {
+      sendResponse(res, 400, {}, 'Role must be user or driver');
+      return;
+    }
+
+    if (!Number.isFinite(threshold) || threshold < 1 || threshold > 5) {
+      sendResponse(res, 400, {}, 'Threshold must be a number from 1 to 5');
+      return;
+    }
+
+    const accounts = await pool.query(
+      `SELECT u.id, u.avatar, u.firstname, u.lastname, u.email, u.phone_number, u.role, u.rating_average, u.rating_count,
+              u.rating_average < $3 AS below_dispatch_threshold
+       FROM users u
+       WHERE u.role = $1 AND u.rating_count >= $2 AND u.rating_average < $4
+       ORDER BY u.rating_average ASC, u.rating_count DESC`,
+      [role, RATING_MIN_COUNT, DISPATCH_MIN_DRIVER_RATING, threshold],
+    );
+
+    sendResponse(res, 200, accounts.rows, 'Low-rated accounts fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting low-rated accounts');
+  }
+};
+
+/**
+ * Lists drivers flagged for cancelling too many rides, most recently flagged first
+ * Each driver comes with their cancellations in the last DRIVER_CANCELLATION_WINDOW_DAYS and the reasons given.
+ * @route GET /api/v1/admin/cancellations/flagged-drivers
+ * @access Private (admins)
+ */
+export const listCancellationFlaggedDrivers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const drivers = await pool.query(
+      `SELECT d.user_id, u.firstname, u.lastname, u.email, u.phone_number, d.vehicle_type, d.vehicle_plate,
+              d.cancellation_flagged_at,
+              COUNT(c.ride_id)::int AS recent_cancellations,
+              COALESCE(
+                json_agg(json_build_object('ride_id', c.ride_id, 'reason', c.reason, 'note', c.note, 'created_at', c.created_at)
+                         ORDER BY c.created_at DESC) FILTER (WHERE c.ride_id IS NOT NULL),
+                '[]'
+              ) AS cancellations
+       FROM drivers d
+       JOIN users u ON u.id = d.user_id
+       LEFT JOIN ride_cancellations c
+              ON c.cancelled_by = d.user_id
+             AND c.canceller_role = 'driver'
+             AND c.created_at > NOW() - make_interval(days => $1)
+       WHERE d.cancellation_flagged_at IS NOT NULL
+       GROUP BY d.id, u.id
+       ORDER BY d.cancellation_flagged_at DESC`,
+      [DRIVER_CANCELLATION_WINDOW_DAYS],
+    );
+
+    sendResponse(res, 200, drivers.rows, 'Flagged drivers fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting flagged drivers');
+  }
+};
+
+/**
+ * Clears a driver's cancellation flag after review
+ * Only cancellations made after this count towards flagging them again.
+ * @route POST /api/v1/admin/cancellations/flagged-drivers/:id/clear
+ * @access Private (admins)
+ */
+export const clearDriverCancellationFlag = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driver = await pool.query(
+      `UPDATE drivers
+       SET cancellation_flagged_at = NULL, cancellation_flag_cleared_at = NOW(), updated_at = NOW()
+       WHERE user_id = $1 AND cancellation_flagged_at IS NOT NULL
+       RETURNING user_id, cancellation_flagged_at, cancellation_flag_cleared_at`,
+      [req.params.id],
+    );
+
+    if (driver.rowCount === 0) {
+      sendResponse(res, 404, {}, 'No flagged driver found');
+      return;
+    }
+
+    sendResponse(res, 200, driver.rows[0], 'Cancellation flag cleared successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while clearing the cancellation flag');
+  }
+};
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import transporter from '../utils/nodemailer.utils';
+import { signUp } from './auth.controllers';
+
+/** Response that records the status and body sent */
+const createResponse = () => {
+  const sent: { status?: number; body?: unknown } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+};
+
+describe('signUp', () => {
+  it('creates a rider whatever role the body asks for', async (t) => {
+    const queries: { text: string; values: unknown[] }[] = [];
+    t.mock.method(pool, 'query', async (text: string, values: unknown[] = []) => {
+      queries.push({ text, values });
+      return text.startsWith('SELECT')
+        ? { rows: [] }
+        : { rows: [{ id: 'u1', email: 'mallory@example.com', firstname: 'Mal', lastname: 'Lory', avatar: null }] };
+    });
+    t.mock.method(transporter, 'sendMail', async () => ({}));
+
+    for (const role of ['admin', 'driver']) {
+      queries.length = 0;
+      const { res, sent } = createResponse();
+      await signUp(
+        {
+          body: { firstname: 'Mal', lastname: 'Lory', email: 'mallory@example.com', password: 'secret123', role },
+        } as Request,
+        res,
+      );
+
+      assert.equal(sent.status, 201);
+      const insert = queries.find(({ text }) => text.startsWith('INSERT INTO users'));
+      assert.ok(insert);
+      assert.match(insert.text, /VALUES \(\$1, \$2, \$3, \$4, \$5, 'user'\)/);
+      assert.ok(!insert.values.includes(role));
+    }
+  });
+
+  it('does not require a role', async (t) => {
+    t.mock.method(pool, 'query', async (text: string) =>
+      text.startsWith('SELECT') ? { rows: [] } : { rows: [{ id: 'u1' }] },
+    );
+    t.mock.method(transporter, 'sendMail', async () => ({}));
+
+    const { res, sent } = createResponse();
+    await signUp(
+      { body: { firstname: 'Asha', lastname: 'Rao', email: 'asha@example.com', password: 'secret123' } } as Request,
+      res,
+    );
+
+    assert.equal(sent.status, 201);
+  });
+});
@@ -1,7 +1,9 @@
 /**
  * Authentication Controllers Module
- * Handles all authentication-related operations including user and admin signUp,
+ * Handles all authentication-related operations including user signUp,
  * signIn, signOut, verifyEmail, forgotPassword, verifyOTP, resetPassword, changePassword and refreshAccessToken management.
+ * Users can also sign in with a one-time code texted to their phone once that number is verified.
+ * Every sign-in creates a session for the device; see the session service for refresh token rotation.
  */
 
 import { Request, Response } from 'express';
@@ -10,7 +12,6 @@ import asyncHandlerUtils from '../utils/async-handler.utils';
 import uploadOnCloudinary from '../utils/cloudinary.utils';
 import ApiError, { handleError } from '../utils/api-error.utils';
 import ApiResponseUtils, { sendResponse } from '../utils/api-response.utils';
-import jwt from 'jsonwebtoken';
 import { sendUserWelcomeEmail } from '../emails/send-user-welcome.email';
 import {
   hashPassword,
@@ -18,10 +19,25 @@ import {
 } from '../utils/auth.utils';
 import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
 import { checkUserExistsUtils } from '../utils/check-user-exists.utils';
-import { addMinutesToDate, otpGenerator } from '../utils/otp-generator.utils';
 import { sendForgotOtpEmail } from '../emails/send-forgot-otp.email';
 import { sendEmailVerificationEmail } from '../emails/send-email-verification.email';
-import { generateAccessAndRefreshTokens } from '../utils/generate-access-and-refresh-tokens.utils';
+import { normalisePhoneNumber } from '../utils/phone.utils';
+import { smsProvider } from '../services/sms.service';
+import {
+  createSession,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeOtherSessions,
+  revokeSession,
+  rotateSession,
+} from '../services/session.service';
+import { consumeOtp, issueOtp } from '../services/otp.service';
+import { consumePasswordResetToken, createPasswordResetToken } from '../services/password-reset.service';
+import { clearFailedSignIns, getLockRetryAfterSeconds, recordFailedSignIn } from '../services/account-lock.service';
+import { PHONE_OTP_TTL_MINUTES } from '../constants';
+import { UserType } from '../types/user.type';
+import { SessionDevice } from '../types/session.type';
+import { OtpPurpose } from '../types/otp.type';
 
 // Otp generator options
 const options = {
@@ -31,8 +47,134 @@ const options = {
   specialChars: true,
 };
 
+/** Minutes an email OTP stays valid, as stated in the OTP emails */
+const EMAIL_OTP_TTL_MINUTES = 10;
+
+/** OTP purposes that can be checked with verifyOTP */
+const EMAIL_OTP_PURPOSES: OtpPurpose[] = ['email_verification', 'password_reset'];
+
+// Phone OTPs are digits only so they are easy to type from an SMS
+const phoneOtpOptions = {
+  digits: true,
+  lowerCaseAlphabets: false,
+  upperCaseAlphabets: false,
+  specialChars: false,
+};
+
+/** Longest device name a client can give a session */
+const MAX_DEVICE_NAME_LENGTH = 100;
+
+/** Longest user agent stored on a session */
+const MAX_USER_AGENT_LENGTH = 512;
+
+// Cookie options used when setting and clearing the authentication cookies
+const cookieOptions = {
+  httpOnly: true,
+  secure: true,
+};
+
+/**
+ * Describes the device a request comes from, for its session
+ * @param req - Express request object; device_name may be given in the body
+ * @returns Device details
+ */
+const getSessionDevice = (req: Request): SessionDevice => {
+  const deviceName = req.body?.device_name;
+
+  return {
+    deviceName: typeof deviceName === 'string' ? deviceName.trim().slice(0, MAX_DEVICE_NAME_LENGTH) || null : null,
+    userAgent: req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+    ipAddress: req.ip || null,
+  };
+};
+
+/**
+ * Creates a session for the requesting device and sends its tokens in the response body and as cookies
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param userData - Signed-in user
+ * @param message - Response message
+ */
+const sendSignedInResponse = async (
+  req: Request,
+  res: Response,
+  userData: UserType,
+  message: string,
+): Promise<void> => {
+  // Create a session and its authentication tokens
+  const { sessionId, accessToken, refreshToken } = await createSession(
+    userData.id,
+    userData.role,
+    getSessionDevice(req),
+  );
+
+  // Create safe user object (excluding sensitive data)
+  const safeUser = {
+    id: userData.id,
+    email: userData.email,
+    firstname: userData.firstname,
+    lastname: userData.lastname,
+    role: userData.role,
+  };
+
+  // Prepare response data
+  const user = {
+    user: safeUser,
+    sessionId,
+    accessToken,
+    refreshToken,
+  };
+
+  // Send successful response with cookies
+  res
+    .status(200)
+    .cookie('accessToken', accessToken, cookieOptions)
+    .cookie('refreshToken', refreshToken, cookieOptions)
+    .json(new ApiResponseUtils(200, user, message));
+};
+
+/**
+ * Refuses a password sign-in because the account is locked
+ * @param res - Express response object
+ * @param retryAfterSeconds - Seconds until the lock ends
+ */
+const sendAccountLockedResponse = (res: Response, retryAfterSeconds: number): void => {
+  res.set('Retry-After', String(retryAfterSeconds));
+  sendResponse(
+    res,
+    429,
+    {},
+    `Account is temporarily locked after too many failed sign-ins. Try again in ${retryAfterSeconds} seconds or reset your password`,
+  );
+};
+
+/**
+ * Issues a phone OTP bound to the number it is texted to and sends the SMS
+ * @param userId - User the OTP belongs to
+ * @param phoneNumber - Number in E.164 format
+ * @param purpose - What the OTP is for
+ */
+const sendPhoneOtp = async (
+  userId: string,
+  phoneNumber: string,
+  purpose: Extract<OtpPurpose, 'phone_sign_in' | 'phone_verification'>,
+): Promise<void> => {
+  const otp = await issueOtp(userId, purpose, {
+    ttlMinutes: PHONE_OTP_TTL_MINUTES,
+    generateOptions: phoneOtpOptions,
+    phoneNumber,
+  });
+
+  await smsProvider.send({
+    to: phoneNumber,
+    body: `${otp} is your Ryde ${purpose === 'phone_sign_in' ? 'sign-in' : 'verification'} code. It expires in ${PHONE_OTP_TTL_MINUTES} minutes. Do not share it with anyone.`,
+  });
+};
+
 /**
  * Register a new user
+ * Accounts created here are always riders; a role sent in the body is ignored. Drivers
+ * sign up through /driver/sign-up, and admin accounts cannot be created by sign-up.
  * @route POST /api/auth/sign-up
  * @param {Request} req - Express request object containing user registration data
  * @param {Response} res - Express response object
@@ -40,10 +182,10 @@ const options = {
 export const signUp = async (req: Request, res: Response): Promise<void> => {
   try {
     // Extract user data from request
-    const { firstname, lastname, email, password, role } = req.body;
+    const { firstname, lastname, email, password } = req.body;
 
     // Validate required fields
-    const validation = validateRequiredFieldsUtils({ firstname, lastname, email, password, role });
+    const validation = validateRequiredFieldsUtils({ firstname, lastname, email, password });
     if (!validation.isValid) {
       sendResponse(res, 400, {}, validation.error || 'All fields are required');
       return;
@@ -62,8 +204,8 @@ export const signUp = async (req: Request, res: Response): Promise<void> => {
     // Hash password and create user
     const hashedPassword = await hashPassword(password);
     const newUser = await pool.query(
-      'INSERT INTO users (firstname, lastname, email, password, avatar, role) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id, email, firstname, lastname, avatar',
-      [firstname, lastname, email, hashedPassword, avatar, role],
+      "INSERT INTO users (firstname, lastname, email, password, avatar, role) VALUES ($1, $2, $3, $4, $5, 'user') RETURNING id, email, firstname, lastname, avatar",
+      [firstname, lastname, email, hashedPassword, avatar],
     );
 
     // Send welcome email
@@ -80,6 +222,7 @@ export const signUp = async (req: Request, res: Response): Promise<void> => {
 
 /**
  * Authenticate user and generate tokens
+ * Too many wrong passwords in a row lock password sign-in for a while; see the account lock service.
  * @route POST /api/auth/sign-in
  * @param {Request} req - Express request object containing login credentials
  * @param {Response} res - Express response object
@@ -94,8 +237,17 @@ export const signIn = asyncHandlerUtils(async (req: Request, res: Response): Pro
       return;
     }
 
-    // Verify user exists and is verified
+    // Verify user exists
     const { userData } = await checkUserExistsUtils(email);
+
+    // Refuse password sign-in while the account is locked, before anything else is checked
+    const lockRetryAfter = getLockRetryAfterSeconds(userData.locked_until);
+    if (lockRetryAfter > 0) {
+      sendAccountLockedResponse(res, lockRetryAfter);
+      return;
+    }
+
+    // Verify user is verified
     if (!userData.is_verified) {
       sendResponse(res, 400, {}, 'User is not verified');
       return;
@@ -104,70 +256,199 @@ export const signIn = asyncHandlerUtils(async (req: Request, res: Response): Pro
     // Verify password
     const isPasswordCorrect = await verifyPassword(password, userData.password);
     if (!isPasswordCorrect) {
+      const lockedUntil = await recordFailedSignIn(userData);
+      if (lockedUntil) {
+        sendAccountLockedResponse(res, getLockRetryAfterSeconds(lockedUntil));
+        return;
+      }
+
       sendResponse(res, 401, {}, 'Invalid credentials');
       return;
     }
 
-    // Generate authentication tokens
-    const { generatedAccessToken, generatedRefreshToken } = await generateAccessAndRefreshTokens(userData.id, userData.role);
+    await clearFailedSignIns(userData.id);
 
-    // Create safe user object (excluding sensitive data)
-    const safeUser = {
-      id: userData.id,
-      email: userData.email,
-      firstname: userData.firstname,
-      lastname: userData.lastname,
-      role: userData.role,
-    };
-
-    // Set cookie options
-    const options = {
-      httpOnly: true,
-      secure: true,
-    };
-
-    // Prepare response data
-    const user = {
-      user: safeUser,
-      accessToken: generatedAccessToken,
-      refreshToken: generatedRefreshToken,
-    };
-
-    // Send successful response with cookies
-    res
-      .status(200)
-      .cookie('accessToken', generatedAccessToken, options)
-      .cookie('refreshToken', generatedRefreshToken, options)
-      .json(new ApiResponseUtils(200, user, 'User signed in successfully'));
+    await sendSignedInResponse(req, res, userData, 'User signed in successfully');
   } catch (error) {
     handleError(res, error, 'Something went wrong while signing in');
   }
 });
 
 /**
- * Sign out user and clear authentication tokens
- * @route POST /api/auth/sign-out
- * @param {Request} req - Express request object containing user ID
- * @param {Response} res - Express response object
+ * Text a sign-in OTP to a verified phone number
+ * The response is the same whether or not the number belongs to an account, so it cannot be used to look up users.
+ * @route POST /api/auth/phone/request-otp
+ * @body phone_number - Phone number, in international format or as a national number of DEFAULT_PHONE_COUNTRY_CODE
+ * @access Public
  */
-export const signOut = async (req: Request, res: Response): Promise<void> => {
-  const profileId = req.body?.id;
+export const requestPhoneOtp = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const phoneNumber = normalisePhoneNumber(req.body.phone_number);
+    if (!phoneNumber) {
+      sendResponse(res, 400, {}, 'A valid phone number is required');
+      return;
+    }
+
+    // Only numbers confirmed by OTP can be used to sign in
+    const userResult = await pool.query(
+      'SELECT id, is_verified FROM users WHERE phone_number = $1 AND phone_verified_at IS NOT NULL LIMIT 1',
+      [phoneNumber],
+    );
+    const userData = userResult.rows[0];
+
+    if (userData?.is_verified) {
+      await sendPhoneOtp(userData.id, phoneNumber, 'phone_sign_in');
+    }
+
+    sendResponse(res, 200, { phone_number: phoneNumber }, 'If this phone number is registered, an OTP has been sent');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while sending the OTP');
+  }
+};
+
+/**
+ * Sign in with an OTP texted to a verified phone number
+ * The password sign-in lock does not apply, so the owner of a locked account can still get in;
+ * guesses are limited by the OTP's attempts and the route's rate limits instead.
+ * @route POST /api/auth/phone/verify
+ * @body phone_number - Phone number the OTP was texted to
+ * @body otp - OTP from the SMS
+ * @access Public
+ */
+export const verifyPhoneOtp = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { phone_number, otp } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ phone_number, otp });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    const phoneNumber = normalisePhoneNumber(phone_number);
+    if (!phoneNumber) {
+      sendResponse(res, 400, {}, 'A valid phone number is required');
+      return;
+    }
+
+    const userResult = await pool.query(
+      'SELECT * FROM users WHERE phone_number = $1 AND phone_verified_at IS NOT NULL LIMIT 1',
+      [phoneNumber],
+    );
+    const userData: UserType | undefined = userResult.rows[0];
+
+    if (!userData?.is_verified) {
+      sendResponse(res, 400, {}, 'Invalid or expired OTP.');
+      return;
+    }
+
+    await consumeOtp(userData.id, 'phone_sign_in', otp, phoneNumber);
+
+    await sendSignedInResponse(req, res, userData, 'User signed in successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while signing in');
+  }
+};
+
+/**
+ * Text an OTP to a phone number to verify it for the authenticated user
+ * @route POST /api/auth/phone/verification/request-otp
+ * @body phone_number - Phone number to verify; it replaces the profile's number once verified
+ * @access Private
+ */
+export const requestPhoneVerification = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user.id;
+
+    const phoneNumber = normalisePhoneNumber(req.body.phone_number);
+    if (!phoneNumber) {
+      sendResponse(res, 400, {}, 'A valid phone number is required');
+      return;
+    }
+
+    const owner = await pool.query(
+      'SELECT id FROM users WHERE phone_number = $1 AND phone_verified_at IS NOT NULL LIMIT 1',
+      [phoneNumber],
+    );
+    if (owner.rowCount) {
+      const message =
+        owner.rows[0].id === userId
+          ? 'This phone number is already verified'
+          : 'This phone number is verified on another account';
+      sendResponse(res, 409, {}, message);
+      return;
+    }
+
+    await sendPhoneOtp(userId, phoneNumber, 'phone_verification');
+
+    sendResponse(res, 200, { phone_number: phoneNumber }, 'OTP sent successfully for verify phone number');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while sending the OTP');
+  }
+};
+
+/**
+ * Confirm a phone number with the OTP texted to it; the number then becomes the profile's verified number
+ * @route POST /api/auth/phone/verification/confirm
+ * @body phone_number - Phone number being verified
+ * @body otp - OTP from the SMS
+ * @access Private
+ */
+export const confirmPhoneVerification = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { phone_number, otp } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ phone_number, otp });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    const phoneNumber = normalisePhoneNumber(phone_number);
+    if (!phoneNumber) {
+      sendResponse(res, 400, {}, 'A valid phone number is required');
+      return;
+    }
 
-  if (!profileId) {
-    sendResponse(res, 400, {}, 'User ID not provided');
-    return;
+    await consumeOtp(req.user.id, 'phone_verification', otp, phoneNumber);
+
+    const user = await pool
+      .query(
+        `UPDATE users
+         SET phone_number = $1, phone_verified_at = NOW(), updated_at = NOW()
+         WHERE id = $2
+         RETURNING phone_number, phone_verified_at`,
+        [phoneNumber, req.user.id],
+      )
+      .catch((error) => {
+        // Someone else verified the number since the OTP was sent
+        if (error.code === '23505') {
+          throw new ApiError(409, 'This phone number is verified on another account');
+        }
+        throw error;
+      });
+
+    sendResponse(res, 200, user.rows[0], 'Phone number verified successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while verifying the phone number');
   }
+};
 
+/**
+ * Sign out the current device and clear authentication tokens
+ * @route POST /api/auth/sign-out
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @access Private
+ */
+export const signOut = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Clear refresh token in database
-    await pool.query('UPDATE users SET refresh_token = NULL WHERE id = $1', [profileId]);
+    const { id, sessionId } = req.user;
 
-    // Configure cookie options for clearing
-    const cookieOptions = {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'strict' as const,
-    };
+    // End the session so its refresh token and access tokens stop working
+    await revokeSession(id, sessionId, 'signed_out');
 
     // Clear authentication cookies and send response
     res
@@ -180,8 +461,69 @@ export const signOut = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * Sign out of every device, including the current one
+ * @route POST /api/auth/sign-out-all
+ * @access Private
+ */
+export const signOutEverywhere = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeAllSessions(req.user.id);
+
+    res
+      .status(200)
+      .clearCookie('accessToken', cookieOptions)
+      .clearCookie('refreshToken', cookieOptions)
+      .json(new ApiResponseUtils(200, { revoked }, 'Signed out of every device successfully'));
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while signing out of every device');
+  }
+};
+
+/**
+ * List the devices the user is signed in on, most recently used first
+ * @route GET /api/auth/sessions
+ * @access Private
+ */
+export const listSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, sessionId } = req.user;
+    const sessions = await listActiveSessions(id);
+
+    sendResponse(
+      res,
+      200,
+      sessions.map((session) => ({ ...session, is_current: session.id === sessionId })),
+      'Sessions fetched successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting sessions');
+  }
+};
+
+/**
+ * Sign out one device
+ * @route DELETE /api/auth/sessions/:id
+ * @access Private
+ */
+export const revokeSessionById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeSession(req.user.id, req.params.id, 'signed_out');
+
+    if (!revoked) {
+      sendResponse(res, 404, {}, 'Session not found');
+      return;
+    }
+
+    sendResponse(res, 200, {}, 'Device signed out successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while signing out the device');
+  }
+};
+
 /**
  * Refresh access token using refresh token
+ * The refresh token is replaced on every call; using a replaced token again signs the device out.
  * @route POST /api/auth/refresh-token
  * @param {Request} req - Express request object containing refresh token
  * @param {Response} res - Express response object
@@ -194,32 +536,13 @@ export const refreshAccessToken = async (req: Request, res: Response): Promise<v
       throw new ApiError(401, 'Unauthorized request');
     }
 
-    const decodedToken = jwt.verify(incomingRefreshToken, process.env.REFRESH_TOKEN_SECRET as string) as jwt.JwtPayload;
-
-    const user = await pool.query('SELECT * FROM users WHERE id = $1', [decodedToken.userId]);
-
-    if (!user.rows[0]) {
-      throw new ApiError(401, 'Invalid refresh token');
-    }
-
-    const { generatedAccessToken, generatedRefreshToken } = await generateAccessAndRefreshTokens(user.rows[0].id, user.rows[0].role);
-
-    const options = {
-      httpOnly: true,
-      secure: true,
-    };
+    const { accessToken, refreshToken } = await rotateSession(incomingRefreshToken);
 
     res
       .status(200)
-      .cookie('accessToken', generatedAccessToken, options)
-      .cookie('refreshToken', generatedRefreshToken, options)
-      .json(
-        new ApiResponseUtils(
-          200,
-          { accessToken: generatedAccessToken, refreshToken: generatedRefreshToken },
-          'Access token refreshed',
-        ),
-      );
+      .cookie('accessToken', accessToken, cookieOptions)
+      .cookie('refreshToken', refreshToken, cookieOptions)
+      .json(new ApiResponseUtils(200, { accessToken, refreshToken }, 'Access token refreshed'));
   } catch (error) {
     handleError(res, error, 'Invalid refresh token');
   }
@@ -250,17 +573,11 @@ export const verifyEmail = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Generate OTP
-    const otp = otpGenerator(6, options);
-
-    // OTP Expiry
-    const otpExpiry = addMinutesToDate(new Date(), 10)
-
-    // Save OTP in the otp_codes table
-    await pool.query(
-      'INSERT INTO otp_codes (user_id, otp, otp_expiry) VALUES ($1, $2, $3)',
-      [userData.id, otp, otpExpiry],
-    )
+    // Generate and save OTP
+    const otp = await issueOtp(userData.id, 'email_verification', {
+      ttlMinutes: EMAIL_OTP_TTL_MINUTES,
+      generateOptions: options,
+    });
 
     // Send Forgot password email
     await sendEmailVerificationEmail({
@@ -298,17 +615,11 @@ export const forgotPassword = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Generate OTP
-    const otp = otpGenerator(6, options);
-
-    // OTP Expiry
-    const otpExpiry = addMinutesToDate(new Date(), 10)
-
-    // Save OTP in the otp_codes table
-    await pool.query(
-      'INSERT INTO otp_codes (user_id, otp, otp_expiry) VALUES ($1, $2, $3)',
-      [userData.id, otp, otpExpiry],
-    )
+    // Generate and save OTP
+    const otp = await issueOtp(userData.id, 'password_reset', {
+      ttlMinutes: EMAIL_OTP_TTL_MINUTES,
+      generateOptions: options,
+    });
 
     // Send Forgot password email
     await sendForgotOtpEmail({
@@ -324,45 +635,45 @@ export const forgotPassword = async (req: Request, res: Response): Promise<void>
 
 /**
  * Verify OTP
+ * An email verification OTP marks the user as verified. A password reset OTP returns a
+ * single-use reset token that resetPassword requires.
  * @route POST /api/auth/verify-otp
- * @param {Request} req - Express request object containing user email and otp
+ * @body email - User's email address
+ * @body otp - OTP from the email
+ * @body purpose - email_verification or password_reset
+ * @param {Request} req - Express request object containing user email, otp and purpose
  * @param {Response} res - Express response object
  */
 export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Extract email and otp from request
-    const {email, otp} = req.body;
+    // Extract email, otp and purpose from request
+    const { email, otp, purpose } = req.body;
 
     // Validate required fields
-    const validation = validateRequiredFieldsUtils({ email, otp });
+    const validation = validateRequiredFieldsUtils({ email, otp, purpose });
     if (!validation.isValid) {
       sendResponse(res, 400, {}, validation.error || 'All field are required');
       return;
     }
 
+    if (!EMAIL_OTP_PURPOSES.includes(purpose)) {
+      sendResponse(res, 400, {}, `Purpose must be one of: ${EMAIL_OTP_PURPOSES.join(', ')}`);
+      return;
+    }
+
     // Verify user exists
     const { userData } = await checkUserExistsUtils(email);
 
-    // Retrieve the latest OTP for the user
-    const otpResult = await pool.query(
-      'SELECT * FROM otp_codes WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1',
-      [userData.id],
-    )
-
-    if(otpResult.rows.length === 0){
-      sendResponse(res, 400, {}, "No OTP found.");
-      return;
-    }
+    // Check the OTP issued for this purpose; a wrong OTP counts as an attempt
+    await consumeOtp(userData.id, purpose, otp);
 
-    const otpData = otpResult.rows[0];
+    if (purpose === 'password_reset') {
+      const resetToken = await createPasswordResetToken(userData.id);
 
-    if(otpData.otp !== otp || new Date() > new Date(otpData.otp_expiry)) {
-      sendResponse(res, 400, {}, "Invalid or expired OTP.");
+      sendResponse(res, 200, resetToken, 'OTP verified successfully');
+      return;
     }
 
-    // OTP is valid; delete the used OTP
-    await pool.query('DELETE FROM otp_codes WHERE id = $1', [otpData.id]);
-
     // Update user verified value
     await pool.query('UPDATE users SET is_verified = true WHERE id = $1', [userData.id]);
 
@@ -370,67 +681,94 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
   } catch (error) {
     handleError(res, error, 'Something went wrong while verifying email');
   }
-}
+};
 
 /**
  * Reset Password Allow users to reset their password
+ * Requires the reset token returned when the password reset OTP was verified. Every
+ * device is signed out afterwards.
  * @route POST /api/auth/reset-password
- * @param {Request} req - Express request object containing email and newPassword
+ * @body resetToken - Token from verifying the password reset OTP
+ * @body newPassword - New password
+ * @param {Request} req - Express request object containing resetToken and newPassword
  * @param {Response} res - Express response object
  */
 export const resetPassword = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Extract email and newPassword from request
-    const {email, newPassword} = req.body;
-    const validation = validateRequiredFieldsUtils({ email, newPassword });
+    // Extract resetToken and newPassword from request
+    const { resetToken, newPassword } = req.body;
+    const validation = validateRequiredFieldsUtils({ resetToken, newPassword });
     if (!validation.isValid) {
       sendResponse(res, 400, {}, validation.error || 'All fields are required');
       return;
     }
 
-    // Verify user exists and is verified
-    const { userData } = await checkUserExistsUtils(email);
-    if (!userData.is_verified) {
-      sendResponse(res, 400, {}, 'User is not verified');
+    // Use up the reset token
+    const userId = await consumePasswordResetToken(String(resetToken));
+    if (!userId) {
+      sendResponse(res, 400, {}, 'Invalid or expired reset token');
       return;
     }
 
     // Hash the new password
     const hashedPassword = await hashPassword(newPassword);
 
-    await pool.query(
-      'UPDATE users set password = $1 WHERE id = $2',
-      [hashedPassword, userData.id],
-    )
+    await pool.query('UPDATE users SET password = $1 WHERE id = $2', [hashedPassword, userId]);
+
+    // Sign out every device, which may include whoever knew the old password, and lift any sign-in lock
+    await revokeAllSessions(userId);
+    await clearFailedSignIns(userId);
 
     sendResponse(res, 200, {}, 'Reset password successfully');
   } catch (error) {
     handleError(res, error, 'Something went wrong while reset password');
   }
-}
+};
 
 /**
  * Change Password Allow users to change their password while logged in
+ * The password changed is always the signed-in user's own. Wrong current passwords count
+ * towards the sign-in lock, and every other device is signed out after the change.
  * @route POST /api/auth/change-password
- * @param {Request} req - Express request object containing email, currentPassword and newPassword
+ * @body currentPassword - Current password
+ * @body newPassword - New password
+ * @param {Request} req - Express request object containing currentPassword and newPassword
  * @param {Response} res - Express response object
  */
 export const changePassword = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Extract email and newPassword from request
-    const {email, currentPassword, newPassword} = req.body;
-    const validation = validateRequiredFieldsUtils({ email, currentPassword, newPassword });
+    // Extract currentPassword and newPassword from request
+    const { currentPassword, newPassword } = req.body;
+    const validation = validateRequiredFieldsUtils({ currentPassword, newPassword });
     if (!validation.isValid) {
       sendResponse(res, 400, {}, validation.error || 'All fields are required');
       return;
     }
 
-    // Verify user exists
-    const { userData } = await checkUserExistsUtils(email);
+    // Load the signed-in user
+    const { rows } = await pool.query('SELECT * FROM users WHERE id = $1 LIMIT 1', [req.user.id]);
+    const userData: UserType | undefined = rows[0];
+    if (!userData) {
+      sendResponse(res, 404, {}, 'User not found');
+      return;
+    }
+
+    // Refuse while password sign-in is locked, so this route cannot be used to keep guessing
+    const lockRetryAfter = getLockRetryAfterSeconds(userData.locked_until);
+    if (lockRetryAfter > 0) {
+      sendAccountLockedResponse(res, lockRetryAfter);
+      return;
+    }
 
     // Verify password
     const isPasswordCorrect = await verifyPassword(currentPassword, userData.password);
     if (!isPasswordCorrect) {
+      const lockedUntil = await recordFailedSignIn(userData);
+      if (lockedUntil) {
+        sendAccountLockedResponse(res, getLockRetryAfterSeconds(lockedUntil));
+        return;
+      }
+
       sendResponse(res, 401, {}, 'Invalid credentials');
       return;
     }
@@ -443,6 +781,10 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
       [hashedPassword, userData.id],
     );
 
+    // Sign out every other device, which may include whoever knew the old password
+    await revokeOtherSessions(userData.id, req.user.sessionId);
+    await clearFailedSignIns(userData.id);
+
     sendResponse(res, 200, {}, 'Change password successfully');
   } catch (error) {
     handleError(res, error, 'Something went wrong while change password');
@@ -0,0 +1,186 @@
+/**
+ * Chat Controllers Module
+ * Handles the chat between a rider and their assigned driver, so neither has to
+ * share a phone number. Messages are stored per ride and pushed to the ride
+ * channel as they are sent. The chat is open while a driver is assigned and
+ * locks when the ride ends; admins can read any chat for support disputes.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { publishToRide } from '../services/realtime-gateway.service';
+import { ACTIVE_TRIP_STATUSES, DRIVER_QUICK_REPLIES } from '../constants';
+import { RideType } from '../types/ride.type';
+import { ChatSenderRole, QuickReplyCode } from '../types/chat.type';
+
+/** Longest chat message */
+const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * Loads a ride and works out which side of its chat the user is on
+ * @param rideId - Ride ID
+ * @param userId - Authenticated user's ID
+ * @returns Promise resolving to the ride and the user's role in it, or null for someone outside the ride
+ * @throws {ApiError} 404 if the ride does not exist
+ */
+const getChatParticipant = async (
+  rideId: string,
+  userId: string,
+): Promise<{ ride: RideType; role: ChatSenderRole | null }> => {
+  const { rows } = await pool.query('SELECT * FROM rides WHERE id = $1 LIMIT 1', [rideId]);
+  const ride: RideType | undefined = rows[0];
+
+  if (!ride) {
+    throw new ApiError(404, 'Ride not found');
+  }
+
+  const role = ride.rider_id === userId ? 'rider' : ride.driver_id === userId ? 'driver' : null;
+  return { ride, role };
+};
+
+/**
+ * List the quick replies drivers can send in the ride chat
+ * @route GET /api/v1/rides/quick-replies
+ * @access Private
+ */
+export const listQuickReplies = async (_: Request, res: Response): Promise<void> => {
+  try {
+    const replies = Object.entries(DRIVER_QUICK_REPLIES).map(([code, body]) => ({ code, body }));
+
+    sendResponse(res, 200, replies, 'Quick replies fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting quick replies');
+  }
+};
+
+/**
+ * List a ride's chat messages, oldest first
+ * @route GET /api/v1/rides/:id/messages
+ * @access Private (ride participants and admins)
+ */
+export const listRideMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId, role: userRole } = req.user;
+    const { ride, role } = await getChatParticipant(req.params.id, userId);
+
+    if (!role && !hasPermission(userRole, 'rides:view_any')) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    const messages = await pool.query(
+      'SELECT * FROM ride_messages WHERE ride_id = $1 ORDER BY created_at ASC, id ASC',
+      [ride.id],
+    );
+
+    sendResponse(
+      res,
+      200,
+      { is_locked: !ACTIVE_TRIP_STATUSES.includes(ride.status), messages: messages.rows },
+      'Messages fetched successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the messages');
+  }
+};
+
+/**
+ * Send a message in a ride's chat
+ * Drivers can send one of DRIVER_QUICK_REPLIES instead of typing a message.
+ * @route POST /api/v1/rides/:id/messages
+ * @body body - Message text, up to 1000 characters (required unless quick_reply is given)
+ * @body quick_reply - Code of a driver quick reply (optional, drivers only)
+ * @access Private (ride participants)
+ */
+export const sendRideMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { body, quick_reply } = req.body;
+
+    if (quick_reply === undefined) {
+      if (typeof body !== 'string' || !body.trim() || body.trim().length > MAX_MESSAGE_LENGTH) {
+        sendResponse(res, 400, {}, `Message must be text of 1 to ${MAX_MESSAGE_LENGTH} characters`);
+        return;
+      }
+    } else if (!Object.prototype.hasOwnProperty.call(DRIVER_QUICK_REPLIES, quick_reply)) {
+      sendResponse(res, 400, {}, `Quick reply must be one of: ${Object.keys(DRIVER_QUICK_REPLIES).join(', ')}`);
+      return;
+    }
+
+    const { ride, role } = await getChatParticipant(req.params.id, req.user.id);
+
+    if (!role) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    if (quick_reply !== undefined && role !== 'driver') {
+      sendResponse(res, 403, {}, 'Only drivers can send quick replies');
+      return;
+    }
+
+    if (!ACTIVE_TRIP_STATUSES.includes(ride.status)) {
+      sendResponse(res, 409, {}, 'The chat is only open while a driver is assigned and the ride has not ended');
+      return;
+    }
+
+    const message = await pool.query(
+      `INSERT INTO ride_messages (ride_id, sender_id, sender_role, body, quick_reply)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        ride.id,
+        req.user.id,
+        role,
+        quick_reply === undefined ? body.trim() : DRIVER_QUICK_REPLIES[quick_reply as QuickReplyCode],
+        quick_reply ?? null,
+      ],
+    );
+
+    publishToRide(ride.id, 'ride.message', message.rows[0]);
+
+    sendResponse(res, 201, message.rows[0], 'Message sent successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while sending the message');
+  }
+};
+
+/**
+ * Mark every unread message from the other participant as read
+ * Also allowed after the ride ended, so late readers still send a read receipt.
+ * @route POST /api/v1/rides/:id/messages/read
+ * @access Private (ride participants)
+ */
+export const markRideMessagesRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { ride, role } = await getChatParticipant(req.params.id, req.user.id);
+
+    if (!role) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    const read = await pool.query(
+      `UPDATE ride_messages
+       SET read_at = NOW()
+       WHERE ride_id = $1 AND sender_role <> $2 AND read_at IS NULL
+       RETURNING id, read_at`,
+      [ride.id, role],
+    );
+
+    if (read.rowCount) {
+      publishToRide(ride.id, 'ride.messages_read', {
+        ride_id: ride.id,
+        reader_role: role,
+        message_ids: read.rows.map(({ id }) => id),
+        read_at: read.rows[0].read_at,
+      });
+    }
+
+    sendResponse(res, 200, { read: read.rowCount }, 'Messages marked as read');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while marking messages as read');
+  }
+};
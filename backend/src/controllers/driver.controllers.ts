@@ -1,23 +1,478 @@
 /**
  * Driver Controllers Module
- * Handles all authentication-related operations including driver signUp,
- * signIn management.
+ * Handles driver onboarding: sign up with vehicle registration and
+ * document upload, document resubmission and retrieval of the driver's own application.
+ * Also handles online/offline availability, intercity opt-in and live location pings of approved drivers.
  */
 
 import { Request, Response } from 'express';
-import { handleError } from '../utils/api-error.utils';
+import fs from 'fs';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import uploadOnCloudinary from '../utils/cloudinary.utils';
+import { hashPassword } from '../utils/auth.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { checkUserExistsUtils } from '../utils/check-user-exists.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { sendUserWelcomeEmail } from '../emails/send-user-welcome.email';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { normalisePhoneNumber } from '../utils/phone.utils';
+import {
+  forgetDriverLocation,
+  getLatestDriverLocation,
+  recordDriverLocation,
+} from '../services/driver-location.service';
+import { publishToRide } from '../services/realtime-gateway.service';
+import { getPoolRoute } from '../services/pool.service';
+import {
+  DRIVER_DOCUMENTS,
+  DRIVER_LOCATION_MAX_AGE_SECONDS,
+  INTERCITY_VEHICLE_TYPES,
+  VEHICLE_TYPES,
+} from '../constants';
+import { DriverDocument } from '../types/driver.type';
+
+type UploadedFiles = Record<string, Express.Multer.File[]>;
+
+/**
+ * Removes temporary uploads left behind when a request is rejected before upload
+ * @param files - Files stored by multer for the current request
+ */
+const discardUploadedFiles = (files: UploadedFiles): void => {
+  Object.values(files)
+    .flat()
+    .forEach((file) => {
+      if (fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    });
+};
 
 /**
- * Register a new driver
- * @route POST /api/driver/sign-up
+ * Register a new driver with vehicle details and documents
+ * Creates the users row with role driver and a driver profile in pending_review.
+ * @route POST /api/v1/driver/sign-up
+ * @body firstname, lastname, email, password, phone_number - Account details
+ * @body licence_number - Driving licence number
+ * @body vehicle_type, vehicle_make, vehicle_model, vehicle_plate, vehicle_colour - Vehicle details
+ * @file avatar - Profile picture (optional)
+ * @file licence, registration, insurance - Document images
  * @param {Request} req - Express request object containing driver registration data
  * @param {Response} res - Express response object
  */
 export const signUp = async (req: Request, res: Response): Promise<void> => {
+  const files = (req.files || {}) as UploadedFiles;
+
   try {
     // Extract driver data from request
-    const {firstname, lastname, email, password} = req.body;
+    const {
+      firstname,
+      lastname,
+      email,
+      password,
+      phone_number,
+      licence_number,
+      vehicle_type,
+      vehicle_make,
+      vehicle_model,
+      vehicle_plate,
+      vehicle_colour,
+    } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({
+      firstname,
+      lastname,
+      email,
+      password,
+      phone_number,
+      licence_number,
+      vehicle_type,
+      vehicle_make,
+      vehicle_model,
+      vehicle_plate,
+      vehicle_colour,
+    });
+    if (!validation.isValid) {
+      discardUploadedFiles(files);
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!VEHICLE_TYPES.includes(vehicle_type)) {
+      discardUploadedFiles(files);
+      sendResponse(res, 400, {}, 'Invalid vehicle type');
+      return;
+    }
+
+    const phoneNumber = normalisePhoneNumber(phone_number);
+    if (!phoneNumber) {
+      discardUploadedFiles(files);
+      sendResponse(res, 400, {}, 'A valid phone number is required');
+      return;
+    }
+
+    const missingDocuments = DRIVER_DOCUMENTS.filter((field) => !files[field]?.length);
+    if (missingDocuments.length > 0) {
+      discardUploadedFiles(files);
+      sendResponse(res, 400, {}, `Missing required documents: ${missingDocuments.join(', ')}`);
+      return;
+    }
+
+    // Check if user, licence or vehicle is already registered
+    await checkUserExistsUtils(email, false);
+
+    const existingDriver = await pool.query(
+      'SELECT id FROM drivers WHERE licence_number = $1 OR vehicle_plate = $2 LIMIT 1',
+      [licence_number, vehicle_plate],
+    );
+    if (existingDriver.rowCount) {
+      throw new ApiError(409, 'Licence number or vehicle plate is already registered');
+    }
+
+    // Upload avatar and documents
+    const avatar = files.avatar?.length ? await uploadOnCloudinary(files.avatar[0].path) : null;
+    const [licenceImageUrl, registrationImageUrl, insuranceImageUrl] = await Promise.all(
+      DRIVER_DOCUMENTS.map((field) => uploadOnCloudinary(files[field][0].path)),
+    );
+
+    if (!licenceImageUrl || !registrationImageUrl || !insuranceImageUrl) {
+      throw new ApiError(500, 'Something went wrong while uploading documents');
+    }
+
+    // Hash password and create user with driver profile
+    const hashedPassword = await hashPassword(password);
+    const driver = await withTransaction(async (client) => {
+      const newUser = await client.query(
+        `INSERT INTO users (firstname, lastname, email, password, phone_number, avatar, role)
+         VALUES ($1, $2, $3, $4, $5, $6, 'driver')
+         RETURNING id, email, firstname, lastname, phone_number, avatar, role`,
+        [firstname, lastname, email, hashedPassword, phoneNumber, avatar],
+      );
+
+      const profile = await client.query(
+        `INSERT INTO drivers (user_id, licence_number, vehicle_type, vehicle_make, vehicle_model, vehicle_plate, vehicle_colour,
+                              licence_image_url, registration_image_url, insurance_image_url)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          newUser.rows[0].id,
+          licence_number,
+          vehicle_type,
+          vehicle_make,
+          vehicle_model,
+          vehicle_plate,
+          vehicle_colour,
+          licenceImageUrl,
+          registrationImageUrl,
+          insuranceImageUrl,
+        ],
+      );
+
+      return { ...newUser.rows[0], driver_profile: profile.rows[0] };
+    });
+
+    // Send welcome email
+    await sendUserWelcomeEmail({
+      name: `${firstname} ${lastname}`,
+      email: email,
+    });
+
+    sendResponse(res, 201, driver, 'Driver application submitted successfully');
   } catch (error) {
+    discardUploadedFiles(files);
     handleError(res, error, 'Something went wrong while signing up');
   }
-}
\ No newline at end of file
+};
+
+/**
+ * Retrieves the authenticated driver's profile and application status
+ * @route GET /api/v1/driver/me
+ * @access Private (drivers)
+ */
+export const getDriverProfile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driver = await pool.query(
+      `SELECT u.id, u.avatar, u.firstname, u.lastname, u.email, u.phone_number, u.is_verified, u.rating_average, u.rating_count,
+              row_to_json(d.*) AS driver_profile
+       FROM users u
+       JOIN drivers d ON d.user_id = u.id
+       WHERE u.id = $1 LIMIT 1`,
+      [req.user.id],
+    );
+
+    if (driver.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Driver profile not found');
+      return;
+    }
+
+    sendResponse(res, 200, driver.rows[0], 'Driver profile fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the driver profile');
+  }
+};
+
+/**
+ * Uploads documents requested by an admin and sends the application back for review
+ * @route PUT /api/v1/driver/documents
+ * @file licence, registration, insurance - Requested document images
+ * @access Private (drivers with a resubmission request)
+ */
+export const resubmitDocuments = async (req: Request, res: Response): Promise<void> => {
+  const files = (req.files || {}) as UploadedFiles;
+
+  try {
+    const profile = await pool.query('SELECT * FROM drivers WHERE user_id = $1 LIMIT 1', [req.user.id]);
+
+    if (profile.rowCount === 0) {
+      discardUploadedFiles(files);
+      sendResponse(res, 404, {}, 'Driver profile not found');
+      return;
+    }
+
+    const { status, requested_documents } = profile.rows[0];
+    if (status !== 'resubmission_requested') {
+      discardUploadedFiles(files);
+      sendResponse(res, 409, {}, 'No document resubmission has been requested');
+      return;
+    }
+
+    const requestedDocuments: DriverDocument[] = requested_documents || [];
+    const missingDocuments = requestedDocuments.filter((document) => !files[document]?.length);
+    if (missingDocuments.length > 0) {
+      discardUploadedFiles(files);
+      sendResponse(res, 400, {}, `Missing required documents: ${missingDocuments.join(', ')}`);
+      return;
+    }
+
+    // Upload only the requested documents
+    const uploadedUrls = await Promise.all(
+      requestedDocuments.map((document) => uploadOnCloudinary(files[document][0].path)),
+    );
+    if (uploadedUrls.some((url) => !url)) {
+      throw new ApiError(500, 'Something went wrong while uploading documents');
+    }
+
+    const setClauses = requestedDocuments.map((document, index) => `${document}_image_url = $${index + 2}`);
+    const driver = await pool.query(
+      `UPDATE drivers
+       SET ${[...setClauses, "status = 'pending_review'", 'requested_documents = NULL', 'updated_at = NOW()'].join(', ')}
+       WHERE user_id = $1
+       RETURNING *`,
+      [req.user.id, ...uploadedUrls],
+    );
+
+    discardUploadedFiles(files);
+    sendResponse(res, 200, driver.rows[0], 'Documents resubmitted successfully');
+  } catch (error) {
+    discardUploadedFiles(files);
+    handleError(res, error, 'Something went wrong while resubmitting documents');
+  }
+};
+
+/**
+ * Parses an optional numeric ping field
+ * @param value - Raw value from the request body
+ * @returns Parsed number, null when absent, or NaN when invalid
+ */
+const parseOptionalNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  return Number(value);
+};
+
+/**
+ * Marks the authenticated driver as online
+ * @route POST /api/v1/driver/online
+ * @access Private (approved drivers)
+ */
+export const goOnline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driver = await pool.query(
+      'UPDATE drivers SET is_online = true, last_seen_at = NOW(), updated_at = NOW() WHERE user_id = $1 RETURNING *',
+      [req.driver!.user_id],
+    );
+
+    sendResponse(res, 200, driver.rows[0], 'Driver is now online');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while going online');
+  }
+};
+
+/**
+ * Marks the authenticated driver as offline
+ * @route POST /api/v1/driver/offline
+ * @access Private (approved drivers)
+ */
+export const goOffline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.driver!.user_id;
+
+    const driver = await pool.query(
+      'UPDATE drivers SET is_online = false, updated_at = NOW() WHERE user_id = $1 RETURNING *',
+      [driverId],
+    );
+    forgetDriverLocation(driverId);
+
+    sendResponse(res, 200, driver.rows[0], 'Driver is now offline');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while going offline');
+  }
+};
+
+/**
+ * Opts the authenticated driver in to or out of intercity trips
+ * @route PUT /api/v1/driver/intercity
+ * @body accepts_intercity - Whether the driver wants intercity offers
+ * @access Private (approved drivers)
+ */
+export const updateIntercityPreference = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { accepts_intercity } = req.body;
+
+    if (typeof accepts_intercity !== 'boolean') {
+      sendResponse(res, 400, {}, 'accepts_intercity must be true or false');
+      return;
+    }
+
+    if (accepts_intercity && !INTERCITY_VEHICLE_TYPES.includes(req.driver!.vehicle_type)) {
+      sendResponse(res, 400, {}, 'Your vehicle type is not available for intercity trips');
+      return;
+    }
+
+    const driver = await pool.query(
+      'UPDATE drivers SET accepts_intercity = $1, updated_at = NOW() WHERE user_id = $2 RETURNING *',
+      [accepts_intercity, req.driver!.user_id],
+    );
+
+    sendResponse(res, 200, driver.rows[0], 'Intercity preference updated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating the intercity preference');
+  }
+};
+
+/**
+ * Records a location ping from an online driver
+ * Pings older than DRIVER_LOCATION_MAX_AGE_SECONDS, from the future, or older than
+ * the last accepted ping are rejected.
+ * @route POST /api/v1/driver/location
+ * @body lat, lng - Current coordinates
+ * @body heading, speed, accuracy - Optional motion details
+ * @body timestamp - Time the device recorded the position (ISO string or epoch milliseconds)
+ * @access Private (approved drivers)
+ */
+export const updateDriverLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.driver!.user_id;
+    const { lat, lng, heading, speed, accuracy, timestamp } = req.body;
+
+    if (!req.driver!.is_online) {
+      sendResponse(res, 409, {}, 'Go online before sending location updates');
+      return;
+    }
+
+    const validation = validateRequiredFieldsUtils({ timestamp });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'Timestamp is required');
+      return;
+    }
+
+    if (!isValidCoordinate(lat, lng)) {
+      sendResponse(res, 400, {}, 'Valid coordinates are required');
+      return;
+    }
+
+    const motion = [parseOptionalNumber(heading), parseOptionalNumber(speed), parseOptionalNumber(accuracy)];
+    if (motion.some((value) => value !== null && !Number.isFinite(value))) {
+      sendResponse(res, 400, {}, 'Heading, speed and accuracy must be numbers');
+      return;
+    }
+
+    const recordedAt = new Date(Number.isNaN(Number(timestamp)) ? timestamp : Number(timestamp));
+    if (Number.isNaN(recordedAt.getTime())) {
+      sendResponse(res, 400, {}, 'Invalid timestamp');
+      return;
+    }
+
+    // Reject stale or out-of-order pings
+    const ageMs = Date.now() - recordedAt.getTime();
+    if (ageMs > DRIVER_LOCATION_MAX_AGE_SECONDS * 1000 || ageMs < -DRIVER_LOCATION_MAX_AGE_SECONDS * 1000) {
+      sendResponse(res, 422, {}, 'Location ping is stale');
+      return;
+    }
+
+    const lastLocation = await getLatestDriverLocation(driverId);
+    if (lastLocation && recordedAt <= lastLocation.recordedAt) {
+      sendResponse(res, 422, {}, 'Location ping is older than the last recorded position');
+      return;
+    }
+
+    const [parsedHeading, parsedSpeed, parsedAccuracy] = motion;
+    const location = {
+      driverId,
+      lat: Number(lat),
+      lng: Number(lng),
+      heading: parsedHeading,
+      speed: parsedSpeed,
+      accuracy: parsedAccuracy,
+      recordedAt,
+    };
+    await recordDriverLocation(location, req.driver!.vehicle_type);
+
+    // Share the position with the riders while the driver is en route or on trip (several on a pooled trip)
+    const activeRides = await pool.query(
+      `SELECT id FROM rides
+       WHERE driver_id = $1 AND status IN ('driver_assigned', 'driver_arrived', 'in_progress')`,
+      [driverId],
+    );
+    activeRides.rows.forEach(({ id }) => publishToRide(id, 'ride.driver_location', location));
+
+    sendResponse(res, 200, location, 'Location updated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating location');
+  }
+};
+
+/**
+ * Lists ride offers currently waiting for the authenticated driver's answer
+ * @route GET /api/v1/driver/offers
+ * @access Private (approved drivers)
+ */
+export const getPendingOffers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const offers = await pool.query(
+      `SELECT o.id, o.ride_id, o.distance_km, o.expires_at, row_to_json(r.*) AS ride
+       FROM ride_offers o
+       JOIN rides r ON r.id = o.ride_id
+       WHERE o.driver_id = $1 AND o.status = 'pending' AND o.expires_at > NOW()
+       ORDER BY o.created_at DESC`,
+      [req.driver!.user_id],
+    );
+
+    sendResponse(res, 200, offers.rows, 'Ride offers fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting ride offers');
+  }
+};
+
+/**
+ * Gets the authenticated driver's active pool with every pickup and drop in driving order
+ * @route GET /api/v1/driver/pool
+ * @access Private (approved drivers)
+ */
+export const getActivePool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const active = await pool.query("SELECT id FROM ride_pools WHERE driver_id = $1 AND status = 'active' LIMIT 1", [
+      req.driver!.user_id,
+    ]);
+
+    if (active.rowCount === 0) {
+      sendResponse(res, 404, {}, 'You have no active pool');
+      return;
+    }
+
+    sendResponse(res, 200, await getPoolRoute(active.rows[0].id), 'Pool fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the pool');
+  }
+};
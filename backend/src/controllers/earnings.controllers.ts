@@ -0,0 +1,309 @@
+/**
+ * Earnings Controllers Module
+ * Handles driver earnings summaries and weekly payout statements, plus the
+ * admin endpoints that run the payout batch and record payouts as paid.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { toCsv } from '../utils/csv.utils';
+import { isCalendarDate, isUuid } from '../utils/validation.utils';
+import { generateWeeklyPayouts, markPayoutPaid } from '../services/earnings.service';
+import { EARNINGS_TIME_ZONE } from '../constants';
+import { DriverPayoutType, PayoutStatus } from '../types/earnings.type';
+
+const PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'paid'];
+
+/** Days of earnings summarised when no date range is given */
+const DEFAULT_EARNINGS_RANGE_DAYS = 28;
+
+/**
+ * Checks that an optional query value is a calendar date
+ * @param value - Raw query value
+ * @returns True if the value is missing or a YYYY-MM-DD date that exists
+ */
+const isOptionalDate = (value: unknown): boolean => value === undefined || isCalendarDate(value);
+
+/**
+ * Sends a payout statement with its rides as a CSV download
+ * @param res - Express response object
+ * @param payoutId - Payout statement ID
+ * @param driverId - Only send the statement if it belongs to this driver (null for admins)
+ */
+const sendPayoutStatementCsv = async (res: Response, payoutId: string, driverId: string | null): Promise<void> => {
+  if (!isUuid(payoutId)) {
+    sendResponse(res, 400, {}, 'Invalid payout ID');
+    return;
+  }
+
+  const payoutResult = await pool.query(
+    'SELECT * FROM driver_payouts WHERE id = $1 AND ($2::uuid IS NULL OR driver_id = $2) LIMIT 1',
+    [payoutId, driverId],
+  );
+  const payout: DriverPayoutType | undefined = payoutResult.rows[0];
+
+  if (!payout) {
+    sendResponse(res, 404, {}, 'Payout not found');
+    return;
+  }
+
+  const rides = await pool.query(
+    `SELECT re.*, r.pickup_address, r.drop_address, r.distance_km
+     FROM ride_earnings re
+     JOIN rides r ON r.id = re.ride_id
+     WHERE re.payout_id = $1
+     ORDER BY re.completed_at ASC`,
+    [payout.id],
+  );
+
+  const csv = toCsv(
+    [
+      'ride_id',
+      'completed_at',
+      'pickup_address',
+      'drop_address',
+      'distance_km',
+      'vehicle_type',
+      'payment_method',
+      'gross_fare',
+      'discount',
+      'fare_paid',
+      'pass_through_charges',
+      'commission_rate',
+      'commission',
+      'driver_earnings',
+    ],
+    [
+      ...rides.rows.map((ride) => [
+        ride.ride_id,
+        ride.completed_at,
+        ride.pickup_address,
+        ride.drop_address,
+        ride.distance_km,
+        ride.vehicle_type,
+        ride.payment_method,
+        ride.gross_fare,
+        ride.discount,
+        ride.fare_total,
+        ride.pass_through_charges,
+        ride.commission_rate,
+        ride.commission_amount,
+        ride.driver_earnings,
+      ]),
+      [],
+      ['period_start', payout.period_start],
+      ['period_end', payout.period_end],
+      ['rides', payout.ride_count],
+      ['gross_fare', payout.gross_fare],
+      ['commission', payout.commission_amount],
+      ['driver_earnings', payout.driver_earnings],
+      ['cash_collected', payout.cash_collected],
+      ['net_payout', payout.net_payout],
+      ['status', payout.status],
+      ['paid_at', payout.paid_at],
+      ['payment_reference', payout.payment_reference],
+    ],
+  );
+
+  const periodStart = new Date(payout.period_start).toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="payout-statement-${periodStart}-${payout.id}.csv"`);
+  res.status(200).send(csv);
+};
+
+/**
+ * Get the authenticated driver's earnings, summarised per day and per week
+ * Days and weeks are counted in EARNINGS_TIME_ZONE; weeks start on Monday.
+ * @route GET /api/v1/driver/earnings
+ * @query from - First day to include, YYYY-MM-DD (optional, defaults to 27 days before `to`)
+ * @query to - Last day to include, YYYY-MM-DD (optional, defaults to today)
+ * @access Private (approved drivers)
+ */
+export const getDriverEarnings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.driver!.user_id;
+    const { from, to } = req.query;
+
+    if (!isOptionalDate(from) || !isOptionalDate(to)) {
+      sendResponse(res, 400, {}, 'Dates must be real calendar dates in YYYY-MM-DD format');
+      return;
+    }
+
+    if (from && to && from > to) {
+      sendResponse(res, 400, {}, 'The start date must not be after the end date');
+      return;
+    }
+
+    const range = await pool.query(
+      `SELECT to_char(COALESCE($3::date, d.to_day - $4::int), 'YYYY-MM-DD') AS from_day,
+              to_char(d.to_day, 'YYYY-MM-DD') AS to_day
+       FROM (SELECT COALESCE($2::date, (NOW() AT TIME ZONE $1)::date) AS to_day) d`,
+      [EARNINGS_TIME_ZONE, to ?? null, from ?? null, DEFAULT_EARNINGS_RANGE_DAYS - 1],
+    );
+    const { from_day: fromDay, to_day: toDay } = range.rows[0];
+
+    // Earnings completed between local midnight of the first day and local midnight after the last day
+    const filter = `driver_id = $1
+       AND completed_at >= $2::date::timestamp AT TIME ZONE $4
+       AND completed_at < ($3::date + 1)::timestamp AT TIME ZONE $4`;
+    const params = [driverId, fromDay, toDay, EARNINGS_TIME_ZONE];
+    const totals = `COUNT(*)::int AS ride_count,
+              COALESCE(SUM(gross_fare), 0) AS gross_fare,
+              COALESCE(SUM(commission_amount), 0) AS commission_amount,
+              COALESCE(SUM(driver_earnings), 0) AS driver_earnings,
+              COALESCE(SUM(cash_collected), 0) AS cash_collected`;
+
+    const summary = await pool.query(`SELECT ${totals} FROM ride_earnings WHERE ${filter}`, params);
+
+    const daily = await pool.query(
+      `SELECT to_char(completed_at AT TIME ZONE $4, 'YYYY-MM-DD') AS day, ${totals}
+       FROM ride_earnings
+       WHERE ${filter}
+       GROUP BY 1
+       ORDER BY 1 DESC`,
+      params,
+    );
+
+    const weekly = await pool.query(
+      `SELECT to_char(date_trunc('week', completed_at AT TIME ZONE $4), 'YYYY-MM-DD') AS week_start, ${totals}
+       FROM ride_earnings
+       WHERE ${filter}
+       GROUP BY 1
+       ORDER BY 1 DESC`,
+      params,
+    );
+
+    sendResponse(
+      res,
+      200,
+      { from: fromDay, to: toDay, summary: summary.rows[0], daily: daily.rows, weekly: weekly.rows },
+      'Earnings fetched successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting earnings');
+  }
+};
+
+/**
+ * List the authenticated driver's payout statements, newest first
+ * @route GET /api/v1/driver/payouts
+ * @access Private (approved drivers)
+ */
+export const listDriverPayouts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const payouts = await pool.query('SELECT * FROM driver_payouts WHERE driver_id = $1 ORDER BY period_start DESC', [
+      req.driver!.user_id,
+    ]);
+
+    sendResponse(res, 200, payouts.rows, 'Payouts fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting payouts');
+  }
+};
+
+/**
+ * Download one of the authenticated driver's payout statements as CSV
+ * @route GET /api/v1/driver/payouts/:id/statement
+ * @access Private (approved drivers)
+ */
+export const downloadDriverPayoutStatement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await sendPayoutStatementCsv(res, req.params.id, req.driver!.user_id);
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while downloading the payout statement');
+  }
+};
+
+/**
+ * List payout statements, newest first
+ * @route GET /api/v1/admin/payouts
+ * @query status - pending or paid (optional)
+ * @query driver_id - Only list this driver's statements (optional)
+ * @access Private (admins)
+ */
+export const listPayouts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = (req.query.status as PayoutStatus) || null;
+    const driverId = (req.query.driver_id as string) || null;
+
+    if (status && !PAYOUT_STATUSES.includes(status)) {
+      sendResponse(res, 400, {}, 'Status must be pending or paid');
+      return;
+    }
+
+    if (driverId && !isUuid(driverId)) {
+      sendResponse(res, 400, {}, 'Invalid driver ID');
+      return;
+    }
+
+    const payouts = await pool.query(
+      `SELECT p.*, u.firstname, u.lastname, u.email, u.phone_number
+       FROM driver_payouts p
+       JOIN users u ON u.id = p.driver_id
+       WHERE ($1::varchar IS NULL OR p.status = $1) AND ($2::uuid IS NULL OR p.driver_id = $2)
+       ORDER BY p.period_start DESC, p.created_at DESC`,
+      [status, driverId],
+    );
+
+    sendResponse(res, 200, payouts.rows, 'Payouts fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting payouts');
+  }
+};
+
+/**
+ * Generate payout statements for the last full week now instead of waiting for the weekly job
+ * @route POST /api/v1/admin/payouts/batch
+ * @access Private (admins)
+ */
+export const runPayoutBatch = async (_: Request, res: Response): Promise<void> => {
+  try {
+    const payouts = await generateWeeklyPayouts();
+
+    sendResponse(res, 201, payouts, `${payouts.length} payout statements generated`);
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while generating payouts');
+  }
+};
+
+/**
+ * Record a payout statement as paid
+ * @route POST /api/v1/admin/payouts/:id/paid
+ * @body payment_reference - Bank or UPI reference of the transfer (optional)
+ * @access Private (admins)
+ */
+export const payPayout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { payment_reference } = req.body;
+
+    if (!isUuid(req.params.id)) {
+      sendResponse(res, 400, {}, 'Invalid payout ID');
+      return;
+    }
+
+    const payout = await markPayoutPaid(
+      req.params.id,
+      req.user.id,
+      payment_reference ? String(payment_reference) : null,
+    );
+
+    sendResponse(res, 200, payout, 'Payout marked paid');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while marking the payout paid');
+  }
+};
+
+/**
+ * Download any payout statement as CSV
+ * @route GET /api/v1/admin/payouts/:id/statement
+ * @access Private (admins)
+ */
+export const downloadPayoutStatement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await sendPayoutStatementCsv(res, req.params.id, null);
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while downloading the payout statement');
+  }
+};
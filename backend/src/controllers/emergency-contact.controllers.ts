@@ -0,0 +1,298 @@
+/**
+ * Emergency Contact Controllers Module
+ * Handles the emergency contacts a rider stores on their profile, up to
+ * EMERGENCY_CONTACTS_LIMIT per rider. Contacts are emailed when the rider
+ * raises an SOS during a ride, once they have confirmed their address through the
+ * link emailed to them when they are added or their email changes.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { EMERGENCY_CONTACTS_LIMIT } from '../constants';
+import {
+  confirmEmergencyContact,
+  createContactConfirmationToken,
+  sendContactConfirmation,
+} from '../services/safety.service';
+
+/** Loose check that a value looks like an email address */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Longest contact name */
+const MAX_NAME_LENGTH = 100;
+
+/** Longest phone number */
+const MAX_PHONE_LENGTH = 20;
+
+/** Longest relationship description */
+const MAX_RELATIONSHIP_LENGTH = 50;
+
+/** Columns returned to the rider; the confirmation token hash stays private */
+const CONTACT_COLUMNS = 'id, user_id, name, email, phone_number, relationship, confirmed_at, created_at, updated_at';
+
+/**
+ * Checks the fields of an emergency contact
+ * @param fields - Fields from the request body; missing fields are not checked
+ * @returns Error message, or null if every given field is valid
+ */
+const validateContactFields = ({ name, email, phone_number, relationship }: Record<string, unknown>): string | null => {
+  if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH)) {
+    return `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (email !== undefined && (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim()))) {
+    return 'A valid email address is required';
+  }
+  if (
+    phone_number !== undefined &&
+    phone_number !== null &&
+    (typeof phone_number !== 'string' || phone_number.trim().length > MAX_PHONE_LENGTH)
+  ) {
+    return `Phone number must be at most ${MAX_PHONE_LENGTH} characters`;
+  }
+  if (
+    relationship !== undefined &&
+    relationship !== null &&
+    (typeof relationship !== 'string' || relationship.trim().length > MAX_RELATIONSHIP_LENGTH)
+  ) {
+    return `Relationship must be at most ${MAX_RELATIONSHIP_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Turns a violation of the one-contact-per-email constraint into a readable error
+ * @param error - Error thrown by the insert or update
+ * @throws {ApiError} 409 for a duplicate email, otherwise the original error
+ */
+const rethrowDuplicateEmail = (error: unknown): never => {
+  if ((error as { code?: string }).code === '23505') {
+    throw new ApiError(409, 'You already have an emergency contact with this email');
+  }
+  throw error;
+};
+
+/**
+ * List the authenticated rider's emergency contacts
+ * @route GET /api/v1/user/emergency-contacts
+ * @access Private (passengers)
+ */
+export const listEmergencyContacts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const contacts = await pool.query(
+      `SELECT ${CONTACT_COLUMNS} FROM emergency_contacts WHERE user_id = $1 ORDER BY created_at ASC`,
+      [req.user.id],
+    );
+
+    sendResponse(res, 200, contacts.rows, 'Emergency contacts fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting emergency contacts');
+  }
+};
+
+/**
+ * Add an emergency contact
+ * The contact is emailed a link to confirm their address and gets no SOS alerts until they do.
+ * @route POST /api/v1/user/emergency-contacts
+ * @body name - Contact's name
+ * @body email - Address SOS alerts are sent to
+ * @body phone_number - Contact's phone number (optional)
+ * @body relationship - How the contact is related to the rider (optional)
+ * @access Private (passengers)
+ */
+export const createEmergencyContact = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user.id;
+    const { name, email, phone_number, relationship } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ name, email });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    const error = validateContactFields(req.body);
+    if (error) {
+      sendResponse(res, 400, {}, error);
+      return;
+    }
+
+    const confirmation = createContactConfirmationToken();
+
+    const contact = await withTransaction(async (client) => {
+      // Lock the rider so concurrent requests cannot both pass the limit check
+      await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+
+      const count = await client.query('SELECT COUNT(*)::int AS count FROM emergency_contacts WHERE user_id = $1', [
+        userId,
+      ]);
+      if (count.rows[0].count >= EMERGENCY_CONTACTS_LIMIT) {
+        throw new ApiError(409, `You can store at most ${EMERGENCY_CONTACTS_LIMIT} emergency contacts`);
+      }
+
+      const inserted = await client
+        .query(
+          `INSERT INTO emergency_contacts (user_id, name, email, phone_number, relationship, confirmation_token_hash)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING ${CONTACT_COLUMNS}`,
+          [
+            userId,
+            name.trim(),
+            email.trim().toLowerCase(),
+            phone_number?.trim() || null,
+            relationship?.trim() || null,
+            confirmation.hash,
+          ],
+        )
+        .catch(rethrowDuplicateEmail);
+
+      return inserted.rows[0];
+    });
+
+    sendContactConfirmation(contact, userId, confirmation.token).catch((err) =>
+      console.error(`Error sending confirmation to emergency contact ${contact.id}:`, err),
+    );
+
+    sendResponse(res, 201, contact, 'Emergency contact added; they get SOS alerts once they confirm their email');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while adding the emergency contact');
+  }
+};
+
+/**
+ * Update an emergency contact
+ * A new email address has to be confirmed again before the contact gets SOS alerts.
+ * @route PUT /api/v1/user/emergency-contacts/:id
+ * @body name, email, phone_number, relationship - Fields to change (optional)
+ * @access Private (passengers)
+ */
+export const updateEmergencyContact = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, email, phone_number, relationship } = req.body;
+
+    const error = validateContactFields(req.body);
+    if (error) {
+      sendResponse(res, 400, {}, error);
+      return;
+    }
+
+    const confirmation = createContactConfirmationToken();
+
+    // Changing the email clears the confirmation and stores a new token, which is how a changed address is detected below
+    const contact = await pool
+      .query(
+        `UPDATE emergency_contacts
+         SET name = COALESCE($1, name), email = COALESCE($2, email),
+             phone_number = COALESCE($3, phone_number), relationship = COALESCE($4, relationship),
+             confirmed_at = CASE WHEN $2 IS NULL OR $2 = email THEN confirmed_at END,
+             confirmation_token_hash = CASE WHEN $2 IS NULL OR $2 = email THEN confirmation_token_hash ELSE $7 END,
+             updated_at = NOW()
+         WHERE id = $5 AND user_id = $6
+         RETURNING ${CONTACT_COLUMNS}, confirmation_token_hash = $7 AS email_changed`,
+        [
+          name?.trim() ?? null,
+          email?.trim().toLowerCase() ?? null,
+          phone_number?.trim() ?? null,
+          relationship?.trim() ?? null,
+          req.params.id,
+          req.user.id,
+          confirmation.hash,
+        ],
+      )
+      .catch(rethrowDuplicateEmail);
+
+    if (contact.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Emergency contact not found');
+      return;
+    }
+
+    const { email_changed, ...updated } = contact.rows[0];
+    if (email_changed) {
+      sendContactConfirmation(updated, req.user.id, confirmation.token).catch((err) =>
+        console.error(`Error sending confirmation to emergency contact ${updated.id}:`, err),
+      );
+    }
+
+    sendResponse(res, 200, updated, 'Emergency contact updated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating the emergency contact');
+  }
+};
+
+/**
+ * Delete an emergency contact
+ * @route DELETE /api/v1/user/emergency-contacts/:id
+ * @access Private (passengers)
+ */
+export const deleteEmergencyContact = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const contact = await pool.query('DELETE FROM emergency_contacts WHERE id = $1 AND user_id = $2 RETURNING id', [
+      req.params.id,
+      req.user.id,
+    ]);
+
+    if (contact.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Emergency contact not found');
+      return;
+    }
+
+    sendResponse(res, 200, {}, 'Emergency contact deleted successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while deleting the emergency contact');
+  }
+};
+
+/**
+ * Email an unconfirmed emergency contact a new confirmation link
+ * Earlier links stop working.
+ * @route POST /api/v1/user/emergency-contacts/:id/confirmation
+ * @access Private (passengers)
+ */
+export const resendEmergencyContactConfirmation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const confirmation = createContactConfirmationToken();
+
+    const contact = await pool.query(
+      `UPDATE emergency_contacts
+       SET confirmation_token_hash = $1, updated_at = NOW()
+       WHERE id = $2 AND user_id = $3 AND confirmed_at IS NULL
+       RETURNING ${CONTACT_COLUMNS}`,
+      [confirmation.hash, req.params.id, req.user.id],
+    );
+
+    if (contact.rowCount === 0) {
+      sendResponse(res, 404, {}, 'No unconfirmed emergency contact found');
+      return;
+    }
+
+    await sendContactConfirmation(contact.rows[0], req.user.id, confirmation.token);
+
+    sendResponse(res, 200, contact.rows[0], 'Confirmation email sent');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while sending the confirmation email');
+  }
+};
+
+/**
+ * Confirm an emergency contact's email address from the link emailed to them
+ * @route POST /api/v1/user/emergency-contacts/confirm/:token
+ * @access Public (the token in the link grants access)
+ */
+export const confirmEmergencyContactByToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const confirmed = await confirmEmergencyContact(req.params.token);
+
+    if (!confirmed) {
+      sendResponse(res, 404, {}, 'This confirmation link is invalid or was already used');
+      return;
+    }
+
+    sendResponse(res, 200, {}, 'Thank you; you will be alerted if the rider raises an SOS');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while confirming the emergency contact');
+  }
+};
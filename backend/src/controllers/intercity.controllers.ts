@@ -0,0 +1,244 @@
+/**
+ * Intercity Controllers Module
+ * Handles intercity trips between cities, booked one way or as a round trip.
+ * Intercity bookings are reservations with trip details attached, so they are
+ * dispatched by the reservation job ahead of departure, and only offered to
+ * drivers who opted in to intercity work.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { calculateIntercityFare, countIntercityTripDays, estimateTripDistanceKm } from '../utils/fare-calculator.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { validateReservationTime } from '../services/reservation.service';
+import { INTERCITY_MAX_TRIP_DAYS, INTERCITY_RATE_CARDS, INTERCITY_VEHICLE_TYPES } from '../constants';
+import { IntercityFareBreakdown } from '../types/fare.type';
+import { IntercityTripType } from '../types/intercity.type';
+import { VehicleType } from '../types/ride.type';
+
+const INTERCITY_TRIP_TYPES: IntercityTripType[] = ['one_way', 'round_trip'];
+
+interface IntercityQuote {
+  tripType: IntercityTripType;
+  departureAt: Date;
+  returnAt: Date | null;
+  tripDays: number;
+  crossesStateBorder: boolean;
+  durationMin: number; // Total driving time, both ways for round trips
+  fares: IntercityFareBreakdown[];
+}
+
+/**
+ * Validates an intercity trip request and prices it
+ * @param body - Request body with coordinates, trip type and dates
+ * @param vehicleTypes - Vehicle types to price
+ * @returns The quote, or an error message when the request is invalid
+ */
+const quoteIntercityTrip = (
+  body: Request['body'],
+  vehicleTypes: VehicleType[],
+): { quote?: IntercityQuote; error?: string } => {
+  const { pickup_lat, pickup_lng, drop_lat, drop_lng, trip_type, departure_at, return_at, crosses_state_border } = body;
+
+  if (!isValidCoordinate(pickup_lat, pickup_lng) || !isValidCoordinate(drop_lat, drop_lng)) {
+    return { error: 'Valid pickup and drop coordinates are required' };
+  }
+
+  if (!INTERCITY_TRIP_TYPES.includes(trip_type)) {
+    return { error: 'Trip type must be one_way or round_trip' };
+  }
+
+  const departureAt = new Date(departure_at);
+  const timeError = validateReservationTime(departureAt);
+  if (timeError) {
+    return { error: timeError };
+  }
+
+  const oneWayDistanceKm = estimateTripDistanceKm(
+    Number(pickup_lat),
+    Number(pickup_lng),
+    Number(drop_lat),
+    Number(drop_lng),
+  );
+  // Days are counted from the slowest intercity vehicle so every vehicle type gets the same schedule
+  const averageSpeedKmph = Math.min(
+    ...INTERCITY_VEHICLE_TYPES.map((type) => INTERCITY_RATE_CARDS[type]!.averageSpeedKmph),
+  );
+  const oneWayDurationMin = Math.ceil((oneWayDistanceKm / averageSpeedKmph) * 60);
+
+  let returnAt: Date | null = null;
+  if (trip_type === 'round_trip') {
+    returnAt = new Date(return_at);
+    if (Number.isNaN(returnAt.getTime())) {
+      return { error: 'A valid return time is required for round trips' };
+    }
+    if (returnAt.getTime() < departureAt.getTime() + oneWayDurationMin * 60000) {
+      return { error: 'Return time must be after arriving at the destination' };
+    }
+  }
+
+  const tripDays = countIntercityTripDays(trip_type, departureAt, returnAt, oneWayDurationMin);
+  if (tripDays > INTERCITY_MAX_TRIP_DAYS) {
+    return { error: `Intercity trips can last at most ${INTERCITY_MAX_TRIP_DAYS} days` };
+  }
+
+  const crossesStateBorder = crosses_state_border === true || crosses_state_border === 'true';
+
+  return {
+    quote: {
+      tripType: trip_type,
+      departureAt,
+      returnAt,
+      tripDays,
+      crossesStateBorder,
+      durationMin: oneWayDurationMin * (trip_type === 'round_trip' ? 2 : 1),
+      fares: vehicleTypes.map((vehicleType) =>
+        calculateIntercityFare({
+          vehicleType,
+          tripType: trip_type,
+          oneWayDistanceKm,
+          tripDays,
+          crossesStateBorder,
+        }),
+      ),
+    },
+  };
+};
+
+/**
+ * Estimate intercity fares for every intercity vehicle type
+ * @route POST /api/v1/rides/intercity/estimate
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng - Trip coordinates
+ * @body trip_type - one_way or round_trip
+ * @body departure_at - Departure time (ISO 8601)
+ * @body return_at - Return time (round trips only)
+ * @body crosses_state_border - Whether the trip needs a state permit (optional)
+ * @access Private
+ */
+export const estimateIntercityFare = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { quote, error } = quoteIntercityTrip(req.body, INTERCITY_VEHICLE_TYPES);
+    if (!quote) {
+      sendResponse(res, 400, {}, error || 'Invalid intercity trip');
+      return;
+    }
+
+    sendResponse(
+      res,
+      200,
+      { trip_type: quote.tripType, trip_days: quote.tripDays, fares: quote.fares },
+      'Intercity fare estimated successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while estimating the intercity fare');
+  }
+};
+
+/**
+ * Book an intercity trip
+ * @route POST /api/v1/rides/intercity
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng - Trip coordinates
+ * @body pickup_address, drop_address - Formatted addresses (optional)
+ * @body vehicle_type - Intercity vehicle type
+ * @body trip_type - one_way or round_trip
+ * @body departure_at - Departure time (ISO 8601)
+ * @body return_at - Return time (round trips only)
+ * @body crosses_state_border - Whether the trip needs a state permit (optional)
+ * @access Private (passengers)
+ */
+export const bookIntercityRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const riderId = req.user.id;
+    const { pickup_lat, pickup_lng, pickup_address, drop_lat, drop_lng, drop_address, vehicle_type, trip_type } =
+      req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ vehicle_type, trip_type, departure_at: req.body.departure_at });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!INTERCITY_VEHICLE_TYPES.includes(vehicle_type)) {
+      sendResponse(res, 400, {}, 'This vehicle type is not available for intercity trips');
+      return;
+    }
+
+    const { quote, error } = quoteIntercityTrip(req.body, [vehicle_type]);
+    if (!quote) {
+      sendResponse(res, 400, {}, error || 'Invalid intercity trip');
+      return;
+    }
+    const [fare] = quote.fares;
+
+    const booking = await withTransaction(async (client) => {
+      const reservation = await client.query(
+        `INSERT INTO ride_reservations (rider_id, ride_option, vehicle_type, pickup_lat, pickup_lng, pickup_address, drop_lat, drop_lng, drop_address,
+                                        scheduled_at, estimated_distance_km, estimated_duration_min, estimated_fare)
+         VALUES ($1, 'intercity', $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING *`,
+        [
+          riderId,
+          vehicle_type,
+          pickup_lat,
+          pickup_lng,
+          pickup_address || null,
+          drop_lat,
+          drop_lng,
+          drop_address || null,
+          quote.departureAt,
+          fare.distance_km,
+          quote.durationMin,
+          fare.total,
+        ],
+      );
+
+      const intercity = await client.query(
+        `INSERT INTO intercity_bookings (reservation_id, trip_type, return_at, trip_days, crosses_state_border, fare_breakdown)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING trip_type, return_at, trip_days, crosses_state_border, fare_breakdown`,
+        [reservation.rows[0].id, quote.tripType, quote.returnAt, quote.tripDays, quote.crossesStateBorder, fare],
+      );
+
+      return { ...reservation.rows[0], ...intercity.rows[0] };
+    });
+
+    sendResponse(res, 201, booking, 'Intercity ride booked successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while booking the intercity ride');
+  }
+};
+
+/**
+ * Retrieves an intercity booking with its trip details
+ * @route GET /api/v1/rides/intercity/:id
+ * @access Private (booking owner and admins)
+ */
+export const getIntercityBooking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId, role } = req.user;
+
+    const booking = await pool.query(
+      `SELECT rr.*, ib.trip_type, ib.return_at, ib.trip_days, ib.crosses_state_border, ib.fare_breakdown
+       FROM ride_reservations rr
+       JOIN intercity_bookings ib ON ib.reservation_id = rr.id
+       WHERE rr.id = $1
+       LIMIT 1`,
+      [req.params.id],
+    );
+
+    if (booking.rowCount === 0 || (!hasPermission(role, 'rides:view_any') && booking.rows[0].rider_id !== userId)) {
+      sendResponse(res, 404, {}, 'Intercity booking not found');
+      return;
+    }
+
+    sendResponse(res, 200, booking.rows[0], 'Intercity booking fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the intercity booking');
+  }
+};
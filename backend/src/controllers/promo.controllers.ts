@@ -0,0 +1,293 @@
+/**
+ * Promo Controllers Module
+ * Handles admin management of promo codes and lets riders check a code
+ * against a fare estimate before requesting a ride.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { estimateFare, estimatePoolFare, roundTo2 } from '../utils/fare-calculator.utils';
+import { normalizePromoCode, previewPromoCode } from '../services/promo.service';
+import { POOL_MAX_SEATS_PER_RIDER, RIDE_OPTIONS, VEHICLE_TYPES } from '../constants';
+import { PromoDiscountType } from '../types/promo.type';
+
+const PROMO_DISCOUNT_TYPES: PromoDiscountType[] = ['flat', 'percent'];
+
+/** Letters and digits, 3 to 30 characters */
+const PROMO_CODE_PATTERN = /^[A-Z0-9]{3,30}$/;
+
+/**
+ * Checks that an optional value is a positive number
+ * @param value - Raw value from the request body
+ * @returns True if the value is missing or a positive number
+ */
+const isOptionalPositiveNumber = (value: unknown): boolean =>
+  value === undefined || value === null || (Number.isFinite(Number(value)) && Number(value) > 0);
+
+/**
+ * Create a promo code
+ * @route POST /api/v1/admin/promos
+ * @body code - Code riders enter (letters and digits)
+ * @body discount_type - flat or percent
+ * @body discount_value - Amount off, or percentage off for percent codes
+ * @body max_discount - Cap on the discount (optional)
+ * @body valid_from, valid_until - Validity window (optional)
+ * @body usage_limit - Uses across all riders (optional, unlimited by default)
+ * @body per_user_limit - Uses per rider (optional, defaults to 1)
+ * @body first_ride_only - Only valid on a rider's first ride (optional)
+ * @body ride_options, vehicle_types - Rides the code is restricted to (optional)
+ * @body description - Internal description (optional)
+ * @access Private (admins)
+ */
+export const createPromoCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      code,
+      description,
+      discount_type,
+      discount_value,
+      max_discount,
+      valid_from,
+      valid_until,
+      usage_limit,
+      per_user_limit,
+      first_ride_only,
+      ride_options,
+      vehicle_types,
+    } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ code, discount_type, discount_value });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    const normalizedCode = normalizePromoCode(String(code));
+    if (!PROMO_CODE_PATTERN.test(normalizedCode)) {
+      sendResponse(res, 400, {}, 'Code must be 3 to 30 letters or digits');
+      return;
+    }
+
+    if (!PROMO_DISCOUNT_TYPES.includes(discount_type)) {
+      sendResponse(res, 400, {}, 'Discount type must be flat or percent');
+      return;
+    }
+
+    if (!isOptionalPositiveNumber(discount_value) || (discount_type === 'percent' && Number(discount_value) > 100)) {
+      sendResponse(res, 400, {}, 'Discount value must be a positive amount, or a percentage up to 100');
+      return;
+    }
+
+    if (
+      !isOptionalPositiveNumber(max_discount) ||
+      !isOptionalPositiveNumber(usage_limit) ||
+      !isOptionalPositiveNumber(per_user_limit)
+    ) {
+      sendResponse(res, 400, {}, 'Caps and limits must be positive numbers');
+      return;
+    }
+
+    const validFrom = valid_from ? new Date(valid_from) : new Date();
+    const validUntil = valid_until ? new Date(valid_until) : null;
+    if (Number.isNaN(validFrom.getTime()) || (validUntil && !(validUntil > validFrom))) {
+      sendResponse(res, 400, {}, 'Invalid validity window');
+      return;
+    }
+
+    if (
+      (ride_options && (!Array.isArray(ride_options) || ride_options.some((o) => !RIDE_OPTIONS.includes(o)))) ||
+      (vehicle_types && (!Array.isArray(vehicle_types) || vehicle_types.some((t) => !VEHICLE_TYPES.includes(t))))
+    ) {
+      sendResponse(res, 400, {}, 'Invalid ride option or vehicle type restriction');
+      return;
+    }
+
+    const existing = await pool.query('SELECT 1 FROM promo_codes WHERE code = $1', [normalizedCode]);
+    if (existing.rowCount) {
+      sendResponse(res, 409, {}, 'A promo code with this code already exists');
+      return;
+    }
+
+    const promo = await pool.query(
+      `INSERT INTO promo_codes (code, description, discount_type, discount_value, max_discount, valid_from, valid_until,
+                                usage_limit, per_user_limit, first_ride_only, ride_options, vehicle_types, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING *`,
+      [
+        normalizedCode,
+        description || null,
+        discount_type,
+        discount_value,
+        max_discount ?? null,
+        validFrom,
+        validUntil,
+        usage_limit ?? null,
+        per_user_limit ?? 1,
+        first_ride_only === true,
+        ride_options?.length ? ride_options : null,
+        vehicle_types?.length ? vehicle_types : null,
+        req.user.id,
+      ],
+    );
+
+    sendResponse(res, 201, promo.rows[0], 'Promo code created successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while creating the promo code');
+  }
+};
+
+/**
+ * Lists promo codes, newest first
+ * @route GET /api/v1/admin/promos
+ * @query active - Only list active codes when true (optional)
+ * @access Private (admins)
+ */
+export const listPromoCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const activeOnly = req.query.active === 'true';
+
+    const promos = await pool.query(
+      `SELECT * FROM promo_codes
+       WHERE $1 = false OR (is_active = true AND (valid_until IS NULL OR valid_until > NOW()))
+       ORDER BY created_at DESC`,
+      [activeOnly],
+    );
+
+    sendResponse(res, 200, promos.rows, 'Promo codes fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting promo codes');
+  }
+};
+
+/**
+ * Updates the limits or status of a promo code
+ * The discount itself cannot change once riders may have reserved the code.
+ * @route PUT /api/v1/admin/promos/:id
+ * @body is_active, valid_until, usage_limit, per_user_limit, max_discount, description - Fields to change (optional)
+ * @access Private (admins)
+ */
+export const updatePromoCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { is_active, valid_until, usage_limit, per_user_limit, max_discount, description } = req.body;
+
+    if (is_active !== undefined && typeof is_active !== 'boolean') {
+      sendResponse(res, 400, {}, 'is_active must be true or false');
+      return;
+    }
+
+    if (
+      !isOptionalPositiveNumber(max_discount) ||
+      !isOptionalPositiveNumber(usage_limit) ||
+      !isOptionalPositiveNumber(per_user_limit)
+    ) {
+      sendResponse(res, 400, {}, 'Caps and limits must be positive numbers');
+      return;
+    }
+
+    const validUntil = valid_until ? new Date(valid_until) : null;
+    if (validUntil && Number.isNaN(validUntil.getTime())) {
+      sendResponse(res, 400, {}, 'Invalid validity window');
+      return;
+    }
+
+    const promo = await pool.query(
+      `UPDATE promo_codes
+       SET is_active = COALESCE($1, is_active), valid_until = COALESCE($2, valid_until), usage_limit = COALESCE($3, usage_limit),
+           per_user_limit = COALESCE($4, per_user_limit), max_discount = COALESCE($5, max_discount),
+           description = COALESCE($6, description), updated_at = NOW()
+       WHERE id = $7
+       RETURNING *`,
+      [
+        is_active ?? null,
+        validUntil,
+        usage_limit ?? null,
+        per_user_limit ?? null,
+        max_discount ?? null,
+        description ?? null,
+        req.params.id,
+      ],
+    );
+
+    if (promo.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Promo code not found');
+      return;
+    }
+
+    sendResponse(res, 200, promo.rows[0], 'Promo code updated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating the promo code');
+  }
+};
+
+/**
+ * Check a promo code against a fare estimate
+ * @route POST /api/v1/rides/promos/validate
+ * @body code - Promo code
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng - Trip coordinates
+ * @body ride_option, vehicle_type - Ride to estimate
+ * @body seats - Seats of a pooled ride (optional, defaults to 1)
+ * @access Private (passengers)
+ */
+export const validatePromoCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code, pickup_lat, pickup_lng, drop_lat, drop_lng, ride_option, vehicle_type, seats = 1 } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ code, ride_option, vehicle_type });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!isValidCoordinate(pickup_lat, pickup_lng) || !isValidCoordinate(drop_lat, drop_lng)) {
+      sendResponse(res, 400, {}, 'Valid pickup and drop coordinates are required');
+      return;
+    }
+
+    if (!RIDE_OPTIONS.includes(ride_option) || !VEHICLE_TYPES.includes(vehicle_type)) {
+      sendResponse(res, 400, {}, 'Invalid ride option or vehicle type');
+      return;
+    }
+
+    if (ride_option === 'pool' && (!Number.isInteger(seats) || seats < 1 || seats > POOL_MAX_SEATS_PER_RIDER)) {
+      sendResponse(res, 400, {}, `Seats must be a whole number from 1 to ${POOL_MAX_SEATS_PER_RIDER}`);
+      return;
+    }
+
+    const fare =
+      ride_option === 'pool'
+        ? estimatePoolFare(
+            vehicle_type,
+            seats,
+            Number(pickup_lat),
+            Number(pickup_lng),
+            Number(drop_lat),
+            Number(drop_lng),
+          )
+        : estimateFare(vehicle_type, Number(pickup_lat), Number(pickup_lng), Number(drop_lat), Number(drop_lng));
+    const { promo, discount } = await previewPromoCode(String(code), {
+      userId: req.user.id,
+      rideOption: ride_option,
+      vehicleType: vehicle_type,
+      fareTotal: fare.total,
+    });
+
+    sendResponse(
+      res,
+      200,
+      {
+        code: promo.code,
+        discount,
+        fare: { ...fare, promo_code: promo.code, discount, total: roundTo2(fare.total - discount) },
+      },
+      'Promo code applied successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while validating the promo code');
+  }
+};
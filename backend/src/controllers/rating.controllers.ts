@@ -0,0 +1,160 @@
+/**
+ * Rating Controllers Module
+ * Handles the two-way ratings riders and drivers give each other after a
+ * completed ride. Each participant rates once per ride within RATING_WINDOW_HOURS,
+ * and the rated user's rolling average is kept on their profile.
+ */
+
+import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { DRIVER_RATING_TAGS, RATING_ROLLING_WINDOW, RATING_WINDOW_HOURS, RIDER_RATING_TAGS } from '../constants';
+import { RaterRole } from '../types/rating.type';
+
+/** Longest comment accepted with a rating */
+const MAX_COMMENT_LENGTH = 500;
+
+/**
+ * Recomputes a user's rolling average from their most recent ratings
+ * The user is locked first, so a concurrent rating for the same user waits and its
+ * update then reads both ratings instead of overwriting this one's average.
+ * @param client - Client of the surrounding transaction
+ * @param userId - ID of the rated user
+ */
+const refreshRatingAverage = async (client: PoolClient, userId: string): Promise<void> => {
+  await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+  await client.query(
+    `UPDATE users
+     SET rating_average = (
+           SELECT ROUND(AVG(rating)::numeric, 2)
+           FROM (SELECT rating FROM ride_ratings WHERE ratee_id = $1 ORDER BY created_at DESC LIMIT $2) latest
+         ),
+         rating_count = (SELECT COUNT(*) FROM ride_ratings WHERE ratee_id = $1),
+         updated_at = NOW()
+     WHERE id = $1`,
+    [userId, RATING_ROLLING_WINDOW],
+  );
+};
+
+/**
+ * Rate the other participant of a completed ride
+ * Riders rate the driver and drivers rate the rider.
+ * @route POST /api/v1/rides/:id/rating
+ * @body rating - Whole number from 1 to 5
+ * @body tags - Tags describing the ride (optional)
+ * @body comment - Free-text comment (optional)
+ * @access Private (ride participants)
+ */
+export const rateRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user.id;
+    const { rating, comment } = req.body;
+    const tags: string[] = req.body.tags ?? [];
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      sendResponse(res, 400, {}, 'Rating must be a whole number from 1 to 5');
+      return;
+    }
+
+    if (!Array.isArray(tags)) {
+      sendResponse(res, 400, {}, 'Tags must be a list');
+      return;
+    }
+
+    if (
+      comment !== undefined &&
+      comment !== null &&
+      (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)
+    ) {
+      sendResponse(res, 400, {}, `Comment must be text of at most ${MAX_COMMENT_LENGTH} characters`);
+      return;
+    }
+
+    const savedRating = await withTransaction(async (client) => {
+      const { rows } = await client.query('SELECT * FROM rides WHERE id = $1 LIMIT 1', [req.params.id]);
+      const ride = rows[0];
+
+      if (!ride) {
+        throw new ApiError(404, 'Ride not found');
+      }
+
+      let raterRole: RaterRole;
+      if (ride.rider_id === userId) {
+        raterRole = 'rider';
+      } else if (ride.driver_id === userId) {
+        raterRole = 'driver';
+      } else {
+        throw new ApiError(403, 'You are not a participant of this ride');
+      }
+
+      if (ride.status !== 'completed') {
+        throw new ApiError(409, 'Only completed rides can be rated');
+      }
+
+      if (Date.now() - new Date(ride.completed_at).getTime() > RATING_WINDOW_HOURS * 3600000) {
+        throw new ApiError(409, `Rides can only be rated within ${RATING_WINDOW_HOURS} hours of completion`);
+      }
+
+      const allowedTags: string[] = raterRole === 'rider' ? DRIVER_RATING_TAGS : RIDER_RATING_TAGS;
+      const invalidTags = tags.filter((tag) => !allowedTags.includes(tag));
+      if (invalidTags.length > 0) {
+        throw new ApiError(400, `Invalid tags: ${invalidTags.join(', ')}`);
+      }
+
+      const rateeId = raterRole === 'rider' ? ride.driver_id : ride.rider_id;
+      const inserted = await client.query(
+        `INSERT INTO ride_ratings (ride_id, rater_id, ratee_id, rater_role, rating, tags, comment)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (ride_id, rater_id) DO NOTHING
+         RETURNING *`,
+        [ride.id, userId, rateeId, raterRole, rating, [...new Set(tags)], comment || null],
+      );
+      if (inserted.rowCount === 0) {
+        throw new ApiError(409, 'You have already rated this ride');
+      }
+
+      await refreshRatingAverage(client, rateeId);
+
+      return inserted.rows[0];
+    });
+
+    sendResponse(res, 201, savedRating, 'Ride rated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while rating the ride');
+  }
+};
+
+/**
+ * Lists the ratings given for a ride
+ * @route GET /api/v1/rides/:id/ratings
+ * @access Private (ride participants and admins)
+ */
+export const getRideRatings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId, role } = req.user;
+
+    const ride = await pool.query('SELECT rider_id, driver_id FROM rides WHERE id = $1 LIMIT 1', [req.params.id]);
+    if (ride.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Ride not found');
+      return;
+    }
+
+    const { rider_id, driver_id } = ride.rows[0];
+    if (!hasPermission(role, 'rides:view_any') && rider_id !== userId && driver_id !== userId) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    const ratings = await pool.query('SELECT * FROM ride_ratings WHERE ride_id = $1 ORDER BY created_at ASC', [
+      req.params.id,
+    ]);
+
+    sendResponse(res, 200, ratings.rows, 'Ride ratings fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting ride ratings');
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * Receipt Controllers Module
+ * Handles downloading trip receipts of completed rides, and of rides cancelled for a fee, as PDF.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { getRideReceipt, renderReceiptPdf } from '../services/receipt.service';
+
+/**
+ * Download the receipt of a completed ride, or of a ride cancelled for a fee, as PDF
+ * @route GET /api/v1/rides/:id/receipt
+ * @access Private (ride participants and admins)
+ */
+export const downloadRideReceipt = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId, role } = req.user;
+
+    const ride = await pool.query('SELECT rider_id, driver_id, status FROM rides WHERE id = $1 LIMIT 1', [
+      req.params.id,
+    ]);
+    if (ride.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Ride not found');
+      return;
+    }
+
+    const { rider_id, driver_id, status } = ride.rows[0];
+    if (!hasPermission(role, 'rides:view_any') && rider_id !== userId && driver_id !== userId) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    if (status !== 'completed' && status !== 'cancelled') {
+      sendResponse(res, 409, {}, 'Receipts are only available for completed or cancelled rides');
+      return;
+    }
+
+    const receipt = await getRideReceipt(req.params.id);
+    if (!receipt) {
+      sendResponse(res, status === 'cancelled' ? 409 : 404, {}, 'No receipt was issued for this ride');
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="ryde-receipt-${receipt.receipt_number}.pdf"`);
+    res.status(200).send(renderReceiptPdf(receipt));
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while downloading the receipt');
+  }
+};
@@ -0,0 +1,242 @@
+/**
+ * Reservation Controllers Module
+ * Handles reserve rides booked for a future pickup time. A reservation is
+ * turned into a regular ride and dispatched by the reservation job shortly
+ * before its pickup time.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { estimateFare } from '../utils/fare-calculator.utils';
+import { validateReservationTime } from '../services/reservation.service';
+import { VEHICLE_TYPES } from '../constants';
+
+/**
+ * Book a reserve ride for a future pickup time
+ * @route POST /api/v1/rides/reservations
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng - Trip coordinates
+ * @body pickup_address, drop_address - Formatted addresses (optional)
+ * @body vehicle_type - bike, auto or car
+ * @body scheduled_at - Pickup time (ISO 8601)
+ * @access Private (passengers)
+ */
+export const createReservation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const riderId = req.user.id;
+    const { pickup_lat, pickup_lng, pickup_address, drop_lat, drop_lng, drop_address, vehicle_type, scheduled_at } =
+      req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ vehicle_type, scheduled_at });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!isValidCoordinate(pickup_lat, pickup_lng) || !isValidCoordinate(drop_lat, drop_lng)) {
+      sendResponse(res, 400, {}, 'Valid pickup and drop coordinates are required');
+      return;
+    }
+
+    if (!VEHICLE_TYPES.includes(vehicle_type)) {
+      sendResponse(res, 400, {}, 'Invalid vehicle type');
+      return;
+    }
+
+    const scheduledAt = new Date(scheduled_at);
+    const timeError = validateReservationTime(scheduledAt);
+    if (timeError) {
+      sendResponse(res, 400, {}, timeError);
+      return;
+    }
+
+    const fare = estimateFare(vehicle_type, Number(pickup_lat), Number(pickup_lng), Number(drop_lat), Number(drop_lng));
+
+    const reservation = await pool.query(
+      `INSERT INTO ride_reservations (rider_id, vehicle_type, pickup_lat, pickup_lng, pickup_address, drop_lat, drop_lng, drop_address,
+                                      scheduled_at, estimated_distance_km, estimated_duration_min, estimated_fare)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        riderId,
+        vehicle_type,
+        pickup_lat,
+        pickup_lng,
+        pickup_address || null,
+        drop_lat,
+        drop_lng,
+        drop_address || null,
+        scheduledAt,
+        fare.distance_km,
+        fare.duration_min,
+        fare.total,
+      ],
+    );
+
+    sendResponse(res, 201, reservation.rows[0], 'Ride reserved successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while reserving the ride');
+  }
+};
+
+/**
+ * List the rider's upcoming reservations, soonest first
+ * @route GET /api/v1/rides/reservations
+ * @access Private (passengers)
+ */
+export const listUpcomingReservations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const riderId = req.user.id;
+
+    const reservations = await pool.query(
+      `SELECT * FROM ride_reservations
+       WHERE rider_id = $1 AND status IN ('scheduled', 'dispatching', 'confirmed') AND scheduled_at > NOW()
+       ORDER BY scheduled_at ASC`,
+      [riderId],
+    );
+
+    sendResponse(res, 200, reservations.rows, 'Reservations fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting reservations');
+  }
+};
+
+/**
+ * Change the pickup time or trip of a reservation that has not been dispatched yet
+ * @route PUT /api/v1/rides/reservations/:id
+ * @body scheduled_at - New pickup time (optional)
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng, pickup_address, drop_address - New trip (optional)
+ * @body vehicle_type - New vehicle type (optional)
+ * @access Private (reservation owner)
+ */
+export const updateReservation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const riderId = req.user.id;
+
+    const existing = await pool.query('SELECT * FROM ride_reservations WHERE id = $1 AND rider_id = $2 LIMIT 1', [
+      req.params.id,
+      riderId,
+    ]);
+    if (existing.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Reservation not found');
+      return;
+    }
+
+    const current = existing.rows[0];
+    if (current.status !== 'scheduled') {
+      sendResponse(res, 409, {}, 'This reservation can no longer be changed');
+      return;
+    }
+
+    if (current.ride_option === 'intercity') {
+      sendResponse(res, 409, {}, 'Intercity bookings cannot be changed; cancel and book again');
+      return;
+    }
+
+    const pickup_lat = req.body.pickup_lat ?? current.pickup_lat;
+    const pickup_lng = req.body.pickup_lng ?? current.pickup_lng;
+    const drop_lat = req.body.drop_lat ?? current.drop_lat;
+    const drop_lng = req.body.drop_lng ?? current.drop_lng;
+    const vehicle_type = req.body.vehicle_type ?? current.vehicle_type;
+    const scheduledAt = req.body.scheduled_at ? new Date(req.body.scheduled_at) : new Date(current.scheduled_at);
+
+    if (!isValidCoordinate(pickup_lat, pickup_lng) || !isValidCoordinate(drop_lat, drop_lng)) {
+      sendResponse(res, 400, {}, 'Valid pickup and drop coordinates are required');
+      return;
+    }
+
+    if (!VEHICLE_TYPES.includes(vehicle_type)) {
+      sendResponse(res, 400, {}, 'Invalid vehicle type');
+      return;
+    }
+
+    if (req.body.scheduled_at) {
+      const timeError = validateReservationTime(scheduledAt);
+      if (timeError) {
+        sendResponse(res, 400, {}, timeError);
+        return;
+      }
+    }
+
+    const fare = estimateFare(vehicle_type, Number(pickup_lat), Number(pickup_lng), Number(drop_lat), Number(drop_lng));
+    const timeChanged = scheduledAt.getTime() !== new Date(current.scheduled_at).getTime();
+
+    // Only update while still scheduled, in case the job started dispatch meanwhile
+    const reservation = await pool.query(
+      `UPDATE ride_reservations
+       SET vehicle_type = $1, pickup_lat = $2, pickup_lng = $3, pickup_address = $4, drop_lat = $5, drop_lng = $6, drop_address = $7,
+           scheduled_at = $8, estimated_distance_km = $9, estimated_duration_min = $10, estimated_fare = $11,
+           reminder_sent_at = CASE WHEN $12 THEN NULL ELSE reminder_sent_at END, updated_at = NOW()
+       WHERE id = $13 AND status = 'scheduled'
+       RETURNING *`,
+      [
+        vehicle_type,
+        pickup_lat,
+        pickup_lng,
+        req.body.pickup_address ?? current.pickup_address,
+        drop_lat,
+        drop_lng,
+        req.body.drop_address ?? current.drop_address,
+        scheduledAt,
+        fare.distance_km,
+        fare.duration_min,
+        fare.total,
+        timeChanged,
+        current.id,
+      ],
+    );
+    if (reservation.rowCount === 0) {
+      sendResponse(res, 409, {}, 'This reservation can no longer be changed');
+      return;
+    }
+
+    sendResponse(res, 200, reservation.rows[0], 'Reservation updated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating the reservation');
+  }
+};
+
+/**
+ * Cancel a reservation that has not been dispatched yet
+ * Once dispatch has started, the ride itself must be cancelled instead.
+ * @route DELETE /api/v1/rides/reservations/:id
+ * @access Private (reservation owner)
+ */
+export const cancelReservation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const riderId = req.user.id;
+
+    const reservation = await pool.query(
+      `UPDATE ride_reservations SET status = 'cancelled', updated_at = NOW()
+       WHERE id = $1 AND rider_id = $2 AND status = 'scheduled'
+       RETURNING *`,
+      [req.params.id, riderId],
+    );
+
+    if (reservation.rowCount === 0) {
+      const existing = await pool.query('SELECT ride_id FROM ride_reservations WHERE id = $1 AND rider_id = $2', [
+        req.params.id,
+        riderId,
+      ]);
+      if (existing.rowCount === 0) {
+        sendResponse(res, 404, {}, 'Reservation not found');
+      } else {
+        sendResponse(
+          res,
+          409,
+          existing.rows[0],
+          'This reservation has already been dispatched; cancel the ride instead',
+        );
+      }
+      return;
+    }
+
+    sendResponse(res, 200, reservation.rows[0], 'Reservation cancelled successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while cancelling the reservation');
+  }
+};
@@ -0,0 +1,251 @@
+/**
+ * Ride History Controllers Module
+ * Handles the trip history of riders and drivers: a cursor-paginated list with
+ * filters, and a detail view with the ride's full status timeline. Riders see
+ * the rides they requested, drivers the rides they were assigned, and admins
+ * can look at any user's history.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { isCalendarDate, isUuid } from '../utils/validation.utils';
+import { RIDE_OPTIONS, RIDE_STATUSES } from '../constants';
+
+/** Rides returned per page when no limit is given */
+const DEFAULT_PAGE_SIZE = 20;
+
+/** Most rides returned per page */
+const MAX_PAGE_SIZE = 50;
+
+/** Calendar date as YYYY-MM-DD, checked further with isCalendarDate */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Splits a comma-separated filter and checks every value against the allowed ones
+ * @param value - Raw query value
+ * @param allowed - Allowed values
+ * @returns The values, null when the filter is missing, or undefined when any value is invalid
+ */
+const parseListFilter = (value: unknown, allowed: string[]): string[] | null | undefined => {
+  if (value === undefined || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+
+  const values = value.split(',').map((item) => item.trim());
+  return values.every((item) => allowed.includes(item)) ? values : undefined;
+};
+
+/**
+ * Parses a date-range bound
+ * A date without a time covers that whole day (UTC), so `to` moves to the start of the next day.
+ * @param value - Raw query value, an ISO date or timestamp
+ * @param isEnd - True for the end of the range
+ * @returns The bound, null when missing, or undefined when invalid
+ */
+const parseDateBound = (value: unknown, isEnd: boolean): Date | null | undefined => {
+  if (value === undefined || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+  if (DATE_ONLY_PATTERN.test(value) && !isCalendarDate(value)) return undefined;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+
+  if (isEnd && DATE_ONLY_PATTERN.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+};
+
+/**
+ * Resolves whose history is being read
+ * @param req - Express request object
+ * @returns The user and the side of the ride they were on, or null for an admin reading all rides
+ * @throws {ApiError} 400 if an admin asks for a user ID that is not a UUID
+ */
+const resolveHistoryOwner = async (req: Request) => {
+  const { id: userId, role } = req.user;
+
+  if (!hasPermission(role, 'rides:view_any')) {
+    return { userId, side: role === 'driver' ? 'driver' : 'rider' };
+  }
+
+  const targetId = req.query.user_id as string | undefined;
+  if (!targetId) return null;
+  if (!isUuid(targetId)) {
+    throw new ApiError(400, 'Invalid user ID');
+  }
+
+  const target = await pool.query('SELECT role FROM users WHERE id = $1 LIMIT 1', [targetId]);
+  return { userId: targetId, side: target.rows[0]?.role === 'driver' ? 'driver' : 'rider' };
+};
+
+/**
+ * List trip history, newest first
+ * @route GET /api/v1/rides/history
+ * @query cursor - next_cursor from the previous page: the ID of its last ride (optional)
+ * @query limit - Rides per page, up to 50 (optional, defaults to 20)
+ * @query status - Comma-separated ride statuses (optional)
+ * @query ride_option - Comma-separated ride options (optional)
+ * @query from, to - Requested-at range, ISO dates or timestamps; dates are inclusive (optional)
+ * @query user_id - Whose history to list (admins only, optional; all rides when omitted)
+ * @access Private (riders, drivers and admins)
+ */
+export const listRideHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      sendResponse(res, 400, {}, `Limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+      return;
+    }
+
+    const cursor = (req.query.cursor as string) || null;
+    if (cursor && !isUuid(cursor)) {
+      sendResponse(res, 400, {}, 'Invalid cursor');
+      return;
+    }
+
+    const statuses = parseListFilter(req.query.status, RIDE_STATUSES);
+    const rideOptions = parseListFilter(req.query.ride_option, RIDE_OPTIONS);
+    if (statuses === undefined || rideOptions === undefined) {
+      sendResponse(res, 400, {}, 'Invalid status or ride option filter');
+      return;
+    }
+
+    const from = parseDateBound(req.query.from, false);
+    const to = parseDateBound(req.query.to, true);
+    if (from === undefined || to === undefined || (from && to && from >= to)) {
+      sendResponse(res, 400, {}, 'Invalid date range');
+      return;
+    }
+
+    const owner = await resolveHistoryOwner(req);
+
+    // The counterparty is the driver for riders and the rider for drivers (and for admins listing all rides)
+    const { rows } = await pool.query(
+      `SELECT r.id, r.status, r.ride_option, r.vehicle_type, r.pickup_address, r.drop_address,
+              r.requested_at, r.completed_at, r.cancelled_at, r.distance_km, r.duration_min, r.payment_method,
+              COALESCE(r.final_fare, r.estimated_fare) AS fare, r.final_fare IS NOT NULL AS is_final_fare,
+              cp.id AS counterparty_id, cp.firstname AS counterparty_firstname,
+              cp.lastname AS counterparty_lastname, cp.avatar AS counterparty_avatar,
+              given.rating AS rating_given, received.rating AS rating_received
+       FROM rides r
+       LEFT JOIN users cp ON cp.id = CASE WHEN $2 = 'rider' THEN r.driver_id ELSE r.rider_id END
+       LEFT JOIN ride_ratings given ON given.ride_id = r.id AND given.rater_id = $1
+       LEFT JOIN ride_ratings received ON received.ride_id = r.id AND received.ratee_id = $1
+       WHERE ($1::uuid IS NULL OR (CASE WHEN $2 = 'rider' THEN r.rider_id ELSE r.driver_id END) = $1)
+         AND ($3::varchar[] IS NULL OR r.status = ANY($3))
+         AND ($4::varchar[] IS NULL OR r.ride_option = ANY($4))
+         AND ($5::timestamptz IS NULL OR r.requested_at >= $5)
+         AND ($6::timestamptz IS NULL OR r.requested_at < $6)
+         AND ($7::uuid IS NULL OR (r.requested_at, r.id) < (SELECT requested_at, id FROM rides WHERE id = $7))
+       ORDER BY r.requested_at DESC, r.id DESC
+       LIMIT $8`,
+      [owner?.userId ?? null, owner?.side ?? 'driver', statuses, rideOptions, from, to, cursor, limit + 1],
+    );
+
+    const page = rows.slice(0, limit);
+    const items = page.map(
+      ({ counterparty_id, counterparty_firstname, counterparty_lastname, counterparty_avatar, ...ride }) => ({
+        ...ride,
+        counterparty: counterparty_id
+          ? {
+              id: counterparty_id,
+              name: `${counterparty_firstname} ${counterparty_lastname}`,
+              avatar: counterparty_avatar,
+            }
+          : null,
+      }),
+    );
+    const nextCursor = rows.length > limit ? page[page.length - 1].id : null;
+
+    sendResponse(res, 200, { items, next_cursor: nextCursor }, 'Ride history fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting ride history');
+  }
+};
+
+/**
+ * Get a ride from the history with both participants, ratings and its full status timeline
+ * @route GET /api/v1/rides/history/:id
+ * @access Private (ride participants and admins)
+ */
+export const getRideHistoryDetail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId, role } = req.user;
+
+    if (!isUuid(req.params.id)) {
+      sendResponse(res, 400, {}, 'Invalid ride ID');
+      return;
+    }
+
+    const ride = await pool.query(
+      `SELECT r.*,
+              rider.firstname AS rider_firstname, rider.lastname AS rider_lastname, rider.avatar AS rider_avatar,
+              driver.firstname AS driver_firstname, driver.lastname AS driver_lastname, driver.avatar AS driver_avatar
+       FROM rides r
+       JOIN users rider ON rider.id = r.rider_id
+       LEFT JOIN users driver ON driver.id = r.driver_id
+       WHERE r.id = $1
+       LIMIT 1`,
+      [req.params.id],
+    );
+
+    if (ride.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Ride not found');
+      return;
+    }
+
+    const {
+      rider_firstname,
+      rider_lastname,
+      rider_avatar,
+      driver_firstname,
+      driver_lastname,
+      driver_avatar,
+      ...details
+    } = ride.rows[0];
+    if (!hasPermission(role, 'rides:view_any') && details.rider_id !== userId && details.driver_id !== userId) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    const timeline = await pool.query(
+      `SELECT t.from_status, t.to_status, t.created_at,
+              CASE
+                WHEN t.actor_id IS NULL THEN 'system'
+                WHEN t.actor_id = $2 THEN 'rider'
+                WHEN t.actor_id = $3 THEN 'driver'
+                ELSE u.role
+              END AS actor
+       FROM ride_status_transitions t
+       LEFT JOIN users u ON u.id = t.actor_id
+       WHERE t.ride_id = $1
+       ORDER BY t.created_at ASC, t.id ASC`,
+      [details.id, details.rider_id, details.driver_id],
+    );
+
+    const ratings = await pool.query(
+      'SELECT rater_role, rating, tags, comment, created_at FROM ride_ratings WHERE ride_id = $1 ORDER BY created_at ASC',
+      [details.id],
+    );
+
+    sendResponse(
+      res,
+      200,
+      {
+        ...details,
+        rider: { id: details.rider_id, name: `${rider_firstname} ${rider_lastname}`, avatar: rider_avatar },
+        driver: details.driver_id
+          ? { id: details.driver_id, name: `${driver_firstname} ${driver_lastname}`, avatar: driver_avatar }
+          : null,
+        ratings: ratings.rows,
+        timeline: timeline.rows,
+      },
+      'Ride fetched successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the ride');
+  }
+};
@@ -0,0 +1,646 @@
+/**
+ * Ride Controllers Module
+ * Handles the ride request lifecycle: requesting a ride, dispatch offers,
+ * driver acceptance, arrival, trip start, completion and cancellation.
+ * Every status change goes through the ride state machine. Pooled rides also
+ * move their rider through the driver's pool route.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { lockRiderAndCheckActiveRide, transitionRideStatus } from '../utils/ride-state-machine.utils';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { hasPermission } from '../utils/permission.utils';
+import {
+  calculateFare,
+  calculateIntercityFare,
+  calculatePoolFare,
+  countIntercityTripDays,
+  estimateFare,
+  estimateFaresForAllVehicles,
+  estimatePoolFare,
+  estimateTripDistanceKm,
+} from '../utils/fare-calculator.utils';
+import { rideDispatcher } from '../services/ride-dispatcher.service';
+import { publishRideUpdate } from '../services/realtime-gateway.service';
+import { applyPromoToFare, releasePromoRedemption, reservePromoRedemption } from '../services/promo.service';
+import { getWalletAccount } from '../services/ledger.service';
+import { recordRideEarnings } from '../services/earnings.service';
+import { sendRideReceipt } from '../services/receipt.service';
+import { resolveSavedPlaces } from '../services/saved-place.service';
+import { completePoolStop, getPoolLeg, joinPool, leavePool, publishPoolUpdate } from '../services/pool.service';
+import { quoteCancellationFee, recordRideCancellation } from '../services/cancellation.service';
+import {
+  DRIVER_CANCELLATION_REASONS,
+  POOL_MAX_SEATS_PER_RIDER,
+  POOL_VEHICLE_TYPES,
+  RIDE_OPTIONS,
+  RIDE_PAYMENT_METHODS,
+  RIDER_CANCELLATION_REASONS,
+  TERMINAL_RIDE_STATUSES,
+  VEHICLE_TYPES,
+} from '../constants';
+import { FareBreakdown, IntercityFareBreakdown } from '../types/fare.type';
+import { RideType } from '../types/ride.type';
+import { CancellerRole } from '../types/cancellation.type';
+
+/**
+ * Ensures the authenticated driver is the one assigned to the ride
+ * @param driverId - Authenticated driver's ID
+ * @returns Guard that throws when the ride belongs to another driver
+ */
+const assignedDriverOnly = (driverId: string) => (ride: RideType) => {
+  if (ride.driver_id !== driverId) {
+    throw new ApiError(403, 'Only the assigned driver can update this ride');
+  }
+};
+
+/**
+ * Pushes the new pool route after a pooled ride changed
+ * @param ride - Ride after the change
+ */
+const notifyPool = (ride: RideType): void => {
+  if (!ride.pool_id) return;
+  publishPoolUpdate(ride.pool_id).catch((err) => console.error(`Error publishing pool ${ride.pool_id}:`, err));
+};
+
+/**
+ * Parses an optional amount reported by a driver
+ * @param value - Raw value from the request body
+ * @returns The amount, or undefined when missing or invalid
+ */
+const toNonNegativeAmount = (value: unknown): number | undefined => {
+  const amount = Number(value);
+  return value === undefined || value === null || value === '' || !Number.isFinite(amount) || amount < 0
+    ? undefined
+    : amount;
+};
+
+/**
+ * Estimate fares for every vehicle type between two points
+ * Pooled fares are listed for one seat on every vehicle type that can be pooled.
+ * @route POST /api/v1/rides/estimate
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng - Trip coordinates
+ * @body pickup_place_id, drop_place_id - Saved places to use instead of coordinates (optional)
+ * @access Private
+ */
+export const estimateRideFare = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { pickup_lat, pickup_lng, drop_lat, drop_lng } = await resolveSavedPlaces(req.user.id, req.body);
+
+    if (!isValidCoordinate(pickup_lat, pickup_lng) || !isValidCoordinate(drop_lat, drop_lng)) {
+      sendResponse(res, 400, {}, 'Valid pickup and drop coordinates are required');
+      return;
+    }
+
+    const fares = estimateFaresForAllVehicles(
+      Number(pickup_lat),
+      Number(pickup_lng),
+      Number(drop_lat),
+      Number(drop_lng),
+    );
+
+    const poolFares = POOL_VEHICLE_TYPES.map((vehicleType) =>
+      estimatePoolFare(vehicleType, 1, Number(pickup_lat), Number(pickup_lng), Number(drop_lat), Number(drop_lng)),
+    );
+
+    sendResponse(res, 200, { fares, pool_fares: poolFares }, 'Fare estimated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while estimating the fare');
+  }
+};
+
+/**
+ * Request a new ride
+ * @route POST /api/v1/rides
+ * @body pickup_lat, pickup_lng, drop_lat, drop_lng - Trip coordinates
+ * @body pickup_address, drop_address - Formatted addresses (optional)
+ * @body pickup_place_id, drop_place_id - Saved places to use instead of coordinates and addresses (optional)
+ * @body ride_option - trip, auto or pool (reserve and intercity rides are booked in advance)
+ * @body vehicle_type - bike, auto or car (auto or car for pooled rides)
+ * @body seats - Seats to book on a pooled ride, up to POOL_MAX_SEATS_PER_RIDER (optional, defaults to 1)
+ * @body promo_code - Promo code to apply to the final fare (optional)
+ * @body payment_method - cash or wallet (defaults to cash)
+ * @access Private (passengers)
+ */
+export const requestRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const riderId = req.user.id;
+    const {
+      pickup_lat,
+      pickup_lng,
+      pickup_address,
+      drop_lat,
+      drop_lng,
+      drop_address,
+      ride_option,
+      vehicle_type,
+      promo_code,
+      payment_method = 'cash',
+      seats = 1,
+    } = await resolveSavedPlaces(riderId, req.body);
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ ride_option, vehicle_type });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!isValidCoordinate(pickup_lat, pickup_lng) || !isValidCoordinate(drop_lat, drop_lng)) {
+      sendResponse(res, 400, {}, 'Valid pickup and drop coordinates are required');
+      return;
+    }
+
+    if (!RIDE_OPTIONS.includes(ride_option) || !VEHICLE_TYPES.includes(vehicle_type)) {
+      sendResponse(res, 400, {}, 'Invalid ride option or vehicle type');
+      return;
+    }
+
+    if (ride_option === 'reserve') {
+      sendResponse(res, 400, {}, 'Reserve rides must be booked through /rides/reservations');
+      return;
+    }
+
+    if (ride_option === 'intercity') {
+      sendResponse(res, 400, {}, 'Intercity rides must be booked through /rides/intercity');
+      return;
+    }
+
+    if (ride_option === 'pool' && !POOL_VEHICLE_TYPES.includes(vehicle_type)) {
+      sendResponse(res, 400, {}, `Pooled rides are available for ${POOL_VEHICLE_TYPES.join(' and ')} only`);
+      return;
+    }
+
+    const maxSeats = ride_option === 'pool' ? POOL_MAX_SEATS_PER_RIDER : 1;
+    if (!Number.isInteger(seats) || seats < 1 || seats > maxSeats) {
+      sendResponse(res, 400, {}, `Seats must be a whole number from 1 to ${maxSeats}`);
+      return;
+    }
+
+    if (!RIDE_PAYMENT_METHODS.includes(payment_method)) {
+      sendResponse(res, 400, {}, 'Payment method must be cash or wallet');
+      return;
+    }
+
+    const fare =
+      ride_option === 'pool'
+        ? estimatePoolFare(
+            vehicle_type,
+            seats,
+            Number(pickup_lat),
+            Number(pickup_lng),
+            Number(drop_lat),
+            Number(drop_lng),
+          )
+        : estimateFare(vehicle_type, Number(pickup_lat), Number(pickup_lng), Number(drop_lat), Number(drop_lng));
+
+    const ride = await withTransaction(async (client) => {
+      // A rider can only have one active ride at a time
+      if (await lockRiderAndCheckActiveRide(client, riderId)) {
+        throw new ApiError(409, 'You already have an active ride');
+      }
+
+      const newRide = await client.query(
+        `INSERT INTO rides (rider_id, ride_option, vehicle_type, pickup_lat, pickup_lng, pickup_address, drop_lat, drop_lng, drop_address,
+                            estimated_distance_km, estimated_duration_min, estimated_fare, payment_method, seats)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         RETURNING *`,
+        [
+          riderId,
+          ride_option,
+          vehicle_type,
+          pickup_lat,
+          pickup_lng,
+          pickup_address || null,
+          drop_lat,
+          drop_lng,
+          drop_address || null,
+          fare.distance_km,
+          fare.duration_min,
+          fare.total,
+          payment_method,
+          seats,
+        ],
+      );
+
+      await client.query(
+        'INSERT INTO ride_status_transitions (ride_id, from_status, to_status, actor_id) VALUES ($1, NULL, $2, $3)',
+        [newRide.rows[0].id, 'requested', riderId],
+      );
+
+      // Reserve the promo code in the same transaction so its limits hold under concurrent requests
+      const promo = promo_code
+        ? await reservePromoRedemption(client, String(promo_code), newRide.rows[0].id, {
+            userId: riderId,
+            rideOption: ride_option,
+            vehicleType: vehicle_type,
+            fareTotal: fare.total,
+          })
+        : null;
+
+      // Cancellation fees are taken even into a negative balance; cash rides collect it with the fare
+      const wallet = await getWalletAccount(client, riderId);
+      if (payment_method === 'wallet' && Number(wallet.balance) < 0) {
+        throw new ApiError(402, 'Top up your wallet to settle an unpaid cancellation fee first, or pay in cash');
+      }
+      if (payment_method === 'wallet' && Number(wallet.balance) < fare.total - (promo?.discount ?? 0)) {
+        throw new ApiError(402, 'Insufficient wallet balance for this ride');
+      }
+
+      return { ...newRide.rows[0], promo };
+    });
+
+    // Look for a driver in the background
+    rideDispatcher.dispatch(ride).catch((err) => console.error('Error dispatching ride:', err));
+
+    sendResponse(res, 201, ride, 'Ride requested successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while requesting the ride');
+  }
+};
+
+/**
+ * Retrieves a ride by its ID
+ * Pooled rides include the rider's own pickup and drop with their planned arrival times.
+ * @route GET /api/v1/rides/:id
+ * @access Private (ride participants and admins)
+ */
+export const getRideById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { id: userId, role } = req.user;
+
+    const ride = await pool.query('SELECT * FROM rides WHERE id = $1 LIMIT 1', [id]);
+
+    if (ride.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Ride not found');
+      return;
+    }
+
+    const { rider_id, driver_id } = ride.rows[0];
+    if (!hasPermission(role, 'rides:view_any') && rider_id !== userId && driver_id !== userId) {
+      sendResponse(res, 403, {}, 'You are not a participant of this ride');
+      return;
+    }
+
+    const details = ride.rows[0];
+    if (details.pool_id) {
+      details.pool_leg = await getPoolLeg(details.id);
+    }
+
+    sendResponse(res, 200, details, 'Ride fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the ride');
+  }
+};
+
+/**
+ * Driver accepts a ride offered to them by the dispatcher
+ * The offer can only leave pending once and the ride row is locked first,
+ * so two drivers can never both be assigned the same ride. A pooled ride joins
+ * the driver's pool, which fails if the rider no longer fits its limits.
+ * @route POST /api/v1/rides/:id/accept
+ * @access Private (drivers)
+ */
+export const acceptRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.user.id;
+    const rideId = req.params.id;
+
+    const ride = await withTransaction(async (client) => {
+      const { rows } = await client.query('SELECT * FROM rides WHERE id = $1 FOR UPDATE', [rideId]);
+
+      const offer = await client.query(
+        `UPDATE ride_offers SET status = 'accepted', responded_at = NOW()
+         WHERE ride_id = $1 AND driver_id = $2 AND status = 'pending' AND expires_at > NOW()
+         RETURNING id`,
+        [rideId, driverId],
+      );
+      if (offer.rowCount === 0) {
+        throw new ApiError(409, 'This ride is no longer offered to you');
+      }
+
+      const poolId = rows[0].ride_option === 'pool' ? await joinPool(client, rows[0], driverId) : null;
+
+      const assignedRide = await transitionRideStatus(client, rideId, 'driver_assigned', {
+        actorId: driverId,
+        updates: poolId ? { driver_id: driverId, pool_id: poolId } : { driver_id: driverId },
+      });
+
+      // Confirm the booking if this is a reserve ride
+      await client.query(
+        "UPDATE ride_reservations SET status = 'confirmed', updated_at = NOW() WHERE ride_id = $1 AND status = 'dispatching'",
+        [rideId],
+      );
+
+      return assignedRide;
+    });
+
+    rideDispatcher.handleAccepted(ride.id);
+
+    publishRideUpdate(ride);
+    notifyPool(ride);
+    sendResponse(res, 200, ride, 'Ride accepted successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while accepting the ride');
+  }
+};
+
+/**
+ * Driver declines a ride offered to them; the dispatcher moves to the next driver
+ * @route POST /api/v1/rides/:id/decline
+ * @access Private (drivers)
+ */
+export const declineRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.user.id;
+    const rideId = req.params.id;
+
+    const offer = await pool.query(
+      `UPDATE ride_offers SET status = 'declined', responded_at = NOW()
+       WHERE ride_id = $1 AND driver_id = $2 AND status = 'pending'
+       RETURNING *`,
+      [rideId, driverId],
+    );
+    if (offer.rowCount === 0) {
+      sendResponse(res, 409, {}, 'This ride is no longer offered to you');
+      return;
+    }
+
+    rideDispatcher
+      .handleDeclined(rideId, driverId)
+      .catch((err) => console.error('Error re-offering declined ride:', err));
+
+    sendResponse(res, 200, offer.rows[0], 'Ride declined successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while declining the ride');
+  }
+};
+
+/**
+ * Assigned driver marks arrival at the pickup location
+ * @route POST /api/v1/rides/:id/arrive
+ * @access Private (assigned driver)
+ */
+export const markDriverArrived = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.user.id;
+
+    const ride = await withTransaction((client) =>
+      transitionRideStatus(client, req.params.id, 'driver_arrived', {
+        actorId: driverId,
+        authorize: assignedDriverOnly(driverId),
+      }),
+    );
+
+    publishRideUpdate(ride);
+    sendResponse(res, 200, ride, 'Driver arrived at pickup');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating the ride');
+  }
+};
+
+/**
+ * Assigned driver starts the trip
+ * Pooled rides are started and completed in the order of the pool route.
+ * @route POST /api/v1/rides/:id/start
+ * @access Private (assigned driver)
+ */
+export const startRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.user.id;
+
+    const ride = await withTransaction(async (client) => {
+      const startedRide = await transitionRideStatus(client, req.params.id, 'in_progress', {
+        actorId: driverId,
+        authorize: assignedDriverOnly(driverId),
+      });
+
+      await completePoolStop(client, startedRide, 'pickup');
+
+      return startedRide;
+    });
+
+    publishRideUpdate(ride);
+    notifyPool(ride);
+    sendResponse(res, 200, ride, 'Ride started successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while starting the ride');
+  }
+};
+
+/**
+ * Assigned driver completes the trip
+ * The final fare is computed with the same calculator as the estimate,
+ * using the actual trip time between start and completion. Intercity trips
+ * are billed for the days actually used plus the tolls and permits paid,
+ * each capped by the intercity rate card.
+ * Pooled rides are billed for the rider's own trip as estimated, since the
+ * time spent on other riders' stops is not theirs to pay. When a wallet cannot
+ * cover the final fare, the rest is due in cash (cash_due); on cash rides cash_due
+ * also includes any unpaid cancellation fee.
+ * @route POST /api/v1/rides/:id/complete
+ * @body toll_charges, state_permit_charges - Amounts paid during an intercity trip, capped by the rate card (optional)
+ * @access Private (assigned driver)
+ */
+export const completeRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const driverId = req.user.id;
+    const { toll_charges, state_permit_charges } = req.body;
+
+    const ride = await withTransaction(async (client) => {
+      const completedRide = await transitionRideStatus(client, req.params.id, 'completed', {
+        actorId: driverId,
+        authorize: assignedDriverOnly(driverId),
+      });
+
+      const durationMin = Math.max(
+        1,
+        Math.ceil(
+          (new Date(completedRide.completed_at!).getTime() - new Date(completedRide.started_at!).getTime()) / 60000,
+        ),
+      );
+
+      let fare: FareBreakdown | IntercityFareBreakdown;
+      if (completedRide.ride_option === 'intercity') {
+        const booking = await client.query(
+          `SELECT ib.* FROM intercity_bookings ib
+           JOIN ride_reservations rr ON rr.id = ib.reservation_id
+           WHERE rr.ride_id = $1
+           LIMIT 1`,
+          [completedRide.id],
+        );
+        const { trip_type, trip_days, crosses_state_border } = booking.rows[0];
+
+        fare = calculateIntercityFare({
+          vehicleType: completedRide.vehicle_type,
+          tripType: trip_type,
+          oneWayDistanceKm: estimateTripDistanceKm(
+            Number(completedRide.pickup_lat),
+            Number(completedRide.pickup_lng),
+            Number(completedRide.drop_lat),
+            Number(completedRide.drop_lng),
+          ),
+          tripDays: Math.max(
+            trip_days,
+            countIntercityTripDays('one_way', new Date(completedRide.started_at!), null, durationMin),
+          ),
+          crossesStateBorder: crosses_state_border,
+          tollCharges: toNonNegativeAmount(toll_charges),
+          statePermitCharges: toNonNegativeAmount(state_permit_charges),
+        });
+      } else if (completedRide.ride_option === 'pool') {
+        fare = calculatePoolFare(
+          completedRide.vehicle_type,
+          Number(completedRide.estimated_distance_km),
+          completedRide.estimated_duration_min,
+          completedRide.seats,
+        );
+      } else {
+        fare = calculateFare(completedRide.vehicle_type, Number(completedRide.estimated_distance_km), durationMin);
+      }
+      fare = await applyPromoToFare(client, completedRide.id, fare);
+
+      const earnings = await recordRideEarnings(client, completedRide, fare);
+      await completePoolStop(client, completedRide, 'drop');
+
+      const updated = await client.query(
+        `UPDATE rides
+         SET distance_km = $1, duration_min = $2, final_fare = $3, fare_breakdown = $4, cash_due = $5
+         WHERE id = $6
+         RETURNING *`,
+        [fare.distance_km, durationMin, fare.total, fare, earnings.cash_collected, completedRide.id],
+      );
+
+      return updated.rows[0];
+    });
+
+    publishRideUpdate(ride);
+    notifyPool(ride);
+    sendRideReceipt(ride.id).catch((err) => console.error(`Error sending receipt for ride ${ride.id}:`, err));
+
+    // Both participants see cash_due in the ride update; the driver is told to collect it
+    const walletShortfall = ride.payment_method === 'wallet' && Number(ride.cash_due) > 0;
+    const unpaidBalance = ride.payment_method === 'cash' && Number(ride.cash_due) > Number(ride.final_fare);
+    sendResponse(
+      res,
+      200,
+      ride,
+      walletShortfall
+        ? `Ride completed successfully. The rider's wallet did not cover the fare; collect ${ride.cash_due} in cash`
+        : unpaidBalance
+          ? `Ride completed successfully. Collect ${ride.cash_due} in cash, including an unpaid cancellation fee`
+          : 'Ride completed successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while completing the ride');
+  }
+};
+
+/**
+ * Quotes the fee the rider would pay to cancel the ride now
+ * @route GET /api/v1/rides/:id/cancellation-fee
+ * @access Private (the ride's rider)
+ */
+export const getCancellationFee = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ride = await pool.query('SELECT * FROM rides WHERE id = $1 LIMIT 1', [req.params.id]);
+
+    if (ride.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Ride not found');
+      return;
+    }
+
+    if (ride.rows[0].rider_id !== req.user.id) {
+      sendResponse(res, 403, {}, 'Only the rider can cancel this ride for a fee');
+      return;
+    }
+
+    if (TERMINAL_RIDE_STATUSES.includes(ride.rows[0].status) || ride.rows[0].status === 'in_progress') {
+      sendResponse(res, 409, {}, 'This ride can no longer be cancelled');
+      return;
+    }
+
+    const quote = await quoteCancellationFee(pool, ride.rows[0]);
+
+    sendResponse(res, 200, quote, 'Cancellation fee fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the cancellation fee');
+  }
+};
+
+/**
+ * Rider or assigned driver cancels the ride
+ * Riders pay the ride option's cancellation fee once the grace period after assignment
+ * is over; drivers who cancel repeatedly are flagged for review.
+ * @route POST /api/v1/rides/:id/cancel
+ * @body reason - One of RIDER_CANCELLATION_REASONS or DRIVER_CANCELLATION_REASONS, depending on who cancels (optional, defaults to other)
+ * @body note - Free-text details, up to 255 characters (optional)
+ * @access Private (ride participants)
+ */
+export const cancelRide = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user.id;
+    const { note } = req.body;
+    const reason = req.body.reason ?? 'other';
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 255)) {
+      sendResponse(res, 400, {}, 'Note must be text of at most 255 characters');
+      return;
+    }
+
+    const { ride, cancellation } = await withTransaction(async (client) => {
+      let role: CancellerRole = 'rider';
+      const cancelledRide = await transitionRideStatus(client, req.params.id, 'cancelled', {
+        actorId: userId,
+        authorize: (ride) => {
+          if (ride.rider_id !== userId && ride.driver_id !== userId) {
+            throw new ApiError(403, 'You are not a participant of this ride');
+          }
+
+          role = ride.rider_id === userId ? 'rider' : 'driver';
+          const reasons = role === 'rider' ? RIDER_CANCELLATION_REASONS : DRIVER_CANCELLATION_REASONS;
+          if (!reasons.includes(reason)) {
+            throw new ApiError(400, `Reason must be one of: ${reasons.join(', ')}`);
+          }
+        },
+        updates: { cancelled_by: userId, cancellation_reason: reason },
+      });
+
+      // Withdraw any offer still waiting for a driver's answer
+      await client.query(
+        "UPDATE ride_offers SET status = 'expired', responded_at = NOW() WHERE ride_id = $1 AND status = 'pending'",
+        [cancelledRide.id],
+      );
+
+      await releasePromoRedemption(client, cancelledRide.id);
+      await leavePool(client, cancelledRide);
+
+      await client.query(
+        `UPDATE ride_reservations SET status = 'cancelled', updated_at = NOW()
+         WHERE ride_id = $1 AND status IN ('dispatching', 'confirmed')`,
+        [cancelledRide.id],
+      );
+
+      const rideCancellation = await recordRideCancellation(client, cancelledRide, role, reason, note || null);
+
+      return { ride: cancelledRide, cancellation: rideCancellation };
+    });
+
+    rideDispatcher.cancel(ride.id);
+
+    publishRideUpdate(ride);
+    notifyPool(ride);
+    if (Number(cancellation.fee) > 0) {
+      sendRideReceipt(ride.id).catch((err) => console.error(`Error sending receipt for ride ${ride.id}:`, err));
+    }
+    sendResponse(res, 200, { ...ride, cancellation }, 'Ride cancelled successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while cancelling the ride');
+  }
+};
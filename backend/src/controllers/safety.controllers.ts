@@ -0,0 +1,217 @@
+/**
+ * Safety Controllers Module
+ * Handles in-trip safety: SOS alerts raised by riders during an active ride,
+ * public links to follow a trip live, and the admin queue of SOS alerts.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { createTripShareLink, getSharedTrip, notifySosAlert, raiseSosAlert } from '../services/safety.service';
+import { ACTIVE_TRIP_STATUSES } from '../constants';
+import { RideType } from '../types/ride.type';
+import { SosAlertStatus } from '../types/safety.type';
+
+const SOS_ALERT_STATUSES: SosAlertStatus[] = ['open', 'resolved'];
+
+/** Longest SOS message and resolution note */
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * Loads a ride the authenticated rider is taking right now
+ * @param rideId - Ride ID
+ * @param riderId - Authenticated rider's ID
+ * @returns Promise resolving to the ride
+ * @throws {ApiError} 404 if the ride does not exist, 403 if it is someone else's, 409 if it is not active
+ */
+const getActiveRideOfRider = async (rideId: string, riderId: string): Promise<RideType> => {
+  const { rows } = await pool.query('SELECT * FROM rides WHERE id = $1 LIMIT 1', [rideId]);
+  const ride: RideType | undefined = rows[0];
+
+  if (!ride) {
+    throw new ApiError(404, 'Ride not found');
+  }
+  if (ride.rider_id !== riderId) {
+    throw new ApiError(403, 'Only the rider of this ride can do this');
+  }
+  if (!ACTIVE_TRIP_STATUSES.includes(ride.status)) {
+    throw new ApiError(409, 'This is only available while a driver is assigned or the trip is in progress');
+  }
+
+  return ride;
+};
+
+/**
+ * Raise an SOS during an active ride
+ * Records where the rider is and emails every admin and the rider's emergency contacts.
+ * While the ride already has an open alert, that alert is returned and nobody is emailed again.
+ * @route POST /api/v1/rides/:id/sos
+ * @body lat, lng - Rider's current position (optional; the driver's latest position is used otherwise)
+ * @body message - What is happening, up to 500 characters (optional)
+ * @access Private (the ride's rider)
+ */
+export const triggerSos = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { lat, lng, message } = req.body;
+
+    const hasPosition = lat !== undefined || lng !== undefined;
+    if (hasPosition && !isValidCoordinate(lat, lng)) {
+      sendResponse(res, 400, {}, 'Valid coordinates are required');
+      return;
+    }
+
+    if (
+      message !== undefined &&
+      message !== null &&
+      (typeof message !== 'string' || message.length > MAX_MESSAGE_LENGTH)
+    ) {
+      sendResponse(res, 400, {}, `Message must be text of at most ${MAX_MESSAGE_LENGTH} characters`);
+      return;
+    }
+
+    const ride = await getActiveRideOfRider(req.params.id, req.user.id);
+    const { alert, raised } = await raiseSosAlert(
+      ride,
+      hasPosition ? { lat: Number(lat), lng: Number(lng) } : null,
+      message?.trim() || null,
+    );
+
+    if (!raised) {
+      sendResponse(res, 200, alert, 'An SOS alert is already open for this ride; help has been notified');
+      return;
+    }
+
+    notifySosAlert(alert).catch((err) => console.error(`Error sending SOS alert ${alert.id}:`, err));
+
+    sendResponse(res, 201, alert, 'SOS alert raised; help is being notified');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while raising the SOS alert');
+  }
+};
+
+/**
+ * Create a public link to follow an active ride live
+ * The link expires after TRIP_SHARE_LINK_TTL_MINUTES or when the ride ends, whichever comes first.
+ * @route POST /api/v1/rides/:id/share
+ * @access Private (the ride's rider)
+ */
+export const shareTrip = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ride = await getActiveRideOfRider(req.params.id, req.user.id);
+    const link = await createTripShareLink(pool, ride.id, ride.rider_id);
+
+    sendResponse(res, 201, link, 'Trip sharing link created successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while sharing the trip');
+  }
+};
+
+/**
+ * Revoke every sharing link of a ride
+ * @route DELETE /api/v1/rides/:id/share
+ * @access Private (the ride's rider)
+ */
+export const revokeTripShares = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await pool.query(
+      `UPDATE trip_share_links l
+       SET revoked_at = NOW()
+       FROM rides r
+       WHERE r.id = l.ride_id AND l.ride_id = $1 AND r.rider_id = $2 AND l.revoked_at IS NULL AND l.expires_at > NOW()
+       RETURNING l.id`,
+      [req.params.id, req.user.id],
+    );
+
+    sendResponse(res, 200, { revoked: revoked.rowCount }, 'Trip sharing links revoked successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while revoking trip sharing links');
+  }
+};
+
+/**
+ * Follow a shared trip: its status, driver, vehicle and the driver's live position
+ * @route GET /api/v1/track/:token
+ * @access Public
+ */
+export const getSharedTripByToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const trip = await getSharedTrip(req.params.token);
+
+    if (!trip) {
+      sendResponse(res, 404, {}, 'This trip link has expired or the trip has ended');
+      return;
+    }
+
+    sendResponse(res, 200, trip, 'Shared trip fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the shared trip');
+  }
+};
+
+/**
+ * Lists SOS alerts, newest first
+ * @route GET /api/v1/admin/sos
+ * @query status - open or resolved (defaults to open)
+ * @access Private (admins)
+ */
+export const listSosAlerts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = (req.query.status as SosAlertStatus) || 'open';
+
+    if (!SOS_ALERT_STATUSES.includes(status)) {
+      sendResponse(res, 400, {}, 'Status must be open or resolved');
+      return;
+    }
+
+    const alerts = await pool.query(
+      `SELECT a.*, r.status AS ride_status, r.driver_id,
+              u.firstname AS rider_firstname, u.lastname AS rider_lastname, u.phone_number AS rider_phone
+       FROM sos_alerts a
+       JOIN rides r ON r.id = a.ride_id
+       JOIN users u ON u.id = a.user_id
+       WHERE a.status = $1
+       ORDER BY a.created_at DESC`,
+      [status],
+    );
+
+    sendResponse(res, 200, alerts.rows, 'SOS alerts fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting SOS alerts');
+  }
+};
+
+/**
+ * Resolves an SOS alert once it was followed up
+ * @route POST /api/v1/admin/sos/:id/resolve
+ * @body note - What was done, up to 500 characters (optional)
+ * @access Private (admins)
+ */
+export const resolveSosAlert = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { note } = req.body;
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_MESSAGE_LENGTH)) {
+      sendResponse(res, 400, {}, `Note must be text of at most ${MAX_MESSAGE_LENGTH} characters`);
+      return;
+    }
+
+    const alert = await pool.query(
+      `UPDATE sos_alerts
+       SET status = 'resolved', resolved_by = $1, resolution_note = $2, resolved_at = NOW()
+       WHERE id = $3 AND status = 'open'
+       RETURNING *`,
+      [req.user.id, note?.trim() || null, req.params.id],
+    );
+
+    if (alert.rowCount === 0) {
+      sendResponse(res, 404, {}, 'No open SOS alert found');
+      return;
+    }
+
+    sendResponse(res, 200, alert.rows[0], 'SOS alert resolved successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while resolving the SOS alert');
+  }
+};
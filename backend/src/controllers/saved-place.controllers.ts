@@ -0,0 +1,251 @@
+/**
+ * Saved Place Controllers Module
+ * Handles a rider's saved places (home, work and custom favourites), up to
+ * SAVED_PLACES_LIMIT per rider, and the recent destinations taken from their
+ * completed rides.
+ */
+
+import { Request, Response } from 'express';
+import pool from '../db/db';
+import ApiError, { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { isValidCoordinate } from '../utils/geo.utils';
+import { RECENT_DESTINATIONS_LIMIT, SAVED_PLACES_LIMIT } from '../constants';
+import { SavedPlaceKind } from '../types/saved-place.type';
+
+const SAVED_PLACE_KINDS: SavedPlaceKind[] = ['home', 'work', 'custom'];
+
+/** Longest label of a custom place */
+const MAX_LABEL_LENGTH = 50;
+
+/** Longest formatted address */
+const MAX_ADDRESS_LENGTH = 255;
+
+/** Default labels of the home and work places */
+const DEFAULT_LABELS: Partial<Record<SavedPlaceKind, string>> = { home: 'Home', work: 'Work' };
+
+/**
+ * Checks that an optional value is non-empty text of at most a given length
+ * @param value - Raw value from the request body
+ * @param maxLength - Longest allowed length
+ * @returns True if the value is missing or valid text
+ */
+const isOptionalText = (value: unknown, maxLength: number): boolean =>
+  value === undefined || (typeof value === 'string' && value.trim().length > 0 && value.trim().length <= maxLength);
+
+/**
+ * Turns a violation of the one-home-one-work index into a readable error
+ * @param error - Error thrown by the insert or update
+ * @param kind - Kind of place being saved
+ * @throws {ApiError} 409 for a duplicate home or work place, otherwise the original error
+ */
+const rethrowDuplicateKind = (error: unknown, kind: SavedPlaceKind): never => {
+  if ((error as { code?: string }).code === '23505') {
+    throw new ApiError(409, `You already have a ${kind} place saved; update it instead`);
+  }
+  throw error;
+};
+
+/**
+ * List the authenticated rider's saved places, home and work first
+ * @route GET /api/v1/user/places
+ * @access Private (passengers)
+ */
+export const listSavedPlaces = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const places = await pool.query(
+      `SELECT * FROM saved_places
+       WHERE user_id = $1
+       ORDER BY CASE kind WHEN 'home' THEN 0 WHEN 'work' THEN 1 ELSE 2 END, created_at ASC`,
+      [req.user.id],
+    );
+
+    sendResponse(res, 200, places.rows, 'Saved places fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting saved places');
+  }
+};
+
+/**
+ * Save a place
+ * @route POST /api/v1/user/places
+ * @body kind - home, work or custom
+ * @body label - Name of the place (required for custom places)
+ * @body lat, lng - Coordinates
+ * @body address - Formatted address
+ * @access Private (passengers)
+ */
+export const createSavedPlace = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user.id;
+    const { kind, label, lat, lng, address } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ kind, address });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!SAVED_PLACE_KINDS.includes(kind)) {
+      sendResponse(res, 400, {}, 'Kind must be home, work or custom');
+      return;
+    }
+
+    if ((kind === 'custom' && label === undefined) || !isOptionalText(label, MAX_LABEL_LENGTH)) {
+      sendResponse(res, 400, {}, `Custom places need a label of at most ${MAX_LABEL_LENGTH} characters`);
+      return;
+    }
+
+    if (!isValidCoordinate(lat, lng)) {
+      sendResponse(res, 400, {}, 'Valid coordinates are required');
+      return;
+    }
+
+    if (!isOptionalText(address, MAX_ADDRESS_LENGTH)) {
+      sendResponse(res, 400, {}, `Address must be at most ${MAX_ADDRESS_LENGTH} characters`);
+      return;
+    }
+
+    const place = await withTransaction(async (client) => {
+      // Lock the rider so concurrent requests cannot both pass the limit check
+      await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+
+      const count = await client.query('SELECT COUNT(*)::int AS count FROM saved_places WHERE user_id = $1', [userId]);
+      if (count.rows[0].count >= SAVED_PLACES_LIMIT) {
+        throw new ApiError(409, `You can save at most ${SAVED_PLACES_LIMIT} places`);
+      }
+
+      const inserted = await client
+        .query(
+          `INSERT INTO saved_places (user_id, kind, label, lat, lng, address)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [userId, kind, label?.trim() || DEFAULT_LABELS[kind as SavedPlaceKind], lat, lng, address.trim()],
+        )
+        .catch((error) => rethrowDuplicateKind(error, kind));
+
+      return inserted.rows[0];
+    });
+
+    sendResponse(res, 201, place, 'Place saved successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while saving the place');
+  }
+};
+
+/**
+ * Update a saved place
+ * @route PUT /api/v1/user/places/:id
+ * @body kind, label, lat, lng, address - Fields to change (optional; lat and lng change together)
+ * @access Private (passengers)
+ */
+export const updateSavedPlace = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { kind, label, lat, lng, address } = req.body;
+
+    if (kind !== undefined && !SAVED_PLACE_KINDS.includes(kind)) {
+      sendResponse(res, 400, {}, 'Kind must be home, work or custom');
+      return;
+    }
+
+    if (!isOptionalText(label, MAX_LABEL_LENGTH) || !isOptionalText(address, MAX_ADDRESS_LENGTH)) {
+      sendResponse(
+        res,
+        400,
+        {},
+        `Label and address must be at most ${MAX_LABEL_LENGTH} and ${MAX_ADDRESS_LENGTH} characters`,
+      );
+      return;
+    }
+
+    const hasCoordinates = lat !== undefined || lng !== undefined;
+    if (hasCoordinates && !isValidCoordinate(lat, lng)) {
+      sendResponse(res, 400, {}, 'Valid coordinates are required');
+      return;
+    }
+
+    const place = await pool
+      .query(
+        `UPDATE saved_places
+         SET kind = COALESCE($1, kind),
+             label = COALESCE($2, CASE WHEN $1 IN ('home', 'work') AND kind <> $1 THEN INITCAP($1) ELSE label END),
+             lat = COALESCE($3, lat), lng = COALESCE($4, lng), address = COALESCE($5, address), updated_at = NOW()
+         WHERE id = $6 AND user_id = $7
+         RETURNING *`,
+        [
+          kind ?? null,
+          label?.trim() ?? null,
+          hasCoordinates ? lat : null,
+          hasCoordinates ? lng : null,
+          address?.trim() ?? null,
+          req.params.id,
+          req.user.id,
+        ],
+      )
+      .catch((error) => rethrowDuplicateKind(error, kind));
+
+    if (place.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Saved place not found');
+      return;
+    }
+
+    sendResponse(res, 200, place.rows[0], 'Saved place updated successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while updating the saved place');
+  }
+};
+
+/**
+ * Delete a saved place
+ * @route DELETE /api/v1/user/places/:id
+ * @access Private (passengers)
+ */
+export const deleteSavedPlace = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const place = await pool.query('DELETE FROM saved_places WHERE id = $1 AND user_id = $2 RETURNING id', [
+      req.params.id,
+      req.user.id,
+    ]);
+
+    if (place.rowCount === 0) {
+      sendResponse(res, 404, {}, 'Saved place not found');
+      return;
+    }
+
+    sendResponse(res, 200, {}, 'Saved place deleted successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while deleting the saved place');
+  }
+};
+
+/**
+ * List the places the authenticated rider was most recently dropped at
+ * Drops within about 10 metres of each other count as the same destination.
+ * @route GET /api/v1/user/places/recent
+ * @access Private (passengers)
+ */
+export const listRecentDestinations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const destinations = await pool.query(
+      `SELECT lat, lng, address, last_visited_at, visit_count
+       FROM (
+         SELECT DISTINCT ON (ROUND(drop_lat::numeric, 4), ROUND(drop_lng::numeric, 4))
+                drop_lat AS lat, drop_lng AS lng, drop_address AS address, completed_at AS last_visited_at,
+                COUNT(*) OVER (PARTITION BY ROUND(drop_lat::numeric, 4), ROUND(drop_lng::numeric, 4))::int AS visit_count
+         FROM rides
+         WHERE rider_id = $1 AND status = 'completed'
+         ORDER BY ROUND(drop_lat::numeric, 4), ROUND(drop_lng::numeric, 4), completed_at DESC
+       ) destinations
+       ORDER BY last_visited_at DESC
+       LIMIT $2`,
+      [req.user.id, RECENT_DESTINATIONS_LIMIT],
+    );
+
+    sendResponse(res, 200, destinations.rows, 'Recent destinations fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting recent destinations');
+  }
+};
@@ -11,6 +11,7 @@ import uploadOnCloudinary, { cloudinaryFolderName } from '../utils/cloudinary.ut
 import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
 import { sendResponse } from '../utils/api-response.utils';
 import { handleError } from '../utils/api-error.utils';
+import { normalisePhoneNumber } from '../utils/phone.utils';
 
 /**
  * Extracts and processes avatar identifier from Cloudinary URL
@@ -61,7 +62,7 @@ export const getUserById = async (req: Request, res: Response): Promise<void> =>
     }
 
     const user = await pool.query(
-      `SELECT id, avatar, firstname, lastname, email, phone_number, is_verified, created_at, updated_at
+      `SELECT id, avatar, firstname, lastname, email, phone_number, is_verified, rating_average, rating_count, created_at, updated_at
        FROM users 
        WHERE id = $1 LIMIT 1`,
       [id],
@@ -83,9 +84,9 @@ export const getUserById = async (req: Request, res: Response): Promise<void> =>
  * @route PUT /api/users/:id
  * @body firstname - User's first name
  * @body lastname - User's last name
- * @body phone_number - User's phone number (optional)
+ * @body phone_number - User's phone number (optional); changing it clears its verification
  * @body avatar - User's profile picture (optional, file upload)
- * @access Private
+ * @access Private (the profile's owner)
  * @param req
  * @param res
  */
@@ -101,6 +102,18 @@ export const updateProfileById = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    if (id !== req.user.id) {
+      sendResponse(res, 403, {}, 'You can only update your own profile');
+      return;
+    }
+
+    // Store phone numbers in E.164 so they can be matched for phone sign-in
+    const phoneNumber = phone_number ? normalisePhoneNumber(phone_number) : null;
+    if (phone_number && !phoneNumber) {
+      sendResponse(res, 400, {}, 'A valid phone number is required');
+      return;
+    }
+
     // Check if profile exists
     const existProfile = await pool.query(
       `SELECT id, avatar, firstname, lastname, email, phone_number, is_verified, created_at, updated_at
@@ -135,10 +148,11 @@ export const updateProfileById = async (req: Request, res: Response): Promise<vo
     // Update user profile in database
     const profile = await pool.query(
       `UPDATE users 
-       SET firstname = $1, lastname = $2, phone_number = $3, avatar = $4 
+       SET firstname = $1, lastname = $2, phone_number = $3, avatar = $4,
+           phone_verified_at = CASE WHEN phone_number IS DISTINCT FROM $3 THEN NULL ELSE phone_verified_at END
        WHERE id = $5 
-       RETURNING id, avatar, firstname, lastname, email, phone_number, is_verified, created_at, updated_at`,
-      [firstname, lastname, phone_number, avatar, id],
+       RETURNING id, avatar, firstname, lastname, email, phone_number, phone_verified_at, is_verified, created_at, updated_at`,
+      [firstname, lastname, phoneNumber, avatar, id],
     );
 
     sendResponse(res, 200, profile.rows[0], 'Profile updated successfully');
@@ -150,6 +164,7 @@ export const updateProfileById = async (req: Request, res: Response): Promise<vo
 /**
  * Deletes a user profile and associated resources
  * @route DELETE /api/users/:id
+ * @access Private (the profile's owner)
  * @param req
  * @param res
  */
@@ -163,6 +178,11 @@ export const deleteProfileById = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    if (id !== req.user.id) {
+      sendResponse(res, 403, {}, 'You can only delete your own profile');
+      return;
+    }
+
     // Check if profile exists
     const existProfile = await pool.query(
       `SELECT id, avatar, firstname, lastname, email, phone_number, is_verified, created_at, updated_at 
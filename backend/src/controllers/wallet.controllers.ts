@@ -0,0 +1,173 @@
+/**
+ * Wallet Controllers Module
+ * Handles user wallets: balance, history and top-ups, plus the admin
+ * refund and ledger reconciliation endpoints. All money movements are
+ * posted to the double-entry ledger by the ledger service.
+ */
+
+import { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import pool from '../db/db';
+import { handleError } from '../utils/api-error.utils';
+import { sendResponse } from '../utils/api-response.utils';
+import { validateRequiredFieldsUtils } from '../utils/validate-required-fields.utils';
+import { getWalletAccount, reconcileLedger, refundRide, topUpWallet } from '../services/ledger.service';
+import { WALLET_MAX_TOP_UP, WALLET_MIN_TOP_UP } from '../constants';
+
+/** Most wallet entries returned per page */
+const WALLET_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Checks that an amount is positive with at most two decimal places
+ * @param amount - Raw amount from the request body
+ * @returns True if the amount is valid
+ */
+const isValidAmount = (amount: unknown): amount is number =>
+  typeof amount === 'number' && amount > 0 && Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6;
+
+/**
+ * Get the authenticated user's wallet balance
+ * @route GET /api/v1/wallet
+ * @access Private
+ */
+export const getWallet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wallet = await getWalletAccount(pool, req.user.id);
+
+    sendResponse(
+      res,
+      200,
+      { id: wallet.id, balance: wallet.balance, currency: wallet.currency },
+      'Wallet fetched successfully',
+    );
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting the wallet');
+  }
+};
+
+/**
+ * List the authenticated user's wallet entries, newest first
+ * @route GET /api/v1/wallet/transactions
+ * @query before - Only return entries older than this entry ID (optional)
+ * @access Private
+ */
+export const listWalletTransactions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wallet = await getWalletAccount(pool, req.user.id);
+    const before = req.query.before ? Number(req.query.before) : null;
+
+    if (before !== null && !Number.isInteger(before)) {
+      sendResponse(res, 400, {}, 'Invalid cursor');
+      return;
+    }
+
+    const entries = await pool.query(
+      `SELECT e.id, e.amount, e.created_at, t.id AS transaction_id, t.type, t.ride_id, t.description
+       FROM ledger_entries e
+       JOIN ledger_transactions t ON t.id = e.transaction_id
+       WHERE e.account_id = $1 AND ($2::int IS NULL OR e.id < $2)
+       ORDER BY e.id DESC
+       LIMIT $3`,
+      [wallet.id, before, WALLET_HISTORY_PAGE_SIZE],
+    );
+
+    sendResponse(res, 200, entries.rows, 'Wallet transactions fetched successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while getting wallet transactions');
+  }
+};
+
+/**
+ * Add money to the authenticated user's wallet through the payment provider
+ * @route POST /api/v1/wallet/top-up
+ * @body amount - Amount to add
+ * @body payment_method_token - Token issued by the payment provider's client SDK
+ * @body idempotency_key - Key the client reuses when retrying the same top-up (optional)
+ * @access Private
+ */
+export const topUp = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { amount, payment_method_token, idempotency_key } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFieldsUtils({ amount, payment_method_token });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!isValidAmount(amount) || amount < WALLET_MIN_TOP_UP || amount > WALLET_MAX_TOP_UP) {
+      sendResponse(res, 400, {}, `Top-up amount must be between ${WALLET_MIN_TOP_UP} and ${WALLET_MAX_TOP_UP}`);
+      return;
+    }
+
+    const payment = await topUpWallet(
+      req.user.id,
+      amount,
+      String(payment_method_token),
+      idempotency_key ? String(idempotency_key) : randomUUID(),
+    );
+
+    if (payment.status === 'failed') {
+      sendResponse(res, 402, payment, payment.failure_reason || 'Payment failed');
+      return;
+    }
+
+    const wallet = await getWalletAccount(pool, req.user.id);
+    sendResponse(res, 200, { payment, balance: wallet.balance }, 'Wallet topped up successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while topping up the wallet');
+  }
+};
+
+/**
+ * Refund part or all of a completed ride to the rider's wallet
+ * @route POST /api/v1/admin/rides/:id/refund
+ * @body amount - Amount to refund
+ * @body reason - Reason recorded on the refund
+ * @body idempotency_key - Key the client reuses when retrying the same refund (optional)
+ * @access Private (admins)
+ */
+export const refundRideToWallet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { amount, reason, idempotency_key } = req.body;
+
+    const validation = validateRequiredFieldsUtils({ amount, reason });
+    if (!validation.isValid) {
+      sendResponse(res, 400, {}, validation.error || 'All fields are required');
+      return;
+    }
+
+    if (!isValidAmount(amount)) {
+      sendResponse(res, 400, {}, 'Refund amount must be a positive amount');
+      return;
+    }
+
+    const transaction = await refundRide(
+      req.params.id,
+      amount,
+      req.user.id,
+      reason,
+      idempotency_key ? String(idempotency_key) : randomUUID(),
+    );
+
+    sendResponse(res, 200, transaction, 'Ride refunded successfully');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while refunding the ride');
+  }
+};
+
+/**
+ * Check that every balance matches the ledger and every transaction balances
+ * @route GET /api/v1/admin/ledger/reconciliation
+ * @access Private (admins)
+ */
+export const getLedgerReconciliation = async (_: Request, res: Response): Promise<void> => {
+  try {
+    const report = await reconcileLedger();
+
+    sendResponse(res, 200, report, report.is_consistent ? 'Ledger is consistent' : 'Ledger mismatches found');
+  } catch (error) {
+    handleError(res, error, 'Something went wrong while reconciling the ledger');
+  }
+};
@@ -0,0 +1,104 @@
+/**
+ * Account Locked Email Module
+ * Handles telling users that their account was locked after repeated failed sign-ins using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+
+/**
+ * Sends a notice that sign-in with a password is locked for a while
+ * @param user - Object containing user's name and email
+ * @param lockedUntil - When password sign-in works again
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendAccountLockedEmail = async (user: User, lockedUntil: Date): Promise<void> => {
+  try {
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: 'Your Ryde account is temporarily locked',
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Account locked</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #f57c00;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #f57c00;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>Account Temporarily Locked</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${user.name},</h2>
+            <p>We noticed several failed attempts to sign in to your Ryde account with a wrong password, so we have locked password sign-in for a while to keep your account safe.</p>
+            <div class="reason">
+                <p><strong>Locked until:</strong> ${lockedUntil.toUTCString()}</p>
+            </div>
+            <p>If this was you, you can try again after that time or reset your password now. If it was not you, we recommend resetting your password and signing out of every device.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${user.email}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Account locked email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending account locked email:', error);
+    throw error;
+  }
+};
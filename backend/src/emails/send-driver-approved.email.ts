@@ -0,0 +1,100 @@
+/**
+ * Driver Approved Email Module
+ * Handles sending application approval emails to drivers using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+
+/**
+ * Sends an approval email to a driver whose application was accepted
+ * @param user - Object containing driver's name and email
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendDriverApprovedEmail = async (user: User): Promise<void> => {
+  try {
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: 'Your Ryde driver application is approved',
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Driver application approved</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #4CAF50;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #4CAF50;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>You are ready to drive! 🚗</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${user.name},</h2>
+            <p>Great news! Your documents have been reviewed and your driver application has been approved.</p>
+            <p>You can now go online in the Ryde app and start accepting ride requests.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${user.email}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Driver approved email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending driver approved email:', error);
+    throw error;
+  }
+};
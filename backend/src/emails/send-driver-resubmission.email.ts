@@ -0,0 +1,106 @@
+/**
+ * Driver Resubmission Email Module
+ * Handles sending document resubmission requests to drivers using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+
+/**
+ * Sends an email asking a driver to resubmit specific documents
+ * @param user - Object containing driver's name and email
+ * @param documents - Names of the documents that must be uploaded again
+ * @param reason - Reason given by the reviewing admin
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendDriverResubmissionEmail = async (user: User, documents: string[], reason: string): Promise<void> => {
+  try {
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: 'Action required: resubmit your Ryde documents',
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Resubmit driver documents</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #ff9800;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #ff9800;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>Documents Required</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${user.name},</h2>
+            <p>We reviewed your driver application and need you to upload the following documents again:</p>
+            <ul>
+                ${documents.map((document) => `<li>${document}</li>`).join('')}
+            </ul>
+            <div class="reason">${reason}</div>
+            <p>Please upload the documents from the Ryde app so we can continue reviewing your application.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${user.email}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Driver resubmission email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending driver resubmission email:', error);
+    throw error;
+  }
+};
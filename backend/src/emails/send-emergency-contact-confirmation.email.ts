@@ -0,0 +1,117 @@
+/**
+ * Emergency Contact Confirmation Email Module
+ * Handles asking someone to confirm they agree to be a rider's emergency contact using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+import { escapeHtml } from '../utils/html.utils';
+
+/**
+ * Sends the link a new emergency contact confirms their email address with
+ * @param user - Object containing contact's name and email
+ * @param riderName - Rider who added the contact
+ * @param confirmUrl - Link that confirms the contact
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendEmergencyContactConfirmationEmail = async (
+  user: User,
+  riderName: string,
+  confirmUrl: string,
+): Promise<void> => {
+  try {
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: `${riderName} added you as an emergency contact on Ryde`,
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Confirm emergency contact</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #007bff;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #007bff;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+        .button {
+            display: inline-block;
+            padding: 10px 20px;
+            background-color: #007bff;
+            color: #ffffff;
+            text-decoration: none;
+            border-radius: 4px;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>Emergency Contact</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${escapeHtml(user.name)},</h2>
+            <p>${escapeHtml(riderName)} added you as an emergency contact on Ryde. If they raise an SOS during a trip, we will email you where they are and a link to follow the trip live.</p>
+            <p>We only send you these alerts once you confirm:</p>
+            <p><a href="${escapeHtml(confirmUrl)}" class="button">Confirm emergency contact</a></p>
+            <p>If you do not know ${escapeHtml(riderName)} or do not want these alerts, ignore this email and you will not hear from us again.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${escapeHtml(user.email)}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Emergency contact confirmation email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending emergency contact confirmation email:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,106 @@
+/**
+ * Reservation Failed Email Module
+ * Handles notifying riders when no driver accepted a reserve ride using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+import { ReservationType } from '../types/reservation.type';
+
+/**
+ * Sends an email telling the rider that no driver was found for a reservation
+ * @param user - Object containing rider's name and email
+ * @param reservation - Reserved ride that could not be fulfilled
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendReservationFailedEmail = async (user: User, reservation: ReservationType): Promise<void> => {
+  try {
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: 'We could not find a driver for your Ryde reservation',
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Reserved ride not fulfilled</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #ff5722;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #ff5722;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>No Driver Found</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${user.name},</h2>
+            <p>We are sorry, but no driver accepted your reserved ride.</p>
+            <div class="reason">
+                <p><strong>Pickup time:</strong> ${new Date(reservation.scheduled_at).toUTCString()}</p>
+                <p><strong>Pickup:</strong> ${reservation.pickup_address || `${reservation.pickup_lat}, ${reservation.pickup_lng}`}</p>
+            </div>
+            <p>You have not been charged. Please request a new ride from the Ryde app.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${user.email}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Reservation failed email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending reservation failed email:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,108 @@
+/**
+ * Reservation Reminder Email Module
+ * Handles sending pickup reminders for reserve rides using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+import { ReservationType } from '../types/reservation.type';
+
+/**
+ * Sends a reminder email before a reserved pickup
+ * @param user - Object containing rider's name and email
+ * @param reservation - Reserved ride the reminder is for
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendReservationReminderEmail = async (user: User, reservation: ReservationType): Promise<void> => {
+  try {
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: 'Reminder: your Ryde pickup is coming up',
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Upcoming reserved ride</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #4CAF50;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #4CAF50;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>Your ride is coming up 🚗</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${user.name},</h2>
+            <p>This is a reminder of your reserved ride.</p>
+            <div class="reason">
+                <p><strong>Pickup time:</strong> ${new Date(reservation.scheduled_at).toUTCString()}</p>
+                <p><strong>Pickup:</strong> ${reservation.pickup_address || `${reservation.pickup_lat}, ${reservation.pickup_lng}`}</p>
+                <p><strong>Drop:</strong> ${reservation.drop_address || `${reservation.drop_lat}, ${reservation.drop_lng}`}</p>
+                <p><strong>Estimated fare:</strong> ${reservation.estimated_fare}</p>
+            </div>
+            <p>We will start looking for a driver shortly before your pickup time.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${user.email}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Reservation reminder email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending reservation reminder email:', error);
+    throw error;
+  }
+};
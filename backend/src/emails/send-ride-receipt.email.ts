@@ -0,0 +1,146 @@
+/**
+ * Ride Receipt Email Module
+ * Handles sending trip receipts to riders when a ride is completed, or cancelled for a fee, using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+import { RideReceipt } from '../types/receipt.type';
+import { formatFareAmount } from '../utils/fare-calculator.utils';
+import { escapeHtml } from '../utils/html.utils';
+
+/**
+ * Sends the receipt of a completed ride, or of a ride cancelled for a fee, to its rider
+ * @param user - Object containing rider's name and email
+ * @param receipt - Receipt of the ride
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendRideReceiptEmail = async (user: User, receipt: RideReceipt): Promise<void> => {
+  try {
+    // Addresses and names are typed by users, so every value is escaped before it goes into the HTML
+    const amount = (value: number) => escapeHtml(formatFareAmount(receipt.currency, value));
+    const fareRows = receipt.fare_lines
+      .map(
+        ({ label, amount: value }) => `<tr><td>${escapeHtml(label)}</td><td class="amount">${amount(value)}</td></tr>`,
+      )
+      .join('');
+    const cancelled = receipt.status === 'cancelled';
+    const tripDetails = cancelled
+      ? `<p><strong>Cancelled:</strong> ${new Date(receipt.cancelled_at!).toUTCString()}</p>`
+      : `<p><strong>Completed:</strong> ${new Date(receipt.completed_at!).toUTCString()}</p>
+                <p><strong>Distance:</strong> ${escapeHtml(receipt.distance_km)} km &middot; <strong>Duration:</strong> ${escapeHtml(receipt.duration_min)} min</p>`;
+
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: `Your Ryde receipt ${receipt.receipt_number}`,
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Your trip receipt</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #4CAF50;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #4CAF50;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+        .fare {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 20px 0;
+        }
+        .fare td {
+            padding: 6px 0;
+            border-bottom: 1px solid #eee;
+        }
+        .fare .amount {
+            text-align: right;
+        }
+        .fare .total td {
+            font-weight: bold;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>Trip Receipt</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${escapeHtml(user.name)},</h2>
+            <p>${cancelled ? 'Your ride was cancelled after the free cancellation period. Here is the receipt for the cancellation fee.' : 'Thanks for riding with Ryde. Here is the receipt for your trip.'}</p>
+            <div class="reason">
+                <p><strong>Pickup:</strong> ${escapeHtml(receipt.pickup)}</p>
+                <p><strong>Drop:</strong> ${escapeHtml(receipt.drop)}</p>
+                ${tripDetails}
+                ${receipt.driver_name ? `<p><strong>Driver:</strong> ${escapeHtml(receipt.driver_name)}${receipt.vehicle ? `, ${escapeHtml(receipt.vehicle)}` : ''}</p>` : ''}
+            </div>
+            <table class="fare">
+                ${fareRows}
+                ${receipt.promo_code ? `<tr><td>Promo (${escapeHtml(receipt.promo_code)})</td><td class="amount">-${amount(receipt.discount)}</td></tr>` : ''}
+                <tr class="total"><td>Fare total</td><td class="amount">${amount(receipt.fare_total)}</td></tr>
+                ${receipt.tip > 0 ? `<tr><td>Tip</td><td class="amount">${amount(receipt.tip)}</td></tr>` : ''}
+                <tr class="total"><td>Total paid</td><td class="amount">${amount(receipt.total_paid)}</td></tr>
+            </table>
+            <p><strong>Payment method:</strong> ${receipt.payment_method === 'wallet' ? 'Ryde wallet' : 'Cash'}</p>
+            <p>Receipt number ${escapeHtml(receipt.receipt_number)}. The PDF receipt in your ride history in the Ryde app is always up to date, including any tip added later.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${escapeHtml(user.email)}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('Ride receipt email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending ride receipt email:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,127 @@
+/**
+ * SOS Alert Email Module
+ * Handles alerting admins and a rider's emergency contacts when the rider raises an SOS using nodemailer.
+ */
+
+import { SendMailOptions } from 'nodemailer';
+import transporter from '../utils/nodemailer.utils';
+import { User } from '../types/email.type';
+import { SosAlertNotice } from '../types/safety.type';
+import { escapeHtml } from '../utils/html.utils';
+
+/**
+ * Sends an SOS alert about a rider in an active ride
+ * @param user - Object containing recipient's name and email
+ * @param notice - Details of the alert, with the live trip link for emergency contacts
+ * @returns Promise that resolves when email is sent
+ * @throws Error if email sending fails
+ */
+export const sendSosAlertEmail = async (user: User, notice: SosAlertNotice): Promise<void> => {
+  try {
+    // Names and the message are typed by users, so every value is escaped before it goes into the HTML
+    const lat = escapeHtml(notice.lat);
+    const lng = escapeHtml(notice.lng);
+    const location =
+      notice.lat === null || notice.lng === null
+        ? 'Not available'
+        : `<a href="https://www.google.com/maps?q=${lat},${lng}">${lat}, ${lng}</a>`;
+
+    const mailOptions: SendMailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject: `SOS: ${notice.rider_name} needs help on a Ryde trip`,
+      html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>SOS alert</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 20px auto;
+            background: #ffffff;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            overflow: hidden;
+        }
+        .header {
+            background-color: #d32f2f;
+            color: white;
+            text-align: center;
+            padding: 20px;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+        }
+        .content {
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+        }
+        .reason {
+            margin: 20px 0;
+            padding: 10px 20px;
+            background-color: #f1f1f1;
+            border-left: 4px solid #d32f2f;
+            border-radius: 4px;
+        }
+        .footer {
+            background-color: #f5f5f5;
+            padding: 15px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+        }
+        .button {
+            display: inline-block;
+            padding: 10px 20px;
+            background-color: #d32f2f;
+            color: #ffffff;
+            text-decoration: none;
+            border-radius: 4px;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>SOS Alert</h1>
+        </div>
+        <div class="content">
+            <h2>Hello ${escapeHtml(user.name)},</h2>
+            <p>${escapeHtml(notice.rider_name)} raised an SOS alert during a Ryde trip. Please check on them right away and contact local emergency services if needed.</p>
+            <div class="reason">
+                <p><strong>Raised at:</strong> ${new Date(notice.raised_at).toUTCString()}</p>
+                <p><strong>Last known location:</strong> ${location}</p>
+                ${notice.rider_phone ? `<p><strong>Rider phone:</strong> ${escapeHtml(notice.rider_phone)}</p>` : ''}
+                ${notice.driver_name ? `<p><strong>Driver:</strong> ${escapeHtml(notice.driver_name)}${notice.vehicle ? `, ${escapeHtml(notice.vehicle)}` : ''}</p>` : ''}
+                ${notice.message ? `<p><strong>Message:</strong> ${escapeHtml(notice.message)}</p>` : ''}
+            </div>
+            ${notice.tracking_url ? `<p><a href="${escapeHtml(notice.tracking_url)}" class="button">Follow the trip live</a></p>` : ''}
+            <p>Alert ${escapeHtml(notice.alert_id)} for ride ${escapeHtml(notice.ride_id)}.</p>
+            <p>Best regards,<br>The Ryde Team</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent to ${escapeHtml(user.email)}</p>
+            <p> ${new Date().getFullYear()} Ryde. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>`,
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log('SOS alert email sent successfully to:', user.email);
+  } catch (error) {
+    console.error('Error while sending sos alert email:', error);
+    throw error;
+  }
+};
@@ -5,11 +5,23 @@
  */
 
 import app from './app';
+import { startDriverAvailabilityJob } from './jobs/driver-availability.job';
+import { startReservationJob } from './jobs/reservation.job';
+import { startPayoutJob } from './jobs/payout.job';
+import { startRateLimitJob } from './jobs/rate-limit.job';
+import { attachRealtimeGateway } from './services/realtime-gateway.service';
 
 // Start the server on specified port or default to 8080
 const PORT = process.env.PORT || 8080;
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
+  startDriverAvailabilityJob();
+  startReservationJob();
+  startPayoutJob();
+  startRateLimitJob();
   // console.log(`📚 API Documentation: http://localhost:${PORT}/api/v1/docs`);
 });
+
+// Serve WebSocket connections on the same HTTP server
+attachRealtimeGateway(server);
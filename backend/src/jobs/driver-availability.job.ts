@@ -0,0 +1,43 @@
+/**
+ * Driver Availability Job
+ * Marks online drivers as offline when they stop sending location pings.
+ */
+
+import cron from 'node-cron';
+import pool from '../db/db';
+import { forgetDriverLocation } from '../services/driver-location.service';
+import { DRIVER_OFFLINE_TIMEOUT_SECONDS } from '../constants';
+
+/**
+ * Marks drivers offline whose last ping is older than DRIVER_OFFLINE_TIMEOUT_SECONDS
+ * @returns Promise resolving to the user IDs of drivers marked offline
+ */
+export const markIdleDriversOffline = async (): Promise<string[]> => {
+  const { rows } = await pool.query(
+    `UPDATE drivers
+     SET is_online = false, updated_at = NOW()
+     WHERE is_online = true AND (last_seen_at IS NULL OR last_seen_at < NOW() - make_interval(secs => $1))
+     RETURNING user_id`,
+    [DRIVER_OFFLINE_TIMEOUT_SECONDS],
+  );
+
+  const driverIds = rows.map((row) => row.user_id);
+  driverIds.forEach(forgetDriverLocation);
+  return driverIds;
+};
+
+/**
+ * Schedules the idle driver check to run every minute
+ */
+export const startDriverAvailabilityJob = (): void => {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const driverIds = await markIdleDriversOffline();
+      if (driverIds.length > 0) {
+        console.log(`Marked ${driverIds.length} idle drivers offline at ${new Date()}`);
+      }
+    } catch (err) {
+      console.error('Error marking idle drivers offline:', err);
+    }
+  });
+};
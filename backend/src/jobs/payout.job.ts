@@ -0,0 +1,26 @@
+/**
+ * Payout Job
+ * Generates the weekly driver payout statements.
+ */
+
+import cron from 'node-cron';
+import { generateWeeklyPayouts } from '../services/earnings.service';
+import { EARNINGS_TIME_ZONE, PAYOUT_BATCH_CRON } from '../constants';
+
+/**
+ * Schedules the payout batch on PAYOUT_BATCH_CRON in EARNINGS_TIME_ZONE
+ */
+export const startPayoutJob = (): void => {
+  cron.schedule(
+    PAYOUT_BATCH_CRON,
+    async () => {
+      try {
+        const payouts = await generateWeeklyPayouts();
+        console.log(`Generated ${payouts.length} payout statements at ${new Date()}`);
+      } catch (err) {
+        console.error('Error generating payout statements:', err);
+      }
+    },
+    { timezone: EARNINGS_TIME_ZONE },
+  );
+};
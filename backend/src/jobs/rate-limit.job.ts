@@ -0,0 +1,32 @@
+/**
+ * Rate Limit Job
+ * Deletes rate limit buckets whose window ended, when counters are kept in Postgres.
+ */
+
+import cron from 'node-cron';
+import pool from '../db/db';
+import { RATE_LIMIT_STORE } from '../constants';
+
+/**
+ * Deletes rate limit buckets whose window ended
+ * @returns Promise resolving to the number of buckets deleted
+ */
+export const purgeEndedRateLimitBuckets = async (): Promise<number> => {
+  const { rowCount } = await pool.query('DELETE FROM rate_limit_buckets WHERE reset_at <= NOW()');
+  return rowCount ?? 0;
+};
+
+/**
+ * Schedules the purge every ten minutes; nothing is scheduled for the in-memory store
+ */
+export const startRateLimitJob = (): void => {
+  if (RATE_LIMIT_STORE !== 'postgres') return;
+
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      await purgeEndedRateLimitBuckets();
+    } catch (err) {
+      console.error('Error purging rate limit buckets:', err);
+    }
+  });
+};
@@ -0,0 +1,72 @@
+/**
+ * Reservation Job
+ * Sends pickup reminders and dispatches reserve and intercity rides as their pickup time approaches.
+ * Reservations that no driver accepts keep being dispatched until the pickup time passes.
+ */
+
+import cron from 'node-cron';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { transitionRideStatus } from '../utils/ride-state-machine.utils';
+import { rideDispatcher } from '../services/ride-dispatcher.service';
+import { publishRideUpdate } from '../services/realtime-gateway.service';
+import {
+  createRidesForDueReservations,
+  failReservationForRide,
+  getWaitingReservationRides,
+  sendDueReservationReminders,
+} from '../services/reservation.service';
+
+/**
+ * Cancels a reserve ride whose pickup time passed without a driver and fails its reservation
+ * @param rideId - Ride ID
+ */
+const expireReservationRide = async (rideId: string): Promise<void> => {
+  const ride = await withTransaction((client) =>
+    transitionRideStatus(client, rideId, 'cancelled', {
+      actorId: null,
+      updates: { cancellation_reason: 'No drivers available' },
+    }),
+  );
+  publishRideUpdate(ride);
+  await failReservationForRide(rideId);
+};
+
+/**
+ * Runs one pass over upcoming reservations
+ * - Sends reminders for pickups within RESERVATION_REMINDER_MINUTES
+ * - Creates and dispatches rides for pickups within RESERVATION_DISPATCH_LEAD_MINUTES
+ *   (INTERCITY_DISPATCH_LEAD_MINUTES for intercity trips)
+ * - Re-dispatches waiting rides, or fails them once the pickup time has passed
+ */
+export const processReservations = async (): Promise<void> => {
+  await sendDueReservationReminders();
+
+  const rides = await createRidesForDueReservations();
+  for (const ride of rides) {
+    rideDispatcher.dispatch(ride).catch((err) => console.error(`Error dispatching reserve ride ${ride.id}:`, err));
+  }
+
+  const waitingRides = await getWaitingReservationRides();
+  for (const ride of waitingRides) {
+    if (rideDispatcher.isDispatching(ride.id)) continue;
+
+    if (new Date(ride.scheduled_at) <= new Date()) {
+      await expireReservationRide(ride.id);
+    } else {
+      rideDispatcher.dispatch(ride).catch((err) => console.error(`Error dispatching reserve ride ${ride.id}:`, err));
+    }
+  }
+};
+
+/**
+ * Schedules reservation processing to run every minute
+ */
+export const startReservationJob = (): void => {
+  cron.schedule('* * * * *', async () => {
+    try {
+      await processReservations();
+    } catch (err) {
+      console.error('Error processing reservations:', err);
+    }
+  });
+};
@@ -0,0 +1,114 @@
+/**
+ * Authentication and Authorization Middleware
+ * authenticate verifies the access token and attaches the user to req.user;
+ * authorize then checks the user's role is granted the permissions a route requires.
+ * Every protected route uses both, so each route states its own access rule.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import pool from '../db/db';
+import { sendResponse } from '../utils/api-response.utils';
+import { handleError } from '../utils/api-error.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { APPROVED_DRIVER_PERMISSIONS } from '../constants';
+import { Permission } from '../types/auth.type';
+
+/**
+ * Middleware to authenticate a request
+ * Checks for a token in cookies or the Authorization header, and that the token's session is still active.
+ * Stores the authenticated user's id, role and session id on req.user
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ *
+ * @example
+ * // In routes file:
+ * router.get('/protected-route', authenticate, authorize('rides:view'), protectedController);
+ *
+ * @throws {401} If token is missing, invalid, or its user or session no longer exists
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // Check for token in cookies or Authorization header
+    const token = req.cookies?.accessToken || req.header('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      sendResponse(res, 401, {}, 'Unauthorized request');
+      return;
+    }
+
+    // Verify token and decode payload
+    const decodedToken = jwt.verify(token, process.env.ACCESS_TOKEN_SECRET as string) as JwtPayload;
+
+    // Verify user exists in database and the device has not been signed out
+    const { rows } = await pool.query(
+      `SELECT u.id, u.role
+       FROM users u
+       JOIN sessions s ON s.user_id = u.id
+       WHERE u.id = $1 AND s.id = $2 AND s.revoked_at IS NULL AND s.expires_at > NOW()
+       LIMIT 1`,
+      [decodedToken.userId, decodedToken.sessionId],
+    );
+
+    if (rows.length === 0) {
+      sendResponse(res, 401, {}, 'Invalid Access Token');
+      return;
+    }
+
+    // Expose authenticated user to downstream handlers
+    req.user = { id: rows[0].id, role: rows[0].role, sessionId: decodedToken.sessionId };
+
+    next();
+  } catch (error) {
+    console.error('❌ JWT Verification Error:', error);
+    handleError(res, error, 'Invalid access token');
+  }
+};
+
+/**
+ * Creates a middleware that requires permissions of the authenticated user
+ * Must run after authenticate. Drivers only hold APPROVED_DRIVER_PERMISSIONS once
+ * their application is approved; their driver profile is then stored on req.driver
+ *
+ * @param permissions - Permissions the user's role must all be granted
+ * @returns Express middleware
+ *
+ * @example
+ * // In routes file:
+ * router.get('/admin/drivers', authenticate, authorize('drivers:review'), listDriverApplications);
+ *
+ * @throws {403} If the role lacks a permission or the driver is not approved
+ */
+export const authorize =
+  (...permissions: Permission[]) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id, role } = req.user;
+
+      // Check that the role is granted every required permission
+      const missing = permissions.find((permission) => !hasPermission(role, permission));
+      if (missing) {
+        sendResponse(res, 403, {}, `Access denied. This route requires the ${missing} permission`);
+        return;
+      }
+
+      // Check that the driver application has been approved
+      if (role === 'driver' && permissions.some((permission) => APPROVED_DRIVER_PERMISSIONS.includes(permission))) {
+        const { rows } = await pool.query('SELECT * FROM drivers WHERE user_id = $1 LIMIT 1', [id]);
+
+        if (rows.length === 0 || rows[0].status !== 'approved') {
+          sendResponse(res, 403, {}, 'Driver account is not approved');
+          return;
+        }
+
+        req.driver = rows[0];
+      }
+
+      next();
+    } catch (error) {
+      console.error('❌ Authorization Error:', error);
+      handleError(res, error, 'Something went wrong while checking permissions');
+    }
+  };
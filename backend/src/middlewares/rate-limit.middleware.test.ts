@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextFunction, Request, Response } from 'express';
+import rateLimitMiddleware from './rate-limit.middleware';
+import { rateLimitStore } from '../services/rate-limit.service';
+import { RATE_LIMITS } from '../constants';
+
+const START = Date.UTC(2025, 0, 5, 8, 0, 0);
+
+/** Runs the middleware and records what it sent or whether it passed the request on */
+const run = async (route: Parameters<typeof rateLimitMiddleware>[0], body: Record<string, unknown> = {}) => {
+  const sent: { status?: number; headers: Record<string, string>; body?: { message?: string } } = { headers: {} };
+  const res = {
+    set(name: string, value: string) {
+      sent.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(json: { message?: string }) {
+      sent.body = json;
+      return res;
+    },
+  };
+  let passed = false;
+  const next: NextFunction = () => {
+    passed = true;
+  };
+
+  await rateLimitMiddleware(route)({ ip: '203.0.113.7', body } as Request, res as unknown as Response, next);
+  return { sent, passed };
+};
+
+describe('rateLimitMiddleware', () => {
+  it('lets requests within the limits through', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    const hit = t.mock.method(rateLimitStore, 'hit', async () => ({ count: 1, resetAt: new Date(START + 60000) }));
+
+    const { sent, passed } = await run('signIn', { email: ' Asha@Example.com ' });
+
+    assert.equal(passed, true);
+    assert.equal(sent.status, undefined);
+    assert.deepEqual(
+      hit.mock.calls.map(({ arguments: [key] }) => key),
+      ['signIn:ip:203.0.113.7', 'signIn:account:asha@example.com'],
+    );
+  });
+
+  it('answers 429 with the seconds until the window resets in Retry-After', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    const [ipRule] = RATE_LIMITS.signIn;
+    t.mock.method(rateLimitStore, 'hit', async () => ({ count: ipRule.limit + 1, resetAt: new Date(START + 90500) }));
+
+    const { sent, passed } = await run('signIn', { email: 'asha@example.com' });
+
+    assert.equal(passed, false);
+    assert.equal(sent.status, 429);
+    assert.equal(sent.headers['Retry-After'], '91');
+    assert.equal(sent.body?.message, 'Too many requests. Please try again in 91 seconds');
+  });
+
+  it('waits for the latest reset when several limits are exceeded', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    t.mock.method(rateLimitStore, 'hit', async (key: string) => ({
+      count: 1000,
+      resetAt: new Date(START + (key.includes(':account:') ? 600000 : 30000)),
+    }));
+
+    const { sent } = await run('signIn', { email: 'asha@example.com' });
+
+    assert.equal(sent.headers['Retry-After'], '600');
+  });
+
+  it('only limits the scopes over their limit', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    const [ipRule, accountRule] = RATE_LIMITS.signIn;
+    t.mock.method(rateLimitStore, 'hit', async (key: string) => ({
+      count: key.includes(':account:') ? accountRule.limit : ipRule.limit,
+      resetAt: new Date(START + 60000),
+    }));
+
+    const { passed } = await run('signIn', { email: 'asha@example.com' });
+
+    assert.equal(passed, true);
+  });
+
+  it('skips the account limit when the request names no account', async (t) => {
+    const hit = t.mock.method(rateLimitStore, 'hit', async () => ({ count: 1, resetAt: new Date(Date.now() + 60000) }));
+
+    await run('signIn');
+
+    assert.deepEqual(
+      hit.mock.calls.map(({ arguments: [key] }) => key),
+      ['signIn:ip:203.0.113.7'],
+    );
+  });
+
+  it('lets the request through when the store fails', async (t) => {
+    t.mock.method(console, 'error', () => {});
+    t.mock.method(rateLimitStore, 'hit', async () => {
+      throw new Error('store down');
+    });
+
+    const { sent, passed } = await run('signIn', { email: 'asha@example.com' });
+
+    assert.equal(passed, true);
+    assert.equal(sent.status, undefined);
+  });
+});
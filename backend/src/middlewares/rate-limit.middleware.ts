@@ -0,0 +1,64 @@
+/**
+ * Rate Limit Middleware
+ * Limits how often a route can be called, per client IP and per targeted account,
+ * using the rules in RATE_LIMITS and the store selected by RATE_LIMIT_STORE.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { sendResponse } from '../utils/api-response.utils';
+import { rateLimitStore } from '../services/rate-limit.service';
+import { RATE_LIMITS } from '../constants';
+import { RateLimitedRoute } from '../types/rate-limit.type';
+
+/**
+ * Reads the account a request targets from the email in its body
+ * @param req - Express request object
+ * @returns Lowercased email, or null if the body has none
+ */
+const getEmailAccountKey = (req: Request): string | null => {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+};
+
+/**
+ * Creates a middleware that rate limits a route
+ * Requests over a limit get 429 with a Retry-After header. When the store fails,
+ * requests are let through rather than locking everyone out.
+ *
+ * @param route - Route whose rules in RATE_LIMITS apply
+ * @param getAccountKey - Reads the targeted account from the request (defaults to the email in the body)
+ * @returns Express middleware
+ *
+ * @example
+ * // In routes file:
+ * router.post('/sign-in', rateLimitMiddleware('signIn'), signIn);
+ */
+const rateLimitMiddleware =
+  (route: RateLimitedRoute, getAccountKey: (req: Request) => string | null = getEmailAccountKey) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      let retryAfterSeconds = 0;
+
+      for (const rule of RATE_LIMITS[route]) {
+        const subject = rule.scope === 'ip' ? req.ip : getAccountKey(req);
+        if (!subject) continue;
+
+        const { count, resetAt } = await rateLimitStore.hit(`${route}:${rule.scope}:${subject}`, rule.windowSeconds);
+        if (count > rule.limit) {
+          retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+        }
+      }
+
+      if (retryAfterSeconds > 0) {
+        res.set('Retry-After', String(retryAfterSeconds));
+        sendResponse(res, 429, {}, `Too many requests. Please try again in ${retryAfterSeconds} seconds`);
+        return;
+      }
+    } catch (error) {
+      console.error(`Rate limit store error on ${route}; letting the request through:`, error);
+    }
+
+    next();
+  };
+
+export default rateLimitMiddleware;
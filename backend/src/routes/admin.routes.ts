@@ -0,0 +1,199 @@
+/**
+ * Admin Routes Module
+ * Handles administrator operations such as the driver application review queue.
+ *
+ * Routes:
+ * - GET /admin/drivers: List driver applications by status (defaults to pending_review)
+ * - POST /admin/drivers/:id/approve: Approve a driver application
+ * - POST /admin/drivers/:id/reject: Reject a driver application with a reason
+ * - POST /admin/drivers/:id/request-resubmission: Ask a driver to resubmit documents
+ * - GET /admin/ratings/low: List riders or drivers rated below a threshold
+ * - GET /admin/cancellations/flagged-drivers: List drivers flagged for repeated cancellations
+ * - POST /admin/cancellations/flagged-drivers/:id/clear: Clear a driver's cancellation flag
+ * - GET /admin/sos: List open or resolved SOS alerts
+ * - POST /admin/sos/:id/resolve: Resolve an SOS alert
+ * - POST /admin/promos: Create a promo code
+ * - GET /admin/promos: List promo codes
+ * - PUT /admin/promos/:id: Update a promo code's limits or status
+ * - POST /admin/rides/:id/refund: Refund a completed ride to the rider's wallet
+ * - GET /admin/ledger/reconciliation: Check wallet balances against the ledger
+ * - GET /admin/payouts: List driver payout statements
+ * - POST /admin/payouts/batch: Generate payout statements for the last full week
+ * - POST /admin/payouts/:id/paid: Record a payout as paid
+ * - GET /admin/payouts/:id/statement: Download a payout statement as CSV
+ */
+
+import express from 'express';
+import {
+  approveDriver,
+  clearDriverCancellationFlag,
+  listCancellationFlaggedDrivers,
+  listDriverApplications,
+  listLowRatedAccounts,
+  rejectDriver,
+  requestDocumentResubmission,
+} from '../controllers/admin.controllers';
+import { createPromoCode, listPromoCodes, updatePromoCode } from '../controllers/promo.controllers';
+import { getLedgerReconciliation, refundRideToWallet } from '../controllers/wallet.controllers';
+import { downloadPayoutStatement, listPayouts, payPayout, runPayoutBatch } from '../controllers/earnings.controllers';
+import { listSosAlerts, resolveSosAlert } from '../controllers/safety.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize admin router
+const router = express.Router();
+
+/**
+ * Driver Review Routes
+ * These routes are only accessible to administrators
+ */
+router.get(
+  '/drivers',
+  authenticate, // Verify user is authenticated
+  authorize('drivers:review'), // Require driver review permission
+  listDriverApplications, // List driver applications
+);
+
+router.post(
+  '/drivers/:id/approve',
+  authenticate, // Verify user is authenticated
+  authorize('drivers:review'), // Require driver review permission
+  approveDriver, // Approve driver application
+);
+
+router.post(
+  '/drivers/:id/reject',
+  authenticate, // Verify user is authenticated
+  authorize('drivers:review'), // Require driver review permission
+  rejectDriver, // Reject driver application
+);
+
+router.post(
+  '/drivers/:id/request-resubmission',
+  authenticate, // Verify user is authenticated
+  authorize('drivers:review'), // Require driver review permission
+  requestDocumentResubmission, // Request document resubmission
+);
+
+/**
+ * Rating Review Routes
+ * These routes are only accessible to administrators
+ */
+router.get(
+  '/ratings/low',
+  authenticate, // Verify user is authenticated
+  authorize('ratings:review'), // Require rating review permission
+  listLowRatedAccounts, // List low-rated accounts
+);
+
+/**
+ * Cancellation Review Routes
+ * These routes are only accessible to administrators
+ */
+router.get(
+  '/cancellations/flagged-drivers',
+  authenticate, // Verify user is authenticated
+  authorize('drivers:review'), // Require driver review permission
+  listCancellationFlaggedDrivers, // List flagged drivers
+);
+
+router.post(
+  '/cancellations/flagged-drivers/:id/clear',
+  authenticate, // Verify user is authenticated
+  authorize('drivers:review'), // Require driver review permission
+  clearDriverCancellationFlag, // Clear cancellation flag
+);
+
+/**
+ * Safety Routes
+ * These routes are only accessible to administrators
+ */
+router.get(
+  '/sos',
+  authenticate, // Verify user is authenticated
+  authorize('safety:manage'), // Require safety permission
+  listSosAlerts, // List SOS alerts
+);
+
+router.post(
+  '/sos/:id/resolve',
+  authenticate, // Verify user is authenticated
+  authorize('safety:manage'), // Require safety permission
+  resolveSosAlert, // Resolve SOS alert
+);
+
+/**
+ * Promo Code Routes
+ * These routes are only accessible to administrators
+ */
+router.post(
+  '/promos',
+  authenticate, // Verify user is authenticated
+  authorize('promos:manage'), // Require promo management permission
+  createPromoCode, // Create promo code
+);
+
+router.get(
+  '/promos',
+  authenticate, // Verify user is authenticated
+  authorize('promos:manage'), // Require promo management permission
+  listPromoCodes, // List promo codes
+);
+
+router.put(
+  '/promos/:id',
+  authenticate, // Verify user is authenticated
+  authorize('promos:manage'), // Require promo management permission
+  updatePromoCode, // Update promo code
+);
+
+/**
+ * Ledger Routes
+ * These routes are only accessible to administrators
+ */
+router.post(
+  '/rides/:id/refund',
+  authenticate, // Verify user is authenticated
+  authorize('ledger:manage'), // Require ledger permission
+  refundRideToWallet, // Refund ride to wallet
+);
+
+router.get(
+  '/ledger/reconciliation',
+  authenticate, // Verify user is authenticated
+  authorize('ledger:manage'), // Require ledger permission
+  getLedgerReconciliation, // Reconcile ledger
+);
+
+/**
+ * Payout Routes
+ * These routes are only accessible to administrators
+ */
+router.get(
+  '/payouts',
+  authenticate, // Verify user is authenticated
+  authorize('payouts:manage'), // Require payout management permission
+  listPayouts, // List payout statements
+);
+
+router.post(
+  '/payouts/batch',
+  authenticate, // Verify user is authenticated
+  authorize('payouts:manage'), // Require payout management permission
+  runPayoutBatch, // Generate weekly statements
+);
+
+router.post(
+  '/payouts/:id/paid',
+  authenticate, // Verify user is authenticated
+  authorize('payouts:manage'), // Require payout management permission
+  payPayout, // Mark payout paid
+);
+
+router.get(
+  '/payouts/:id/statement',
+  authenticate, // Verify user is authenticated
+  authorize('payouts:manage'), // Require payout management permission
+  downloadPayoutStatement, // Download statement CSV
+);
+
+export default router;
@@ -1,27 +1,46 @@
 /**
  * Authentication Routes Module
  * Handles all authentication-related routes including sign up, sign in, sign out,
- * and token refresh operations.
+ * and token refresh operations. Sign-in and the routes that send or check OTPs are rate limited (see RATE_LIMITS).
  *
  * Routes:
  * - POST /auth/sign-up: Register new user with avatar upload
  * - POST /auth/sign-in: Authenticate existing user
  * - POST /auth/sign-out: End user session (requires authentication)
+ * - POST /auth/sign-out-all: Sign out of every device (requires authentication)
  * - POST /auth/refresh-token: Get new access token using refresh token
+ * - GET /auth/sessions: List signed-in devices (requires authentication)
+ * - DELETE /auth/sessions/:id: Sign out one device (requires authentication)
+ * - POST /auth/phone/request-otp: Text a sign-in OTP to a verified phone number
+ * - POST /auth/phone/verify: Sign in with a phone OTP
+ * - POST /auth/phone/verification/request-otp: Text an OTP to verify a phone number (requires authentication)
+ * - POST /auth/phone/verification/confirm: Verify a phone number with its OTP (requires authentication)
+ * - POST /auth/change-password: Change the signed-in user's password (requires authentication)
  */
 
 import express from 'express';
 import {
   changePassword,
+  confirmPhoneVerification,
   forgotPassword,
-  refreshAccessToken, resetPassword,
+  listSessions,
+  refreshAccessToken,
+  requestPhoneOtp,
+  requestPhoneVerification,
+  resetPassword,
+  revokeSessionById,
   signIn,
   signOut,
+  signOutEverywhere,
   signUp,
-  verifyEmail, verifyOTP,
+  verifyEmail,
+  verifyOTP,
+  verifyPhoneOtp,
 } from '../controllers/auth.controllers';
 import upload from '../middlewares/multer.middleware';
-import verifyJWTMiddleware from '../middlewares/verifyJWT.middleware';
+import rateLimitMiddleware from '../middlewares/rate-limit.middleware';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { normalisePhoneNumber } from '../utils/phone.utils';
 
 // Initialize auth router
 const router = express.Router();
@@ -38,21 +57,25 @@ router.post(
 
 router.post(
   '/sign-in',
+  rateLimitMiddleware('signIn'), // Limit attempts per IP and email
   signIn, // Authenticate user credentials
 );
 
 router.post(
   '/forgot-password',
+  rateLimitMiddleware('forgotPassword'), // Limit OTP emails per IP and email
   forgotPassword, // Forgot user password
 )
 
 router.post(
   '/verify-otp',
+  rateLimitMiddleware('verifyOtp'), // Limit OTP guesses per IP and email
   verifyOTP, // Verify otp
 )
 
 router.post(
   '/verify-email',
+  rateLimitMiddleware('verifyEmail'), // Limit OTP emails per IP and email
   verifyEmail, // Verify Email
 )
 
@@ -61,16 +84,50 @@ router.post(
   resetPassword, // Reset password
 )
 
+router.post(
+  '/phone/request-otp',
+  rateLimitMiddleware('requestPhoneOtp', (req) => normalisePhoneNumber(req.body?.phone_number)), // Limit SMS per IP and number
+  requestPhoneOtp, // Text sign-in OTP
+);
+
+router.post(
+  '/phone/verify',
+  rateLimitMiddleware('verifyPhoneOtp', (req) => normalisePhoneNumber(req.body?.phone_number)), // Limit OTP guesses per IP and number
+  verifyPhoneOtp, // Sign in with phone OTP
+);
+
 /**
  * Protected Routes
  * These routes require valid JWT authentication
  */
 router.post(
   '/sign-out',
-  verifyJWTMiddleware, // Verify user is authenticated
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
   signOut, // Process user sign out
 );
 
+router.post(
+  '/sign-out-all',
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
+  signOutEverywhere, // Sign out of every device
+);
+
+router.get(
+  '/sessions',
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
+  listSessions, // List signed-in devices
+);
+
+router.delete(
+  '/sessions/:id',
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
+  revokeSessionById, // Sign out one device
+);
+
 router.post(
   '/refresh-token',
   refreshAccessToken, // Issue new access token
@@ -78,8 +135,24 @@ router.post(
 
 router.post(
   '/change-password',
-  verifyJWTMiddleware, // Verify user is authenticated
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
+  rateLimitMiddleware('changePassword', (req) => req.user.id), // Limit attempts per IP and account
   changePassword, // Change Password
 )
 
+router.post(
+  '/phone/verification/request-otp',
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
+  requestPhoneVerification, // Text phone verification OTP
+);
+
+router.post(
+  '/phone/verification/confirm',
+  authenticate, // Verify user is authenticated
+  authorize('account:manage'), // Require account management permission
+  confirmPhoneVerification, // Verify phone number
+);
+
 export default router;
@@ -0,0 +1,148 @@
+/**
+ * Driver Routes Module
+ * Handles driver onboarding and driver-only operations.
+ *
+ * Routes:
+ * - POST /driver/sign-up: Register new driver with vehicle details and documents
+ * - GET /driver/me: Get the authenticated driver's profile and application status
+ * - PUT /driver/documents: Resubmit documents requested by an admin
+ * - POST /driver/online: Go online (approved drivers)
+ * - POST /driver/offline: Go offline (approved drivers)
+ * - PUT /driver/intercity: Opt in to or out of intercity trips (approved drivers)
+ * - POST /driver/location: Send a live location ping (approved drivers)
+ * - GET /driver/offers: List pending ride offers (approved drivers)
+ * - GET /driver/pool: Get the active pool's stops in driving order (approved drivers)
+ * - GET /driver/earnings: Daily and weekly earnings summaries (approved drivers)
+ * - GET /driver/payouts: List payout statements (approved drivers)
+ * - GET /driver/payouts/:id/statement: Download a payout statement as CSV (approved drivers)
+ */
+
+import express from 'express';
+import {
+  getActivePool,
+  getDriverProfile,
+  getPendingOffers,
+  goOffline,
+  goOnline,
+  resubmitDocuments,
+  signUp,
+  updateDriverLocation,
+  updateIntercityPreference,
+} from '../controllers/driver.controllers';
+import {
+  downloadDriverPayoutStatement,
+  getDriverEarnings,
+  listDriverPayouts,
+} from '../controllers/earnings.controllers';
+import upload from '../middlewares/multer.middleware';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize driver router
+const router = express.Router();
+
+/**
+ * Public Routes
+ * These routes do not require authentication
+ */
+router.post(
+  '/sign-up',
+  upload.fields([
+    { name: 'avatar', maxCount: 1 },
+    { name: 'licence', maxCount: 1 },
+    { name: 'registration', maxCount: 1 },
+    { name: 'insurance', maxCount: 1 },
+  ]), // Handle avatar and document uploads
+  signUp, // Process driver registration
+);
+
+/**
+ * Applicant Routes
+ * These routes are accessible to drivers whose application is not yet approved
+ */
+router.get(
+  '/me',
+  authenticate, // Verify user is authenticated
+  authorize('driver_profile:manage'), // Require driver profile permission
+  getDriverProfile, // Get driver profile and status
+);
+
+router.put(
+  '/documents',
+  authenticate, // Verify user is authenticated
+  authorize('driver_profile:manage'), // Require driver profile permission
+  upload.fields([
+    { name: 'licence', maxCount: 1 },
+    { name: 'registration', maxCount: 1 },
+    { name: 'insurance', maxCount: 1 },
+  ]), // Handle document uploads
+  resubmitDocuments, // Replace requested documents
+);
+
+/**
+ * Driver Routes
+ * These routes are only accessible to approved drivers
+ */
+router.post(
+  '/online',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  goOnline, // Start accepting rides
+);
+
+router.post(
+  '/offline',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  goOffline, // Stop accepting rides
+);
+
+router.put(
+  '/intercity',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  updateIntercityPreference, // Opt in to or out of intercity trips
+);
+
+router.post(
+  '/location',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  updateDriverLocation, // Record live location ping
+);
+
+router.get(
+  '/offers',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  getPendingOffers, // List pending ride offers
+);
+
+router.get(
+  '/pool',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  getActivePool, // Get active pool route
+);
+
+router.get(
+  '/earnings',
+  authenticate, // Verify user is authenticated
+  authorize('earnings:view'), // Require approved driver earnings access
+  getDriverEarnings, // Get earnings summaries
+);
+
+router.get(
+  '/payouts',
+  authenticate, // Verify user is authenticated
+  authorize('earnings:view'), // Require approved driver earnings access
+  listDriverPayouts, // List payout statements
+);
+
+router.get(
+  '/payouts/:id/statement',
+  authenticate, // Verify user is authenticated
+  authorize('earnings:view'), // Require approved driver earnings access
+  downloadDriverPayoutStatement, // Download statement CSV
+);
+
+export default router;
@@ -0,0 +1,80 @@
+/**
+ * Emergency Contact Routes Module
+ * Handles a rider's emergency contacts.
+ *
+ * Routes:
+ * - GET /user/emergency-contacts: List emergency contacts (passengers)
+ * - POST /user/emergency-contacts: Add an emergency contact (passengers)
+ * - PUT /user/emergency-contacts/:id: Update an emergency contact (passengers)
+ * - DELETE /user/emergency-contacts/:id: Delete an emergency contact (passengers)
+ * - POST /user/emergency-contacts/:id/confirmation: Email a contact a new confirmation link (passengers)
+ * - POST /user/emergency-contacts/confirm/:token: Confirm a contact's email address (public)
+ */
+
+import express from 'express';
+import {
+  confirmEmergencyContactByToken,
+  createEmergencyContact,
+  deleteEmergencyContact,
+  listEmergencyContacts,
+  resendEmergencyContactConfirmation,
+  updateEmergencyContact,
+} from '../controllers/emergency-contact.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+import rateLimitMiddleware from '../middlewares/rate-limit.middleware';
+
+// Initialize emergency contact router
+const router = express.Router();
+
+/**
+ * Emergency Contact Routes
+ * These routes are only accessible to passengers
+ */
+router.get(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('emergency_contacts:manage'), // Require emergency contact permission
+  listEmergencyContacts, // List emergency contacts
+);
+
+router.post(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('emergency_contacts:manage'), // Require emergency contact permission
+  rateLimitMiddleware('emergencyContactInvite', (req) => req.user.id), // Limit confirmation emails per rider
+  createEmergencyContact, // Add emergency contact
+);
+
+router.put(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('emergency_contacts:manage'), // Require emergency contact permission
+  rateLimitMiddleware('emergencyContactInvite', (req) => req.user.id), // Limit confirmation emails per rider
+  updateEmergencyContact, // Update emergency contact
+);
+
+router.delete(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('emergency_contacts:manage'), // Require emergency contact permission
+  deleteEmergencyContact, // Delete emergency contact
+);
+
+router.post(
+  '/:id/confirmation',
+  authenticate, // Verify user is authenticated
+  authorize('emergency_contacts:manage'), // Require emergency contact permission
+  rateLimitMiddleware('emergencyContactInvite', (req) => req.user.id), // Limit confirmation emails per rider
+  resendEmergencyContactConfirmation, // Resend confirmation link
+);
+
+/**
+ * Public Routes
+ * These routes require no authentication; the token in the link grants access
+ */
+router.post(
+  '/confirm/:token',
+  confirmEmergencyContactByToken, // Confirm emergency contact
+);
+
+export default router;
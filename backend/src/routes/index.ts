@@ -7,12 +7,30 @@
 import express from 'express';
 import authRoutes from './auth.routes';
 import userRoutes from './user.routes';
+import savedPlaceRoutes from './saved-place.routes';
+import emergencyContactRoutes from './emergency-contact.routes';
+import rideRoutes from './ride.routes';
+import reservationRoutes from './reservation.routes';
+import intercityRoutes from './intercity.routes';
+import driverRoutes from './driver.routes';
+import adminRoutes from './admin.routes';
+import walletRoutes from './wallet.routes';
+import trackRoutes from './track.routes';
 
 // Initialize the main router
 const router = express.Router();
 
 // Mount route modules
 router.use('/auth', authRoutes); // Authentication routes (login, register, etc.)
+router.use('/user/places', savedPlaceRoutes); // Saved places and recent destinations
+router.use('/user/emergency-contacts', emergencyContactRoutes); // Emergency contacts alerted on SOS
 router.use('/user', userRoutes); // User management routes (profile, settings, etc.)
+router.use('/driver', driverRoutes); // Driver onboarding and driver-only routes
+router.use('/rides/reservations', reservationRoutes); // Reserve rides booked for a future pickup time
+router.use('/rides/intercity', intercityRoutes); // Intercity one-way and round trips
+router.use('/rides', rideRoutes); // Ride lifecycle routes (request, accept, start, complete, cancel)
+router.use('/wallet', walletRoutes); // Wallet balance, history and top-ups
+router.use('/track', trackRoutes); // Public trip tracking links
+router.use('/admin', adminRoutes); // Administrator routes (driver review queue, etc.)
 
 export default router;
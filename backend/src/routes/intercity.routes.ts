@@ -0,0 +1,53 @@
+/**
+ * Intercity Routes Module
+ * Handles intercity trips booked one way or as a round trip.
+ *
+ * Routes:
+ * - POST /rides/intercity/estimate: Estimate intercity fares per vehicle type
+ * - POST /rides/intercity: Book an intercity trip (passengers)
+ * - GET /rides/intercity/:id: Get an intercity booking (owner and admins)
+ *
+ * Bookings are cancelled through DELETE /rides/reservations/:id.
+ */
+
+import express from 'express';
+import { bookIntercityRide, estimateIntercityFare, getIntercityBooking } from '../controllers/intercity.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize intercity router
+const router = express.Router();
+
+/**
+ * Fare Routes
+ * These routes require authentication
+ */
+router.post(
+  '/estimate',
+  authenticate, // Verify user is authenticated
+  authorize('fares:estimate'), // Require fare estimate permission
+  estimateIntercityFare, // Estimate intercity fares
+);
+
+/**
+ * Rider Routes
+ * These routes are only accessible to passengers
+ */
+router.post(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  bookIntercityRide, // Book intercity trip
+);
+
+/**
+ * Owner Routes
+ * These routes are accessible to the booking's rider and admins
+ */
+router.get(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  getIntercityBooking, // Get intercity booking
+);
+
+export default router;
@@ -0,0 +1,56 @@
+/**
+ * Reservation Routes Module
+ * Handles reserve rides booked for a future pickup time.
+ *
+ * Routes:
+ * - POST /rides/reservations: Book a reserve ride (passengers)
+ * - GET /rides/reservations: List upcoming reservations (passengers)
+ * - PUT /rides/reservations/:id: Change a reservation before dispatch (passengers)
+ * - DELETE /rides/reservations/:id: Cancel a reservation before dispatch (passengers)
+ */
+
+import express from 'express';
+import {
+  cancelReservation,
+  createReservation,
+  listUpcomingReservations,
+  updateReservation,
+} from '../controllers/reservation.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize reservation router
+const router = express.Router();
+
+/**
+ * Rider Routes
+ * These routes are only accessible to passengers
+ */
+router.post(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  createReservation, // Book reserve ride
+);
+
+router.get(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  listUpcomingReservations, // List upcoming reservations
+);
+
+router.put(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  updateReservation, // Change reservation
+);
+
+router.delete(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  cancelReservation, // Cancel reservation
+);
+
+export default router;
@@ -0,0 +1,245 @@
+/**
+ * Ride Routes Module
+ * Handles the ride request lifecycle.
+ *
+ * Routes:
+ * - POST /rides/estimate: Estimate fares for every vehicle type
+ * - POST /rides/promos/validate: Check a promo code against a fare estimate (passengers)
+ * - POST /rides: Request a new ride, alone or pooled (passengers)
+ * - GET /rides/quick-replies: List the canned replies drivers can send in the ride chat
+ * - GET /rides/history: List trip history with filters and cursor pagination (riders, drivers and admins)
+ * - GET /rides/history/:id: Get a ride with its status timeline (participants and admins)
+ * - GET /rides/:id: Get ride details (participants and admins)
+ * - POST /rides/:id/accept: Accept a ride offered by dispatch (drivers)
+ * - POST /rides/:id/decline: Decline a ride offered by dispatch (drivers)
+ * - POST /rides/:id/arrive: Mark arrival at pickup (assigned driver)
+ * - POST /rides/:id/start: Start the trip (assigned driver)
+ * - POST /rides/:id/complete: Complete the trip (assigned driver)
+ * - GET /rides/:id/cancellation-fee: Quote the fee for cancelling the ride now (rider)
+ * - POST /rides/:id/cancel: Cancel the ride with a reason, charging the rider's fee after the grace period (participants)
+ * - POST /rides/:id/sos: Raise an SOS during an active ride (rider)
+ * - POST /rides/:id/share: Create a public link to follow the ride live (rider)
+ * - DELETE /rides/:id/share: Revoke the ride's sharing links (rider)
+ * - GET /rides/:id/messages: Get the ride chat (participants and admins)
+ * - POST /rides/:id/messages: Send a chat message or driver quick reply while the ride is active (participants)
+ * - POST /rides/:id/messages/read: Mark the other participant's messages as read (participants)
+ * - POST /rides/:id/rating: Rate the other participant of a completed ride (participants)
+ * - GET /rides/:id/ratings: Get the ratings given for a ride (participants and admins)
+ * - GET /rides/:id/receipt: Download the receipt of a completed ride, or a cancellation fee, as PDF (participants and admins)
+ */
+
+import express from 'express';
+import {
+  acceptRide,
+  cancelRide,
+  completeRide,
+  declineRide,
+  estimateRideFare,
+  getCancellationFee,
+  getRideById,
+  markDriverArrived,
+  requestRide,
+  startRide,
+} from '../controllers/ride.controllers';
+import { getRideRatings, rateRide } from '../controllers/rating.controllers';
+import { validatePromoCode } from '../controllers/promo.controllers';
+import { downloadRideReceipt } from '../controllers/receipt.controllers';
+import { getRideHistoryDetail, listRideHistory } from '../controllers/ride-history.controllers';
+import { revokeTripShares, shareTrip, triggerSos } from '../controllers/safety.controllers';
+import {
+  listQuickReplies,
+  listRideMessages,
+  markRideMessagesRead,
+  sendRideMessage,
+} from '../controllers/chat.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize ride router
+const router = express.Router();
+
+/**
+ * Fare Routes
+ * These routes require authentication
+ */
+router.post(
+  '/estimate',
+  authenticate, // Verify user is authenticated
+  authorize('fares:estimate'), // Require fare estimate permission
+  estimateRideFare, // Estimate fares per vehicle type
+);
+
+/**
+ * Rider Routes
+ * These routes are only accessible to passengers
+ */
+router.post(
+  '/promos/validate',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  validatePromoCode, // Check promo code against estimate
+);
+
+router.post(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('rides:book'), // Require ride booking permission
+  requestRide, // Create ride request
+);
+
+/**
+ * Chat Routes
+ * These routes require authentication and are registered before /:id so "quick-replies" is not read as a ride ID
+ */
+router.get(
+  '/quick-replies',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  listQuickReplies, // List driver quick replies
+);
+
+/**
+ * History Routes
+ * These routes require authentication and are registered before /:id so "history" is not read as a ride ID
+ */
+router.get(
+  '/history',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  listRideHistory, // List trip history
+);
+
+router.get(
+  '/history/:id',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  getRideHistoryDetail, // Get ride with timeline
+);
+
+/**
+ * Participant Routes
+ * These routes are accessible to the ride's rider and driver
+ */
+router.get(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  getRideById, // Get single ride
+);
+
+router.get(
+  '/:id/cancellation-fee',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  getCancellationFee, // Quote cancellation fee
+);
+
+router.post(
+  '/:id/cancel',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  cancelRide, // Cancel ride
+);
+
+router.post(
+  '/:id/sos',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  triggerSos, // Raise SOS alert
+);
+
+router.post(
+  '/:id/share',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  shareTrip, // Create trip sharing link
+);
+
+router.delete(
+  '/:id/share',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  revokeTripShares, // Revoke trip sharing links
+);
+
+router.get(
+  '/:id/messages',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  listRideMessages, // Get ride chat
+);
+
+router.post(
+  '/:id/messages',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  sendRideMessage, // Send chat message
+);
+
+router.post(
+  '/:id/messages/read',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  markRideMessagesRead, // Mark messages as read
+);
+
+router.post(
+  '/:id/rating',
+  authenticate, // Verify user is authenticated
+  authorize('rides:participate'), // Require ride participant permission
+  rateRide, // Rate the other participant
+);
+
+router.get(
+  '/:id/ratings',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  getRideRatings, // Get ride ratings
+);
+
+router.get(
+  '/:id/receipt',
+  authenticate, // Verify user is authenticated
+  authorize('rides:view'), // Require ride view permission
+  downloadRideReceipt, // Download receipt PDF
+);
+
+/**
+ * Driver Routes
+ * These routes are only accessible to drivers
+ */
+router.post(
+  '/:id/accept',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  acceptRide, // Assign ride to driver
+);
+
+router.post(
+  '/:id/decline',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  declineRide, // Pass ride to next driver
+);
+
+router.post(
+  '/:id/arrive',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  markDriverArrived, // Mark driver arrived
+);
+
+router.post(
+  '/:id/start',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  startRide, // Start trip
+);
+
+router.post(
+  '/:id/complete',
+  authenticate, // Verify user is authenticated
+  authorize('rides:drive'), // Require approved driver
+  completeRide, // Complete trip
+);
+
+export default router;
@@ -0,0 +1,65 @@
+/**
+ * Saved Place Routes Module
+ * Handles a rider's saved places and recent destinations.
+ *
+ * Routes:
+ * - GET /user/places: List saved places (passengers)
+ * - POST /user/places: Save a place (passengers)
+ * - GET /user/places/recent: List recent drop locations (passengers)
+ * - PUT /user/places/:id: Update a saved place (passengers)
+ * - DELETE /user/places/:id: Delete a saved place (passengers)
+ */
+
+import express from 'express';
+import {
+  createSavedPlace,
+  deleteSavedPlace,
+  listRecentDestinations,
+  listSavedPlaces,
+  updateSavedPlace,
+} from '../controllers/saved-place.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize saved place router
+const router = express.Router();
+
+/**
+ * Saved Place Routes
+ * These routes are only accessible to passengers
+ */
+router.get(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('places:manage'), // Require saved place permission
+  listSavedPlaces, // List saved places
+);
+
+router.post(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('places:manage'), // Require saved place permission
+  createSavedPlace, // Save a place
+);
+
+router.get(
+  '/recent',
+  authenticate, // Verify user is authenticated
+  authorize('places:manage'), // Require saved place permission
+  listRecentDestinations, // List recent destinations
+);
+
+router.put(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('places:manage'), // Require saved place permission
+  updateSavedPlace, // Update saved place
+);
+
+router.delete(
+  '/:id',
+  authenticate, // Verify user is authenticated
+  authorize('places:manage'), // Require saved place permission
+  deleteSavedPlace, // Delete saved place
+);
+
+export default router;
@@ -0,0 +1,24 @@
+/**
+ * Track Routes Module
+ * Handles public trip tracking links shared by riders.
+ *
+ * Routes:
+ * - GET /track/:token: Follow a shared trip live (public)
+ */
+
+import express from 'express';
+import { getSharedTripByToken } from '../controllers/safety.controllers';
+
+// Initialize track router
+const router = express.Router();
+
+/**
+ * Public Routes
+ * These routes require no authentication; the token in the link grants access
+ */
+router.get(
+  '/:token',
+  getSharedTripByToken, // Get shared trip
+);
+
+export default router;
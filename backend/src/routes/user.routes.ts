@@ -6,16 +6,14 @@
  * Routes:
  * - GET /user/all-users: List all users (admin only)
  * - GET /user/:id: Get user profile by ID
- * - PUT /user/:id: Update user profile
- * - DELETE /user/:id: Delete user account
+ * - PUT /user/:id: Update own user profile (passengers and drivers)
+ * - DELETE /user/:id: Delete own user account (passengers and drivers)
  */
 
 import express from 'express';
 import { deleteProfileById, getAllUsers, getUserById, updateProfileById } from '../controllers/user.controllers';
-import adminMiddleware from '../middlewares/admin.middleware';
-import nonAdminMiddleware from '../middlewares/non-admin.middleware';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
 import upload from '../middlewares/multer.middleware';
-import verifyJWTMiddleware from '../middlewares/verifyJWT.middleware';
 
 // Initialize user router
 const router = express.Router();
@@ -26,7 +24,8 @@ const router = express.Router();
  */
 router.get(
   '/all-users',
-  adminMiddleware, // Verify admin privileges
+  authenticate, // Verify user is authenticated
+  authorize('users:list'), // Require user listing permission
   getAllUsers, // Retrieve all user records
 );
 
@@ -36,20 +35,23 @@ router.get(
  */
 router.get(
   '/:id',
-  verifyJWTMiddleware, // Verify user is authenticated
+  authenticate, // Verify user is authenticated
+  authorize('profile:view'), // Require profile view permission
   getUserById, // Get single user profile
 );
 
 router.put(
   '/:id',
-  nonAdminMiddleware, // Ensure user is not an admin
+  authenticate, // Verify user is authenticated
+  authorize('profile:edit'), // Require profile edit permission
   upload.single('avatar'), // Handle avatar file upload
   updateProfileById, // Process profile update
 );
 
 router.delete(
   '/:id',
-  nonAdminMiddleware, // Ensure user is not an admin
+  authenticate, // Verify user is authenticated
+  authorize('profile:edit'), // Require profile edit permission
   deleteProfileById, // Process account deletion
 );
 
@@ -0,0 +1,43 @@
+/**
+ * Wallet Routes Module
+ * Handles the authenticated user's wallet.
+ *
+ * Routes:
+ * - GET /wallet: Get wallet balance
+ * - GET /wallet/transactions: List wallet entries, newest first
+ * - POST /wallet/top-up: Add money through the payment provider
+ */
+
+import express from 'express';
+import { getWallet, listWalletTransactions, topUp } from '../controllers/wallet.controllers';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+// Initialize wallet router
+const router = express.Router();
+
+/**
+ * Wallet Routes
+ * These routes require authentication
+ */
+router.get(
+  '/',
+  authenticate, // Verify user is authenticated
+  authorize('wallet:use'), // Require wallet permission
+  getWallet, // Get wallet balance
+);
+
+router.get(
+  '/transactions',
+  authenticate, // Verify user is authenticated
+  authorize('wallet:use'), // Require wallet permission
+  listWalletTransactions, // List wallet entries
+);
+
+router.post(
+  '/top-up',
+  authenticate, // Verify user is authenticated
+  authorize('wallet:use'), // Require wallet permission
+  topUp, // Add money to wallet
+);
+
+export default router;
@@ -0,0 +1,60 @@
+/**
+ * Account Lock Service
+ * Locks password sign-in for ACCOUNT_LOCK_MINUTES after SIGN_IN_MAX_FAILED_ATTEMPTS
+ * wrong passwords in a row, and emails the user when that happens. Phone OTP sign-in
+ * and password reset keep working, so guessing passwords cannot lock the owner out
+ * of every way in.
+ */
+
+import pool from '../db/db';
+import { sendAccountLockedEmail } from '../emails/send-account-locked.email';
+import { ACCOUNT_LOCK_MINUTES, SIGN_IN_MAX_FAILED_ATTEMPTS } from '../constants';
+import { UserType } from '../types/user.type';
+
+/**
+ * Works out how long password sign-in stays locked
+ * @param lockedUntil - End of the user's lock, if any
+ * @returns Seconds until the lock ends, or 0 if the account is not locked
+ */
+export const getLockRetryAfterSeconds = (lockedUntil: Date | null): number =>
+  lockedUntil ? Math.max(0, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000)) : 0;
+
+/**
+ * Counts a wrong password and locks the account once the limit is reached
+ * The count starts over when the account is locked.
+ * @param user - User whose password was wrong
+ * @returns Promise resolving to the end of the lock if this attempt locked the account, otherwise null
+ */
+export const recordFailedSignIn = async (user: UserType): Promise<Date | null> => {
+  const { rows } = await pool.query(
+    `UPDATE users
+     SET failed_sign_in_count = CASE WHEN failed_sign_in_count + 1 >= $2 THEN 0 ELSE failed_sign_in_count + 1 END,
+         locked_until = CASE
+           WHEN failed_sign_in_count + 1 >= $2 THEN NOW() + make_interval(mins => $3)
+           ELSE locked_until
+         END
+     WHERE id = $1
+     RETURNING failed_sign_in_count = 0 AS locked, locked_until`,
+    [user.id, SIGN_IN_MAX_FAILED_ATTEMPTS, ACCOUNT_LOCK_MINUTES],
+  );
+  if (!rows[0]?.locked) return null;
+
+  const lockedUntil = new Date(rows[0].locked_until);
+  sendAccountLockedEmail({ name: `${user.firstname} ${user.lastname}`, email: user.email }, lockedUntil).catch((err) =>
+    console.error(`Error sending account locked email to user ${user.id}:`, err),
+  );
+
+  return lockedUntil;
+};
+
+/**
+ * Forgets failed sign-ins and lifts any lock, after a successful sign-in or password reset
+ * @param userId - User ID
+ */
+export const clearFailedSignIns = async (userId: string): Promise<void> => {
+  await pool.query(
+    `UPDATE users SET failed_sign_in_count = 0, locked_until = NULL
+     WHERE id = $1 AND (failed_sign_in_count > 0 OR locked_until IS NOT NULL)`,
+    [userId],
+  );
+};
@@ -0,0 +1,158 @@
+/**
+ * Cancellation Service
+ * Applies the cancellation policy of each ride option. Riders cancel for free before
+ * a driver is assigned and during the grace period after it; later they pay a fee that
+ * grows with how far the driver has already driven towards the pickup. Drivers who
+ * cancel too often within DRIVER_CANCELLATION_WINDOW_DAYS are flagged for review.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { haversineDistanceKm } from '../utils/geo.utils';
+import { roundTo2 } from '../utils/fare-calculator.utils';
+import { getLatestDriverLocation } from './driver-location.service';
+import { recordCancellationFeeEarnings } from './earnings.service';
+import {
+  CANCELLATION_POLICIES,
+  DRIVER_CANCELLATION_FLAG_THRESHOLD,
+  DRIVER_CANCELLATION_WINDOW_DAYS,
+  ROAD_DISTANCE_FACTOR,
+} from '../constants';
+import { RideType } from '../types/ride.type';
+import {
+  CancellationFeeQuote,
+  CancellationReason,
+  CancellerRole,
+  RideCancellationType,
+} from '../types/cancellation.type';
+
+/**
+ * Estimates how far the assigned driver has driven towards the pickup since accepting the ride
+ * Measured from the distance on the accepted offer to the driver's latest position. A driver
+ * who has arrived has driven the whole way.
+ * @param db - Pool or transaction client
+ * @param ride - Ride with an assigned driver
+ * @returns Promise resolving to the approximate road distance in kilometres
+ */
+const getDriverTravelledKm = async (db: Pool | PoolClient, ride: RideType): Promise<number> => {
+  const offer = await db.query(
+    `SELECT distance_km FROM ride_offers
+     WHERE ride_id = $1 AND driver_id = $2 AND status = 'accepted'
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [ride.id, ride.driver_id],
+  );
+  if (offer.rowCount === 0) return 0;
+
+  const offerDistanceKm = Number(offer.rows[0].distance_km);
+  if (ride.driver_arrived_at) {
+    return roundTo2(offerDistanceKm * ROAD_DISTANCE_FACTOR);
+  }
+
+  const location = await getLatestDriverLocation(ride.driver_id!);
+  if (!location) return 0;
+
+  const remainingKm = haversineDistanceKm(location.lat, location.lng, Number(ride.pickup_lat), Number(ride.pickup_lng));
+  return roundTo2(Math.max(0, offerDistanceKm - remainingKm) * ROAD_DISTANCE_FACTOR);
+};
+
+/**
+ * Works out the fee a rider pays to cancel a ride
+ * A cancelled ride is quoted as of its cancellation time, any other ride as of now.
+ * @param db - Pool or transaction client
+ * @param ride - Ride being cancelled
+ * @returns Promise resolving to the fee and how it was reached
+ */
+export const quoteCancellationFee = async (db: Pool | PoolClient, ride: RideType): Promise<CancellationFeeQuote> => {
+  if (!ride.driver_id || !ride.driver_assigned_at) {
+    return { fee: 0, within_grace: true, grace_ends_at: null, driver_travelled_km: 0 };
+  }
+
+  const policy = CANCELLATION_POLICIES[ride.ride_option];
+  const graceEndsAt = new Date(new Date(ride.driver_assigned_at).getTime() + policy.graceMinutes * 60000);
+  const cancelledAt = ride.cancelled_at ? new Date(ride.cancelled_at) : new Date();
+
+  if (cancelledAt <= graceEndsAt) {
+    return { fee: 0, within_grace: true, grace_ends_at: graceEndsAt, driver_travelled_km: 0 };
+  }
+
+  const travelledKm = await getDriverTravelledKm(db, ride);
+  return {
+    fee: roundTo2(Math.min(policy.maxFee, policy.baseFee + policy.perKmFee * travelledKm)),
+    within_grace: false,
+    grace_ends_at: graceEndsAt,
+    driver_travelled_km: travelledKm,
+  };
+};
+
+/**
+ * Flags a driver for review once they cancelled too many rides
+ * Only cancellations since an admin last cleared the flag are counted.
+ * @param client - Transaction client
+ * @param driverId - User ID of the driver
+ */
+const flagRepeatCanceller = async (client: PoolClient, driverId: string): Promise<void> => {
+  await client.query(
+    `UPDATE drivers d
+     SET cancellation_flagged_at = NOW(), updated_at = NOW()
+     WHERE d.user_id = $1
+       AND d.cancellation_flagged_at IS NULL
+       AND (SELECT COUNT(*)
+            FROM ride_cancellations c
+            WHERE c.cancelled_by = d.user_id
+              AND c.canceller_role = 'driver'
+              AND c.created_at > GREATEST(NOW() - make_interval(days => $2),
+                                          COALESCE(d.cancellation_flag_cleared_at, '-infinity'))) >= $3`,
+    [driverId, DRIVER_CANCELLATION_WINDOW_DAYS, DRIVER_CANCELLATION_FLAG_THRESHOLD],
+  );
+};
+
+/**
+ * Records why and by whom a ride was cancelled and applies the cancellation policy
+ * A rider past the grace period is charged the fee from their wallet and the driver
+ * earns their share of it; a cancelling driver may be flagged.
+ * Must run in the transaction that cancels the ride.
+ * @param client - Transaction client
+ * @param ride - Cancelled ride
+ * @param role - Whether the rider or the driver cancelled
+ * @param reason - Reason picked by the canceller
+ * @param note - Free-text details (optional)
+ * @returns Promise resolving to the recorded cancellation
+ */
+export const recordRideCancellation = async (
+  client: PoolClient,
+  ride: RideType,
+  role: CancellerRole,
+  reason: CancellationReason,
+  note: string | null,
+): Promise<RideCancellationType> => {
+  const quote =
+    role === 'rider'
+      ? await quoteCancellationFee(client, ride)
+      : { fee: 0, within_grace: false, grace_ends_at: null, driver_travelled_km: 0 };
+
+  const { rows } = await client.query(
+    `INSERT INTO ride_cancellations (ride_id, cancelled_by, canceller_role, reason, note, fee, driver_travelled_km, within_grace)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      ride.id,
+      role === 'rider' ? ride.rider_id : ride.driver_id,
+      role,
+      reason,
+      note,
+      quote.fee,
+      quote.driver_travelled_km,
+      quote.within_grace,
+    ],
+  );
+
+  if (quote.fee > 0) {
+    await recordCancellationFeeEarnings(client, ride, quote.fee);
+  }
+
+  if (role === 'driver') {
+    await flagRepeatCanceller(client, ride.driver_id!);
+  }
+
+  return rows[0];
+};
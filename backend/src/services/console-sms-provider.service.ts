@@ -0,0 +1,30 @@
+/**
+ * Console SMS Provider Service
+ * Offline SMS provider for local runs. It never contacts an SMS gateway: every
+ * message is logged to the console and, when SMS_OUTBOX_FILE is set, appended
+ * to that file as one JSON line so OTPs can be read back while testing.
+ */
+
+import { appendFile } from 'fs/promises';
+import { SmsMessage, SmsProvider } from '../types/sms.type';
+
+/**
+ * SMS provider that prints messages instead of sending them
+ *
+ * @example
+ * const provider = new ConsoleSmsProvider('./sms-outbox.log');
+ * await provider.send({ to: '+919876543210', body: 'Your code is 123456' });
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  constructor(private readonly outboxFile?: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`SMS to ${message.to}: ${message.body}`);
+
+    if (this.outboxFile) {
+      await appendFile(this.outboxFile, `${JSON.stringify({ ...message, sent_at: new Date().toISOString() })}\n`);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Driver Location Service
+ * Keeps the latest position of every online driver in memory for cheap lookups
+ * and persists it to driver_locations so it survives restarts.
+ * Online drivers are also kept in a geo grid index used by dispatch for radius searches.
+ */
+
+import pool from '../db/db';
+import { DriverLocation } from '../types/driver-location.type';
+import { VehicleType } from '../types/ride.type';
+import { GeoGridIndex, NearbyPoint } from '../utils/geo-grid-index.utils';
+
+// Latest known position per driver (user ID)
+const latestLocations = new Map<string, DriverLocation>();
+
+// Spatial index of online drivers that have reported a position
+const onlineDriverIndex = new GeoGridIndex<{ vehicleType: VehicleType }>();
+
+/**
+ * Maps a driver_locations row to a DriverLocation
+ * @param row - Database row
+ * @returns Driver location
+ */
+const toDriverLocation = (row: Record<string, unknown>): DriverLocation => ({
+  driverId: row.driver_id as string,
+  lat: Number(row.lat),
+  lng: Number(row.lng),
+  heading: row.heading === null ? null : Number(row.heading),
+  speed: row.speed === null ? null : Number(row.speed),
+  accuracy: row.accuracy === null ? null : Number(row.accuracy),
+  recordedAt: new Date(row.recorded_at as string),
+});
+
+/**
+ * Stores a driver's latest position in memory, in the dispatch index and in the database
+ * @param location - Position reported by the driver
+ * @param vehicleType - Vehicle type of the driver, used to filter dispatch searches
+ * @returns Promise that resolves once the position is persisted
+ */
+export const recordDriverLocation = async (location: DriverLocation, vehicleType: VehicleType): Promise<void> => {
+  latestLocations.set(location.driverId, location);
+  onlineDriverIndex.upsert(location.driverId, location.lat, location.lng, { vehicleType });
+
+  await pool.query(
+    `INSERT INTO driver_locations (driver_id, lat, lng, heading, speed, accuracy, recorded_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (driver_id) DO UPDATE
+     SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, heading = EXCLUDED.heading, speed = EXCLUDED.speed,
+         accuracy = EXCLUDED.accuracy, recorded_at = EXCLUDED.recorded_at, updated_at = NOW()`,
+    [
+      location.driverId,
+      location.lat,
+      location.lng,
+      location.heading,
+      location.speed,
+      location.accuracy,
+      location.recordedAt,
+    ],
+  );
+
+  await pool.query('UPDATE drivers SET last_seen_at = $1 WHERE user_id = $2', [location.recordedAt, location.driverId]);
+};
+
+/**
+ * Returns a driver's latest position, reading through to the database on a cache miss
+ * @param driverId - User ID of the driver
+ * @returns Promise resolving to the latest position or null if none is known
+ */
+export const getLatestDriverLocation = async (driverId: string): Promise<DriverLocation | null> => {
+  const cached = latestLocations.get(driverId);
+  if (cached) return cached;
+
+  const { rows } = await pool.query('SELECT * FROM driver_locations WHERE driver_id = $1 LIMIT 1', [driverId]);
+  if (rows.length === 0) return null;
+
+  const location = toDriverLocation(rows[0]);
+  latestLocations.set(driverId, location);
+  return location;
+};
+
+/**
+ * Forgets a driver's in-memory position, e.g. when the driver goes offline
+ * @param driverId - User ID of the driver
+ */
+export const forgetDriverLocation = (driverId: string): void => {
+  latestLocations.delete(driverId);
+  onlineDriverIndex.remove(driverId);
+};
+
+/**
+ * Finds online drivers of a vehicle type within a radius, nearest first
+ * @param lat - Search centre latitude
+ * @param lng - Search centre longitude
+ * @param radiusKm - Search radius in kilometres
+ * @param vehicleType - Vehicle type the drivers must have
+ * @returns Nearby drivers keyed by user ID with their distance
+ */
+export const findNearbyOnlineDrivers = (
+  lat: number,
+  lng: number,
+  radiusKm: number,
+  vehicleType: VehicleType,
+): NearbyPoint<{ vehicleType: VehicleType }>[] => {
+  return onlineDriverIndex.findWithinRadius(lat, lng, radiusKm, (data) => data.vehicleType === vehicleType);
+};
@@ -0,0 +1,208 @@
+/**
+ * Earnings Service
+ * Splits every completed ride's fare into platform commission and driver earnings,
+ * and groups unpaid earnings into weekly payout statements. Weeks run Monday to
+ * Monday in EARNINGS_TIME_ZONE. Promo discounts are funded by the platform, so
+ * commission is always taken from the fare before the discount.
+ */
+
+import { PoolClient } from 'pg';
+import ApiError from '../utils/api-error.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { roundTo2 } from '../utils/fare-calculator.utils';
+import { chargeCancellationFee, postDriverPayout, settleRideOnLedger } from './ledger.service';
+import { COMMISSION_RATES, EARNINGS_TIME_ZONE } from '../constants';
+import { FareBreakdown, IntercityFareBreakdown } from '../types/fare.type';
+import { RideType, VehicleType } from '../types/ride.type';
+import { CommissionSplit, DriverPayoutType, RideEarningType } from '../types/earnings.type';
+
+/** Arbitrary key serialising payout batches across server instances */
+const PAYOUT_BATCH_LOCK_KEY = 7301;
+
+/**
+ * Splits a fare between the platform and the driver
+ * @param vehicleType - Vehicle type of the ride
+ * @param grossFare - Fare before any promo discount
+ * @param passThroughCharges - Tolls and permits the driver keeps in full
+ * @returns Commission rate, commission amount and driver earnings
+ */
+export const calculateCommissionSplit = (
+  vehicleType: VehicleType,
+  grossFare: number,
+  passThroughCharges = 0,
+): CommissionSplit => {
+  const commissionRate = COMMISSION_RATES[vehicleType];
+  const commissionAmount = roundTo2((Math.max(0, grossFare - passThroughCharges) * commissionRate) / 100);
+
+  return {
+    commission_rate: commissionRate,
+    commission_amount: commissionAmount,
+    driver_earnings: roundTo2(grossFare - commissionAmount),
+  };
+};
+
+/**
+ * Records the commission split of a completed ride and settles it on the ledger
+ * Also records how much of the fare the driver collected in cash.
+ * Must run in the transaction that completes the ride.
+ * @param client - Transaction client
+ * @param ride - Completed ride
+ * @param fare - Final fare, after any promo discount
+ * @returns Promise resolving to the recorded earnings
+ */
+export const recordRideEarnings = async (
+  client: PoolClient,
+  ride: RideType,
+  fare: FareBreakdown | IntercityFareBreakdown,
+): Promise<RideEarningType> => {
+  const discount = fare.discount ?? 0;
+  const grossFare = roundTo2(fare.total + discount);
+  const passThroughCharges = 'toll_charges' in fare ? roundTo2(fare.toll_charges + fare.state_permit_charges) : 0;
+  const split = calculateCommissionSplit(ride.vehicle_type, grossFare, passThroughCharges);
+  const cashCollected = await settleRideOnLedger(client, ride, fare.total, split.driver_earnings);
+
+  const { rows } = await client.query(
+    `INSERT INTO ride_earnings (ride_id, driver_id, vehicle_type, payment_method, gross_fare, discount, fare_total,
+                                pass_through_charges, commission_rate, commission_amount, driver_earnings,
+                                cash_collected, completed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+     RETURNING *`,
+    [
+      ride.id,
+      ride.driver_id,
+      ride.vehicle_type,
+      ride.payment_method,
+      grossFare,
+      discount,
+      fare.total,
+      passThroughCharges,
+      split.commission_rate,
+      split.commission_amount,
+      split.driver_earnings,
+      cashCollected,
+      ride.completed_at,
+    ],
+  );
+
+  return rows[0];
+};
+
+/**
+ * Records the commission split of a rider's cancellation fee and charges it on the ledger
+ * The fee is always taken from the rider's wallet and counts towards the driver's earnings
+ * on the day the ride was cancelled.
+ * Must run in the transaction that cancels the ride.
+ * @param client - Transaction client
+ * @param ride - Cancelled ride
+ * @param fee - Cancellation fee
+ * @returns Promise resolving to the recorded earnings
+ */
+export const recordCancellationFeeEarnings = async (
+  client: PoolClient,
+  ride: RideType,
+  fee: number,
+): Promise<RideEarningType> => {
+  const split = calculateCommissionSplit(ride.vehicle_type, fee);
+
+  const { rows } = await client.query(
+    `INSERT INTO ride_earnings (ride_id, driver_id, vehicle_type, payment_method, gross_fare, fare_total,
+                                commission_rate, commission_amount, driver_earnings, completed_at)
+     VALUES ($1, $2, $3, 'wallet', $4, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      ride.id,
+      ride.driver_id,
+      ride.vehicle_type,
+      fee,
+      split.commission_rate,
+      split.commission_amount,
+      split.driver_earnings,
+      ride.cancelled_at,
+    ],
+  );
+
+  await chargeCancellationFee(client, ride, fee, split.driver_earnings);
+
+  return rows[0];
+};
+
+/**
+ * Generates payout statements for the last full week
+ * Each driver with unpaid earnings completed before the end of that week gets one
+ * statement, which also picks up any earlier earnings not yet on a statement.
+ * Running the batch twice for the same week creates no duplicates.
+ * @returns Promise resolving to the statements created
+ */
+export const generateWeeklyPayouts = async (): Promise<DriverPayoutType[]> => {
+  return withTransaction(async (client) => {
+    await client.query('SELECT pg_advisory_xact_lock($1)', [PAYOUT_BATCH_LOCK_KEY]);
+
+    const period = await client.query(
+      `SELECT (date_trunc('week', NOW() AT TIME ZONE $1) - INTERVAL '7 days') AT TIME ZONE $1 AS period_start,
+              date_trunc('week', NOW() AT TIME ZONE $1) AT TIME ZONE $1 AS period_end`,
+      [EARNINGS_TIME_ZONE],
+    );
+    const { period_start, period_end } = period.rows[0];
+
+    const payouts = await client.query(
+      `INSERT INTO driver_payouts (driver_id, period_start, period_end, ride_count, gross_fare, commission_amount,
+                                   driver_earnings, cash_collected, net_payout)
+       SELECT driver_id, $1, $2, COUNT(*), SUM(gross_fare), SUM(commission_amount), SUM(driver_earnings),
+              SUM(cash_collected), SUM(driver_earnings) - SUM(cash_collected)
+       FROM ride_earnings
+       WHERE payout_id IS NULL AND completed_at < $2
+       GROUP BY driver_id
+       ON CONFLICT (driver_id, period_start) DO NOTHING
+       RETURNING *`,
+      [period_start, period_end],
+    );
+
+    await client.query(
+      `UPDATE ride_earnings re
+       SET payout_id = p.id
+       FROM driver_payouts p
+       WHERE p.id = ANY($1::uuid[]) AND re.driver_id = p.driver_id AND re.payout_id IS NULL AND re.completed_at < $2`,
+      [payouts.rows.map((payout) => payout.id), period_end],
+    );
+
+    return payouts.rows;
+  });
+};
+
+/**
+ * Records that a payout statement has been paid and posts it to the ledger
+ * @param payoutId - Payout statement ID
+ * @param adminId - Admin recording the payment
+ * @param paymentReference - Bank or UPI reference of the transfer (optional)
+ * @returns Promise resolving to the updated statement
+ * @throws {ApiError} 404 if the statement does not exist, 409 if it is already paid
+ */
+export const markPayoutPaid = async (
+  payoutId: string,
+  adminId: string,
+  paymentReference: string | null,
+): Promise<DriverPayoutType> => {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query('SELECT * FROM driver_payouts WHERE id = $1 FOR UPDATE', [payoutId]);
+    const payout: DriverPayoutType | undefined = rows[0];
+
+    if (!payout) {
+      throw new ApiError(404, 'Payout not found');
+    }
+    if (payout.status === 'paid') {
+      throw new ApiError(409, 'Payout is already marked paid');
+    }
+
+    const updated = await client.query(
+      `UPDATE driver_payouts
+       SET status = 'paid', paid_at = NOW(), paid_by = $1, payment_reference = $2, updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [adminId, paymentReference, payoutId],
+    );
+
+    await postDriverPayout(client, payout, adminId);
+
+    return updated.rows[0];
+  });
+};
@@ -0,0 +1,34 @@
+/**
+ * Fake Payment Provider Service
+ * Offline payment provider for development and tests. It never contacts a
+ * payment network: tokens starting with "tok_fail" are declined and every
+ * other token succeeds. Charges are idempotent per idempotency key.
+ */
+
+import { randomUUID } from 'crypto';
+import { PaymentChargeRequest, PaymentChargeResult, PaymentProvider } from '../types/payment.type';
+
+/**
+ * Payment provider that succeeds or fails based on the payment method token
+ *
+ * @example
+ * const provider = new FakePaymentProvider();
+ * await provider.charge({ userId, amount: 500, currency: 'INR', paymentMethodToken: 'tok_visa', idempotencyKey });
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  private readonly charges = new Map<string, PaymentChargeResult>();
+
+  async charge(request: PaymentChargeRequest): Promise<PaymentChargeResult> {
+    const previous = this.charges.get(request.idempotencyKey);
+    if (previous) return previous;
+
+    const result: PaymentChargeResult = request.paymentMethodToken.startsWith('tok_fail')
+      ? { providerPaymentId: `fake_${randomUUID()}`, status: 'failed', failureReason: 'Payment method declined' }
+      : { providerPaymentId: `fake_${randomUUID()}`, status: 'succeeded' };
+
+    this.charges.set(request.idempotencyKey, result);
+    return result;
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Ledger Service
+ * Double-entry ledger behind user wallets. Money only moves through balanced
+ * transactions whose entries sum to zero, and every account keeps a running
+ * balance that must always equal the sum of its entries. Reconciliation checks
+ * both invariants.
+ *
+ * A ride never takes a wallet below zero: what the wallet cannot cover when the
+ * ride is settled is collected in cash by the driver. Only a cancellation fee can
+ * leave a negative balance, which is money the rider owes the platform. The rider
+ * cannot book wallet rides until a top-up settles it; on their next cash ride the
+ * driver collects it in cash along with the fare.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import pool from '../db/db';
+import ApiError from '../utils/api-error.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { paymentProvider } from './payment.service';
+import { FARE_CURRENCY } from '../constants';
+import { LedgerTransactionInput, SystemAccountCode } from '../types/ledger.type';
+import { RideType } from '../types/ride.type';
+import { DriverPayoutType } from '../types/earnings.type';
+
+/**
+ * Converts an amount to whole paise so sums are exact
+ * @param amount - Amount in rupees
+ * @returns Amount in paise
+ */
+const toMinorUnits = (amount: number): number => Math.round(Number(amount) * 100);
+
+/**
+ * Returns a user's wallet account, opening it on first use
+ * @param db - Pool or transaction client
+ * @param userId - Wallet owner
+ * @returns Promise resolving to the ledger account
+ */
+export const getWalletAccount = async (db: Pool | PoolClient, userId: string) => {
+  await db.query(
+    "INSERT INTO ledger_accounts (kind, user_id, currency) VALUES ('wallet', $1, $2) ON CONFLICT (user_id) DO NOTHING",
+    [userId, FARE_CURRENCY],
+  );
+  const { rows } = await db.query('SELECT * FROM ledger_accounts WHERE user_id = $1', [userId]);
+  return rows[0];
+};
+
+/**
+ * Returns a platform account, opening it on first use
+ * @param db - Pool or transaction client
+ * @param code - System account code
+ * @returns Promise resolving to the ledger account
+ */
+export const getSystemAccount = async (db: Pool | PoolClient, code: SystemAccountCode) => {
+  await db.query(
+    "INSERT INTO ledger_accounts (kind, code, currency) VALUES ('system', $1, $2) ON CONFLICT (code) DO NOTHING",
+    [code, FARE_CURRENCY],
+  );
+  const { rows } = await db.query('SELECT * FROM ledger_accounts WHERE code = $1', [code]);
+  return rows[0];
+};
+
+/**
+ * Posts a balanced transaction and updates the balances of its accounts
+ * Posting an idempotency key that was already used returns the original transaction.
+ * @param client - Transaction client
+ * @param input - Transaction and its entries
+ * @returns Promise resolving to the ledger transaction
+ * @throws {Error} If the entries do not sum to zero
+ */
+export const postLedgerTransaction = async (client: PoolClient, input: LedgerTransactionInput) => {
+  const entries = input.entries.filter(({ amount }) => toMinorUnits(amount) !== 0);
+  if (entries.length < 2 || entries.reduce((sum, { amount }) => sum + toMinorUnits(amount), 0) !== 0) {
+    throw new Error(`Unbalanced ledger transaction ${input.idempotencyKey}`);
+  }
+
+  const inserted = await client.query(
+    `INSERT INTO ledger_transactions (type, ride_id, payment_id, idempotency_key, description, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (idempotency_key) DO NOTHING
+     RETURNING *`,
+    [
+      input.type,
+      input.rideId ?? null,
+      input.paymentId ?? null,
+      input.idempotencyKey,
+      input.description ?? null,
+      input.createdBy ?? null,
+    ],
+  );
+  if (inserted.rowCount === 0) {
+    const existing = await client.query('SELECT * FROM ledger_transactions WHERE idempotency_key = $1', [
+      input.idempotencyKey,
+    ]);
+    return existing.rows[0];
+  }
+
+  // Lock the accounts in a fixed order so concurrent postings cannot deadlock
+  const accountIds = [...new Set(entries.map(({ accountId }) => accountId))].sort();
+  await client.query('SELECT id FROM ledger_accounts WHERE id = ANY($1) ORDER BY id FOR UPDATE', [accountIds]);
+
+  for (const { accountId, amount } of entries) {
+    await client.query('INSERT INTO ledger_entries (transaction_id, account_id, amount) VALUES ($1, $2, $3)', [
+      inserted.rows[0].id,
+      accountId,
+      amount,
+    ]);
+    await client.query('UPDATE ledger_accounts SET balance = balance + $1, updated_at = NOW() WHERE id = $2', [
+      amount,
+      accountId,
+    ]);
+  }
+
+  return inserted.rows[0];
+};
+
+/**
+ * Charges a payment method through the payment provider and credits the wallet
+ * Retrying with the same idempotency key never charges or credits twice.
+ * @param userId - Wallet owner
+ * @param amount - Amount to add
+ * @param paymentMethodToken - Token issued by the provider's client SDK
+ * @param idempotencyKey - Key identifying this top-up attempt
+ * @returns Promise resolving to the payment record
+ * @throws {ApiError} 409 if the key was used by another user
+ */
+export const topUpWallet = async (
+  userId: string,
+  amount: number,
+  paymentMethodToken: string,
+  idempotencyKey: string,
+) => {
+  const inserted = await pool.query(
+    `INSERT INTO payments (user_id, provider, amount, currency, idempotency_key)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (idempotency_key) DO NOTHING
+     RETURNING *`,
+    [userId, paymentProvider.name, amount, FARE_CURRENCY, idempotencyKey],
+  );
+
+  let payment = inserted.rows[0];
+  if (!payment) {
+    const existing = await pool.query('SELECT * FROM payments WHERE idempotency_key = $1', [idempotencyKey]);
+    payment = existing.rows[0];
+    if (payment.user_id !== userId) {
+      throw new ApiError(409, 'This idempotency key has already been used');
+    }
+    if (payment.status !== 'pending') {
+      return payment;
+    }
+  }
+
+  const result = await paymentProvider.charge({
+    userId,
+    amount: Number(payment.amount),
+    currency: payment.currency,
+    paymentMethodToken,
+    idempotencyKey,
+  });
+
+  return withTransaction(async (client) => {
+    const updated = await client.query(
+      `UPDATE payments SET status = $1, provider_payment_id = $2, failure_reason = $3, updated_at = NOW()
+       WHERE id = $4
+       RETURNING *`,
+      [result.status, result.providerPaymentId, result.failureReason ?? null, payment.id],
+    );
+
+    if (result.status === 'succeeded') {
+      const wallet = await getWalletAccount(client, userId);
+      const clearing = await getSystemAccount(client, 'payment_clearing');
+
+      await postLedgerTransaction(client, {
+        type: 'top_up',
+        idempotencyKey: `top_up:${payment.id}`,
+        paymentId: payment.id,
+        description: `Wallet top-up via ${paymentProvider.name}`,
+        createdBy: userId,
+        entries: [
+          { accountId: wallet.id, amount: Number(payment.amount) },
+          { accountId: clearing.id, amount: -Number(payment.amount) },
+        ],
+      });
+    }
+
+    return updated.rows[0];
+  });
+};
+
+/**
+ * Settles a completed ride on the ledger
+ * Wallet rides move the fare out of the rider's wallet; the driver's wallet is credited
+ * their earnings and platform revenue keeps the rest. The final fare can be higher than
+ * the estimate the balance was checked against, so any part the wallet cannot cover is
+ * collected in cash by the driver instead and taken from the driver's wallet like on a
+ * cash ride. On cash rides the driver already holds the fare, so only the platform's
+ * share moves from the driver's wallet to revenue. The platform's share is negative when
+ * a promo discount exceeds the commission. A negative wallet balance is also collected in
+ * cash on a cash ride, moving it from the driver's wallet to the rider's.
+ * Must run in the transaction that completes the ride.
+ * @param client - Transaction client
+ * @param ride - Completed ride
+ * @param fareTotal - Amount the rider paid
+ * @param driverEarnings - Driver's share of the fare
+ * @returns Promise resolving to the amount the driver collects in cash
+ */
+export const settleRideOnLedger = async (
+  client: PoolClient,
+  ride: RideType,
+  fareTotal: number,
+  driverEarnings: number,
+): Promise<number> => {
+  const driverWallet = await getWalletAccount(client, ride.driver_id!);
+  const revenue = await getSystemAccount(client, 'platform_revenue');
+  const platformShare = (toMinorUnits(fareTotal) - toMinorUnits(driverEarnings)) / 100;
+
+  if (ride.payment_method === 'wallet') {
+    if (toMinorUnits(fareTotal) <= 0 && toMinorUnits(driverEarnings) <= 0) return 0;
+
+    const riderWallet = await getWalletAccount(client, ride.rider_id);
+    const { rows } = await client.query('SELECT balance FROM ledger_accounts WHERE id = $1 FOR UPDATE', [
+      riderWallet.id,
+    ]);
+    const walletPaid = Math.min(Math.max(toMinorUnits(rows[0].balance), 0), Math.max(toMinorUnits(fareTotal), 0));
+    const cashCollected = (Math.max(toMinorUnits(fareTotal), 0) - walletPaid) / 100;
+
+    await postLedgerTransaction(client, {
+      type: 'ride_charge',
+      idempotencyKey: `ride_charge:${ride.id}`,
+      rideId: ride.id,
+      description: cashCollected > 0 ? 'Ride fare, partly paid in cash' : 'Ride fare',
+      entries: [
+        { accountId: riderWallet.id, amount: -walletPaid / 100 },
+        { accountId: driverWallet.id, amount: (toMinorUnits(driverEarnings) - toMinorUnits(cashCollected)) / 100 },
+        { accountId: revenue.id, amount: platformShare },
+      ],
+    });
+    return cashCollected;
+  }
+
+  const riderWallet = await getWalletAccount(client, ride.rider_id);
+  const { rows } = await client.query('SELECT balance FROM ledger_accounts WHERE id = $1 FOR UPDATE', [riderWallet.id]);
+  const owed = Math.max(-toMinorUnits(rows[0].balance), 0);
+
+  if (owed > 0) {
+    await postLedgerTransaction(client, {
+      type: 'cash_settlement',
+      idempotencyKey: `cash_settlement:${ride.id}`,
+      rideId: ride.id,
+      description: 'Unpaid wallet balance collected in cash',
+      entries: [
+        { accountId: riderWallet.id, amount: owed / 100 },
+        { accountId: driverWallet.id, amount: -owed / 100 },
+      ],
+    });
+  }
+
+  if (toMinorUnits(platformShare) !== 0) {
+    await postLedgerTransaction(client, {
+      type: 'commission',
+      idempotencyKey: `commission:${ride.id}`,
+      rideId: ride.id,
+      description: 'Commission on cash ride',
+      entries: [
+        { accountId: driverWallet.id, amount: -platformShare },
+        { accountId: revenue.id, amount: platformShare },
+      ],
+    });
+  }
+  return (toMinorUnits(fareTotal) + owed) / 100;
+};
+
+/**
+ * Charges a rider's cancellation fee to their wallet
+ * The driver's wallet is credited their share and platform revenue keeps the rest.
+ * The fee is taken even when it leaves the wallet with a negative balance, which the
+ * rider settles with their next top-up or in cash on their next cash ride.
+ * Must run in the transaction that cancels the ride.
+ * @param client - Transaction client
+ * @param ride - Cancelled ride
+ * @param fee - Cancellation fee
+ * @param driverEarnings - Driver's share of the fee
+ */
+export const chargeCancellationFee = async (
+  client: PoolClient,
+  ride: RideType,
+  fee: number,
+  driverEarnings: number,
+): Promise<void> => {
+  const riderWallet = await getWalletAccount(client, ride.rider_id);
+  const driverWallet = await getWalletAccount(client, ride.driver_id!);
+  const revenue = await getSystemAccount(client, 'platform_revenue');
+
+  await postLedgerTransaction(client, {
+    type: 'cancellation_fee',
+    idempotencyKey: `cancellation_fee:${ride.id}`,
+    rideId: ride.id,
+    description: 'Cancellation fee',
+    createdBy: ride.rider_id,
+    entries: [
+      { accountId: riderWallet.id, amount: -fee },
+      { accountId: driverWallet.id, amount: driverEarnings },
+      { accountId: revenue.id, amount: (toMinorUnits(fee) - toMinorUnits(driverEarnings)) / 100 },
+    ],
+  });
+};
+
+/**
+ * Refunds part or all of a completed ride's fare to the rider's wallet
+ * Refunds are paid by the platform and can never exceed the final fare in total.
+ * @param rideId - Ride to refund
+ * @param amount - Amount to refund
+ * @param adminId - Admin issuing the refund
+ * @param reason - Reason recorded on the transaction
+ * @param idempotencyKey - Key identifying this refund
+ * @returns Promise resolving to the ledger transaction
+ * @throws {ApiError} 404 if the ride does not exist, 409 if it cannot be refunded that much
+ */
+export const refundRide = async (
+  rideId: string,
+  amount: number,
+  adminId: string,
+  reason: string,
+  idempotencyKey: string,
+) => {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query('SELECT * FROM rides WHERE id = $1 FOR UPDATE', [rideId]);
+    const ride: RideType | undefined = rows[0];
+    if (!ride) {
+      throw new ApiError(404, 'Ride not found');
+    }
+    if (ride.status !== 'completed') {
+      throw new ApiError(409, 'Only completed rides can be refunded');
+    }
+
+    const riderWallet = await getWalletAccount(client, ride.rider_id);
+    const refunded = await client.query(
+      `SELECT COALESCE(SUM(e.amount), 0) AS total
+       FROM ledger_transactions t
+       JOIN ledger_entries e ON e.transaction_id = t.id AND e.account_id = $2
+       WHERE t.ride_id = $1 AND t.type = 'refund'`,
+      [rideId, riderWallet.id],
+    );
+
+    const refundable = toMinorUnits(Number(ride.final_fare)) - toMinorUnits(refunded.rows[0].total);
+    if (toMinorUnits(amount) > refundable) {
+      throw new ApiError(409, `At most ${refundable / 100} can still be refunded for this ride`);
+    }
+
+    const revenue = await getSystemAccount(client, 'platform_revenue');
+    return postLedgerTransaction(client, {
+      type: 'refund',
+      idempotencyKey: `refund:${idempotencyKey}`,
+      rideId,
+      description: reason,
+      createdBy: adminId,
+      entries: [
+        { accountId: riderWallet.id, amount },
+        { accountId: revenue.id, amount: -amount },
+      ],
+    });
+  });
+};
+
+/**
+ * Checks the ledger invariants
+ * - every account balance equals the sum of its entries
+ * - every transaction has at least two entries summing to zero
+ * - every successful payment was credited to a wallet
+ * @returns Promise resolving to the mismatches found, empty when the ledger is consistent
+ */
+export const reconcileLedger = async () => {
+  const accountMismatches = await pool.query(
+    `SELECT a.id, a.kind, a.user_id, a.code, a.balance, COALESCE(SUM(e.amount), 0) AS ledger_balance
+     FROM ledger_accounts a
+     LEFT JOIN ledger_entries e ON e.account_id = a.id
+     GROUP BY a.id
+     HAVING a.balance <> COALESCE(SUM(e.amount), 0)`,
+  );
+
+  const unbalancedTransactions = await pool.query(
+    `SELECT t.id, t.type, t.idempotency_key, COUNT(e.id)::int AS entry_count, COALESCE(SUM(e.amount), 0) AS total
+     FROM ledger_transactions t
+     LEFT JOIN ledger_entries e ON e.transaction_id = t.id
+     GROUP BY t.id
+     HAVING COUNT(e.id) < 2 OR COALESCE(SUM(e.amount), 0) <> 0`,
+  );
+
+  const unpostedPayments = await pool.query(
+    `SELECT p.*
+     FROM payments p
+     WHERE p.status = 'succeeded'
+       AND NOT EXISTS (SELECT 1 FROM ledger_transactions t WHERE t.payment_id = p.id AND t.type = 'top_up')`,
+  );
+
+  return {
+    is_consistent:
+      accountMismatches.rowCount === 0 && unbalancedTransactions.rowCount === 0 && unpostedPayments.rowCount === 0,
+    account_mismatches: accountMismatches.rows,
+    unbalanced_transactions: unbalancedTransactions.rows,
+    unposted_payments: unpostedPayments.rows,
+  };
+};
+
+/**
+ * Pays a driver's net payout out of their wallet
+ * A negative payout is the driver settling what they owe, which credits their wallet instead.
+ * @param client - Transaction client
+ * @param payout - Payout being marked paid
+ * @param adminId - Admin recording the payment
+ */
+export const postDriverPayout = async (
+  client: PoolClient,
+  payout: DriverPayoutType,
+  adminId: string,
+): Promise<void> => {
+  const amount = Number(payout.net_payout);
+  if (toMinorUnits(amount) === 0) return;
+
+  const driverWallet = await getWalletAccount(client, payout.driver_id);
+  const clearing = await getSystemAccount(client, 'payment_clearing');
+
+  await postLedgerTransaction(client, {
+    type: 'payout',
+    idempotencyKey: `payout:${payout.id}`,
+    description: amount > 0 ? 'Weekly payout' : 'Weekly settlement of cash commission',
+    createdBy: adminId,
+    entries: [
+      { accountId: driverWallet.id, amount: -amount },
+      { accountId: clearing.id, amount },
+    ],
+  });
+};
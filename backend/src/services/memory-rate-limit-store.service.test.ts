@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryRateLimitStore } from './memory-rate-limit-store.service';
+import { RateLimitHit } from '../types/rate-limit.type';
+
+const START = Date.UTC(2025, 0, 5, 8, 0, 0);
+
+/** Buckets held by a store, to check what the sweep dropped */
+const bucketsOf = (store: MemoryRateLimitStore) => (store as unknown as { buckets: Map<string, RateLimitHit> }).buckets;
+
+describe('MemoryRateLimitStore', () => {
+  it('counts requests within a window', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    const store = new MemoryRateLimitStore();
+
+    assert.deepEqual(await store.hit('signIn:ip:a', 60), { count: 1, resetAt: new Date(START + 60000) });
+    assert.deepEqual(await store.hit('signIn:ip:a', 60), { count: 2, resetAt: new Date(START + 60000) });
+    assert.equal((await store.hit('signIn:ip:a', 60)).count, 3);
+  });
+
+  it('keeps separate counts per key', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('signIn:ip:a', 60);
+    await store.hit('signIn:ip:a', 60);
+
+    assert.equal((await store.hit('signIn:ip:b', 60)).count, 1);
+    assert.equal((await store.hit('signIn:account:a', 60)).count, 1);
+  });
+
+  it('keeps the window end fixed while counting', async (t) => {
+    const now = t.mock.method(Date, 'now', () => START);
+    const store = new MemoryRateLimitStore();
+    await store.hit('signIn:ip:a', 60);
+
+    now.mock.mockImplementation(() => START + 59999);
+    assert.deepEqual(await store.hit('signIn:ip:a', 60), { count: 2, resetAt: new Date(START + 60000) });
+  });
+
+  it('starts a new window once resetAt is reached', async (t) => {
+    const now = t.mock.method(Date, 'now', () => START);
+    const store = new MemoryRateLimitStore();
+    await store.hit('signIn:ip:a', 60);
+    await store.hit('signIn:ip:a', 60);
+
+    now.mock.mockImplementation(() => START + 60000);
+    assert.deepEqual(await store.hit('signIn:ip:a', 60), { count: 1, resetAt: new Date(START + 120000) });
+  });
+
+  it('returns copies that callers cannot use to change the count', async (t) => {
+    t.mock.method(Date, 'now', () => START);
+    const store = new MemoryRateLimitStore();
+
+    const first = await store.hit('signIn:ip:a', 60);
+    first.count = 100;
+
+    assert.equal((await store.hit('signIn:ip:a', 60)).count, 2);
+  });
+
+  it('sweeps ended windows every thousand requests', async (t) => {
+    const now = t.mock.method(Date, 'now', () => START);
+    const store = new MemoryRateLimitStore();
+    await store.hit('short', 60);
+    await store.hit('long', 3600);
+
+    now.mock.mockImplementation(() => START + 120000);
+    for (let hit = 3; hit < 1000; hit++) await store.hit('long', 3600);
+    assert.ok(bucketsOf(store).has('short'));
+
+    await store.hit('long', 3600);
+    assert.equal(bucketsOf(store).has('short'), false);
+    assert.equal(bucketsOf(store).get('long')?.count, 999);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Memory Rate Limit Store Service
+ * Keeps rate limit counters in this process. Counters are lost on restart and
+ * not shared between instances; use the Postgres store when running more than one.
+ */
+
+import { RateLimitHit, RateLimitStore } from '../types/rate-limit.type';
+
+/** Counted requests between sweeps of ended windows */
+const SWEEP_EVERY_HITS = 1000;
+
+/**
+ * Rate limit store backed by a Map of fixed windows
+ *
+ * @example
+ * const store = new MemoryRateLimitStore();
+ * const { count, resetAt } = await store.hit('signIn:ip:203.0.113.7', 900);
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+
+  private readonly buckets = new Map<string, RateLimitHit>();
+
+  private hitsSinceSweep = 0;
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const bucket = this.buckets.get(key);
+    if (bucket && bucket.resetAt.getTime() > now) {
+      bucket.count += 1;
+      return { ...bucket };
+    }
+
+    const started = { count: 1, resetAt: new Date(now + windowSeconds * 1000) };
+    this.buckets.set(key, started);
+    return { ...started };
+  }
+
+  /** Drops buckets whose window ended, every SWEEP_EVERY_HITS requests */
+  private sweep(now: number): void {
+    this.hitsSinceSweep += 1;
+    if (this.hitsSinceSweep < SWEEP_EVERY_HITS) return;
+
+    this.hitsSinceSweep = 0;
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.resetAt.getTime() <= now) this.buckets.delete(key);
+    });
+  }
+}
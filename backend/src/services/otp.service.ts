@@ -0,0 +1,139 @@
+/**
+ * OTP Service
+ * Issues and checks one-time codes. Every code is bound to a purpose (and, for
+ * phone codes, to the number it was texted to), and only a keyed hash of it is
+ * stored. A new code for a purpose replaces the previous one, can only be sent
+ * once per OTP_RESEND_COOLDOWN_SECONDS, and stops working after OTP_MAX_ATTEMPTS
+ * wrong guesses.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import pool from '../db/db';
+import ApiError from '../utils/api-error.utils';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { addMinutesToDate, GenerateOptions, otpGenerator } from '../utils/otp-generator.utils';
+import { OTP_MAX_ATTEMPTS, OTP_RESEND_COOLDOWN_SECONDS } from '../constants';
+import { OtpCodeType, OtpPurpose } from '../types/otp.type';
+
+/** Options for issuing an OTP */
+interface IssueOtpOptions {
+  ttlMinutes: number;
+  generateOptions: GenerateOptions;
+  phoneNumber?: string; // Number the code is texted to, for phone purposes
+}
+
+/**
+ * Hashes an OTP for storage and comparison
+ * The user and purpose are part of the hash, so a stored hash cannot be checked against another row.
+ * @param userId - User the OTP belongs to
+ * @param purpose - What the OTP is for
+ * @param otp - OTP in plain text
+ * @returns Hex-encoded HMAC-SHA256 of the OTP
+ * @throws Error if OTP_SECRET is not configured
+ */
+const hashOtp = (userId: string, purpose: OtpPurpose, otp: string): string => {
+  if (!process.env.OTP_SECRET) {
+    throw new Error('OTP_SECRET is not configured');
+  }
+
+  return createHmac('sha256', process.env.OTP_SECRET).update(`${userId}:${purpose}:${otp}`).digest('hex');
+};
+
+/**
+ * Issues a new OTP for a purpose, replacing any earlier one for that purpose
+ * @param userId - User the OTP is for
+ * @param purpose - What the OTP is for
+ * @param options - Lifetime, character set and, for phone purposes, the number it is sent to
+ * @returns Promise resolving to the OTP in plain text, to be sent to the user
+ * @throws {ApiError} 429 if the previous OTP for the purpose was sent less than OTP_RESEND_COOLDOWN_SECONDS ago
+ */
+export const issueOtp = async (userId: string, purpose: OtpPurpose, options: IssueOtpOptions): Promise<string> => {
+  const otp = otpGenerator(6, options.generateOptions);
+
+  await withTransaction(async (client) => {
+    // Lock the user so concurrent requests cannot both pass the cooldown check
+    await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+
+    const previous = await client.query(
+      `SELECT CEIL(EXTRACT(EPOCH FROM (created_at + make_interval(secs => $3) - NOW())))::int AS wait_seconds
+       FROM otp_codes
+       WHERE user_id = $1 AND purpose = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId, purpose, OTP_RESEND_COOLDOWN_SECONDS],
+    );
+    const waitSeconds = previous.rows[0]?.wait_seconds;
+    if (waitSeconds > 0) {
+      throw new ApiError(429, `Please wait ${waitSeconds} seconds before requesting another OTP`);
+    }
+
+    await client.query('DELETE FROM otp_codes WHERE user_id = $1 AND purpose = $2', [userId, purpose]);
+    await client.query(
+      `INSERT INTO otp_codes (user_id, purpose, otp_hash, phone_number, otp_expiry)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        userId,
+        purpose,
+        hashOtp(userId, purpose, otp),
+        options.phoneNumber ?? null,
+        addMinutesToDate(new Date(), options.ttlMinutes),
+      ],
+    );
+  });
+
+  return otp;
+};
+
+/**
+ * Checks an OTP and uses it up when it matches
+ * Every guess claims one of OTP_MAX_ATTEMPTS attempts in a single update before it is
+ * compared, so parallel guesses cannot get past the limit. The OTP is deleted once it
+ * matches or its attempts run out.
+ * @param userId - User the OTP belongs to
+ * @param purpose - What the OTP is being used for
+ * @param otp - OTP entered by the user
+ * @param phoneNumber - Number the OTP must have been texted to, for phone purposes
+ * @throws {ApiError} 400 if there is no valid OTP for the purpose or the OTP is wrong
+ */
+export const consumeOtp = async (
+  userId: string,
+  purpose: OtpPurpose,
+  otp: unknown,
+  phoneNumber: string | null = null,
+): Promise<void> => {
+  const { rows } = await pool.query(
+    `UPDATE otp_codes SET attempts = attempts + 1, updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM otp_codes
+       WHERE user_id = $1 AND purpose = $2 AND phone_number IS NOT DISTINCT FROM $3 AND otp_expiry > NOW()
+       ORDER BY created_at DESC
+       LIMIT 1
+     ) AND attempts < $4
+     RETURNING *`,
+    [userId, purpose, phoneNumber, OTP_MAX_ATTEMPTS],
+  );
+  const otpData: OtpCodeType | undefined = rows[0];
+
+  if (!otpData) {
+    throw new ApiError(400, 'Invalid or expired OTP.');
+  }
+
+  const expected = Buffer.from(otpData.otp_hash, 'hex');
+  const received = Buffer.from(hashOtp(userId, purpose, String(otp)), 'hex');
+
+  if (!timingSafeEqual(expected, received)) {
+    const attemptsLeft = OTP_MAX_ATTEMPTS - otpData.attempts;
+
+    if (attemptsLeft <= 0) {
+      await pool.query('DELETE FROM otp_codes WHERE id = $1', [otpData.id]);
+      throw new ApiError(400, 'Too many incorrect attempts. Please request a new OTP.');
+    }
+    throw new ApiError(400, `Invalid OTP. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`);
+  }
+
+  // Whoever deletes the row first used the OTP; a concurrent request with the same code fails
+  const used = await pool.query('DELETE FROM otp_codes WHERE id = $1 RETURNING id', [otpData.id]);
+  if (used.rowCount === 0) {
+    throw new ApiError(400, 'Invalid or expired OTP.');
+  }
+};
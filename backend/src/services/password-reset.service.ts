@@ -0,0 +1,53 @@
+/**
+ * Password Reset Service
+ * Hands out the token that a verified password reset OTP is exchanged for. The
+ * token is random, stored only as a hash, valid for PASSWORD_RESET_TOKEN_TTL_MINUTES
+ * and can be used for a single reset.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import pool from '../db/db';
+import { PASSWORD_RESET_TOKEN_TTL_MINUTES } from '../constants';
+import { PasswordResetToken } from '../types/otp.type';
+
+/**
+ * Hashes a reset token for storage and lookup
+ * @param token - Reset token
+ * @returns Hex-encoded SHA-256 of the token
+ */
+const hashResetToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Creates a password reset token for a user, replacing any unused one
+ * @param userId - User whose password can be reset
+ * @returns Promise resolving to the token and when it expires
+ */
+export const createPasswordResetToken = async (userId: string): Promise<PasswordResetToken> => {
+  const resetToken = randomBytes(32).toString('base64url');
+
+  await pool.query('DELETE FROM password_reset_tokens WHERE user_id = $1 AND used_at IS NULL', [userId]);
+  const { rows } = await pool.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(mins => $3))
+     RETURNING expires_at`,
+    [userId, hashResetToken(resetToken), PASSWORD_RESET_TOKEN_TTL_MINUTES],
+  );
+
+  return { resetToken, expires_at: rows[0].expires_at };
+};
+
+/**
+ * Uses up a password reset token
+ * @param resetToken - Token from the verified reset OTP
+ * @returns Promise resolving to the ID of the user whose password can be reset, or null if the token is unknown, used or expired
+ */
+export const consumePasswordResetToken = async (resetToken: string): Promise<string | null> => {
+  const { rows } = await pool.query(
+    `UPDATE password_reset_tokens
+     SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id`,
+    [hashResetToken(resetToken)],
+  );
+  return rows[0]?.user_id ?? null;
+};
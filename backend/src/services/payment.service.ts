@@ -0,0 +1,27 @@
+/**
+ * Payment Service
+ * Selects the payment provider configured by PAYMENT_PROVIDER.
+ * New providers implement PaymentProvider and are added to createPaymentProvider.
+ */
+
+import { FakePaymentProvider } from './fake-payment-provider.service';
+import { PAYMENT_PROVIDER } from '../constants';
+import { PaymentProvider } from '../types/payment.type';
+
+/**
+ * Creates the payment provider with the given name
+ * @param name - Provider name
+ * @returns Payment provider
+ * @throws {Error} If no provider has that name
+ */
+export const createPaymentProvider = (name: string): PaymentProvider => {
+  switch (name) {
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+};
+
+/** Payment provider used by the application */
+export const paymentProvider = createPaymentProvider(PAYMENT_PROVIDER);
@@ -0,0 +1,319 @@
+/**
+ * Pool Service
+ * Runs pooled rides. Every rider keeps their own ride, fare and status; a driver's
+ * active pool links those rides to one ordered list of pickups and drops. The
+ * route is re-planned when a rider joins and re-timed whenever a stop is done or
+ * a rider cancels. The driver sees the whole route, each rider only their own leg.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import pool from '../db/db';
+import ApiError from '../utils/api-error.utils';
+import { planPoolInsertion, timePoolRoute } from '../utils/pool-route.utils';
+import { getLatestDriverLocation } from './driver-location.service';
+import { publishToRide, publishToUser } from './realtime-gateway.service';
+import { POOL_MAX_DETOUR_MINUTES, POOL_SEAT_CAPACITY } from '../constants';
+import { RideType } from '../types/ride.type';
+import {
+  PlannedPoolStop,
+  PoolInsertion,
+  PoolRouteRider,
+  PoolRouteStop,
+  PoolStopKind,
+  RidePoolType,
+} from '../types/pool.type';
+
+/** Pool fields needed to plan its route */
+type PlannablePool = Pick<RidePoolType, 'id' | 'driver_id' | 'vehicle_type' | 'seat_capacity'>;
+
+/** Ride fields needed to plan a rider into a pool */
+type PoolableRide = Pick<
+  RideType,
+  'id' | 'vehicle_type' | 'seats' | 'pickup_lat' | 'pickup_lng' | 'drop_lat' | 'drop_lng' | 'estimated_duration_min'
+>;
+
+/**
+ * Loads a pool's remaining stops in driving order and the riders they belong to
+ * @param db - Pool or transaction client
+ * @param poolId - Pool ID
+ * @returns Promise resolving to the stops and riders
+ */
+const loadPoolRoute = async (db: Pool | PoolClient, poolId: string) => {
+  const { rows } = await db.query(
+    `SELECT s.ride_id, s.kind, s.lat, s.lng, r.seats, r.estimated_duration_min, r.started_at
+     FROM ride_pool_stops s
+     JOIN rides r ON r.id = s.ride_id
+     WHERE s.pool_id = $1 AND s.completed_at IS NULL
+     ORDER BY s.sequence ASC, s.id ASC`,
+    [poolId],
+  );
+
+  const riders = new Map<string, PoolRouteRider>();
+  const stops: PoolRouteStop[] = rows.map((row) => {
+    if (!riders.has(row.ride_id)) {
+      riders.set(row.ride_id, {
+        rideId: row.ride_id,
+        seats: row.seats,
+        directMin: Number(row.estimated_duration_min),
+        onBoardMin: row.started_at ? (Date.now() - new Date(row.started_at).getTime()) / 60000 : null,
+      });
+    }
+    return { rideId: row.ride_id, kind: row.kind, lat: Number(row.lat), lng: Number(row.lng) };
+  });
+
+  return { stops, riders: [...riders.values()] };
+};
+
+/**
+ * Returns where a pool's driver is, falling back to a known point when no position was reported
+ * @param driverId - User ID of the driver
+ * @param fallback - Point to use without a position
+ * @returns Promise resolving to the route's starting point
+ */
+const resolveOrigin = async (driverId: string, fallback: { lat: number; lng: number }) => {
+  const location = await getLatestDriverLocation(driverId);
+  return location ? { lat: location.lat, lng: location.lng } : { lat: fallback.lat, lng: fallback.lng };
+};
+
+/**
+ * Stores the order and planned arrival times of a pool's remaining stops
+ * Done stops keep their place; the remaining ones are numbered after them.
+ * @param client - Transaction client
+ * @param poolId - Pool ID
+ * @param stops - Remaining stops in driving order
+ */
+const saveRoutePlan = async (client: PoolClient, poolId: string, stops: PlannedPoolStop[]): Promise<void> => {
+  await client.query(
+    `UPDATE ride_pool_stops s
+     SET sequence = done.last_sequence + p.position,
+         planned_arrival_at = NOW() + make_interval(secs => p.eta_min * 60)
+     FROM unnest($2::uuid[], $3::varchar[], $4::double precision[]) WITH ORDINALITY AS p(ride_id, kind, eta_min, position),
+          (SELECT COALESCE(MAX(sequence), 0) AS last_sequence
+           FROM ride_pool_stops
+           WHERE pool_id = $1 AND completed_at IS NOT NULL) done
+     WHERE s.pool_id = $1 AND s.ride_id = p.ride_id AND s.kind = p.kind`,
+    [poolId, stops.map(({ rideId }) => rideId), stops.map(({ kind }) => kind), stops.map(({ etaMin }) => etaMin)],
+  );
+};
+
+/**
+ * Re-times a pool's remaining stops in their current order, or completes the pool when none are left
+ * @param client - Transaction client
+ * @param poolId - Pool ID
+ * @param position - Where the driver is, when known
+ */
+const refreshPool = async (
+  client: PoolClient,
+  poolId: string,
+  position: { lat: number; lng: number } | null,
+): Promise<void> => {
+  const { rows } = await client.query('SELECT * FROM ride_pools WHERE id = $1 FOR UPDATE', [poolId]);
+  const ridePool: RidePoolType = rows[0];
+  const { stops } = await loadPoolRoute(client, poolId);
+
+  if (stops.length === 0) {
+    await client.query(
+      "UPDATE ride_pools SET status = 'completed', completed_at = NOW() WHERE id = $1 AND status = 'active'",
+      [poolId],
+    );
+    return;
+  }
+
+  const origin = position ?? (await resolveOrigin(ridePool.driver_id, stops[0]));
+  await saveRoutePlan(client, poolId, timePoolRoute(origin, stops, ridePool.vehicle_type).stops);
+};
+
+/**
+ * Plans how a requested ride would join a driver's active pool
+ * @param db - Pool or transaction client
+ * @param ridePool - Driver's active pool
+ * @param ride - Requested pooled ride
+ * @returns Promise resolving to the new route, or null if the rider would break the seat or detour limits
+ */
+export const planRideIntoPool = async (
+  db: Pool | PoolClient,
+  ridePool: PlannablePool,
+  ride: PoolableRide,
+): Promise<PoolInsertion | null> => {
+  const { stops, riders } = await loadPoolRoute(db, ridePool.id);
+  const pickup = { lat: Number(ride.pickup_lat), lng: Number(ride.pickup_lng) };
+  const drop = { lat: Number(ride.drop_lat), lng: Number(ride.drop_lng) };
+  const origin = await resolveOrigin(ridePool.driver_id, stops[0] ?? pickup);
+
+  return planPoolInsertion(
+    origin,
+    stops,
+    riders,
+    { rideId: ride.id, seats: ride.seats, directMin: Number(ride.estimated_duration_min), onBoardMin: null },
+    pickup,
+    drop,
+    { vehicleType: ridePool.vehicle_type, seatCapacity: ridePool.seat_capacity, maxDetourMin: POOL_MAX_DETOUR_MINUTES },
+  );
+};
+
+/**
+ * Adds a pooled ride to its driver's active pool, starting a pool if the driver has none
+ * Must run in the transaction that assigns the driver.
+ * @param client - Transaction client
+ * @param ride - Pooled ride being accepted
+ * @param driverId - User ID of the accepting driver
+ * @returns Promise resolving to the pool ID
+ * @throws {ApiError} 409 if the ride no longer fits the driver's pool
+ */
+export const joinPool = async (client: PoolClient, ride: RideType, driverId: string): Promise<string> => {
+  const seatCapacity = POOL_SEAT_CAPACITY[ride.vehicle_type];
+  if (!seatCapacity) {
+    throw new ApiError(409, `${ride.vehicle_type} rides cannot be pooled`);
+  }
+
+  // Lock the driver so concurrent accepts cannot both start a pool; the second one joins the first
+  await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [driverId]);
+  const active = await client.query("SELECT * FROM ride_pools WHERE driver_id = $1 AND status = 'active' FOR UPDATE", [
+    driverId,
+  ]);
+  const ridePool: RidePoolType =
+    active.rows[0] ??
+    (
+      await client.query(
+        'INSERT INTO ride_pools (driver_id, vehicle_type, seat_capacity) VALUES ($1, $2, $3) RETURNING *',
+        [driverId, ride.vehicle_type, seatCapacity],
+      )
+    ).rows[0];
+
+  const insertion = await planRideIntoPool(client, ridePool, ride);
+  if (!insertion) {
+    throw new ApiError(409, 'This ride no longer fits your current pool');
+  }
+
+  await client.query(
+    `INSERT INTO ride_pool_stops (pool_id, ride_id, kind, sequence, lat, lng, address)
+     VALUES ($1, $2, 'pickup', 0, $3, $4, $5), ($1, $2, 'drop', 0, $6, $7, $8)`,
+    [
+      ridePool.id,
+      ride.id,
+      ride.pickup_lat,
+      ride.pickup_lng,
+      ride.pickup_address,
+      ride.drop_lat,
+      ride.drop_lng,
+      ride.drop_address,
+    ],
+  );
+  await saveRoutePlan(client, ridePool.id, insertion.stops);
+
+  return ridePool.id;
+};
+
+/**
+ * Marks a pooled ride's pickup or drop as done and re-times the remaining stops
+ * Stops are done in the order the route was planned.
+ * Must run in the transaction that starts or completes the ride.
+ * @param client - Transaction client
+ * @param ride - Pooled ride
+ * @param kind - Stop that was reached
+ * @throws {ApiError} 409 if an earlier stop on the route is not done yet
+ */
+export const completePoolStop = async (client: PoolClient, ride: RideType, kind: PoolStopKind): Promise<void> => {
+  if (!ride.pool_id) return;
+
+  // Lock the pool so the next stop cannot change while it is checked
+  await client.query('SELECT id FROM ride_pools WHERE id = $1 FOR UPDATE', [ride.pool_id]);
+  const next = await client.query(
+    `SELECT ride_id, kind FROM ride_pool_stops
+     WHERE pool_id = $1 AND completed_at IS NULL
+     ORDER BY sequence ASC, id ASC
+     LIMIT 1`,
+    [ride.pool_id],
+  );
+  if (next.rows[0] && (next.rows[0].ride_id !== ride.id || next.rows[0].kind !== kind)) {
+    throw new ApiError(409, `Complete the earlier stops on your route before this ${kind}`);
+  }
+
+  const stop = await client.query(
+    'UPDATE ride_pool_stops SET completed_at = NOW() WHERE ride_id = $1 AND kind = $2 AND completed_at IS NULL RETURNING lat, lng',
+    [ride.id, kind],
+  );
+  const position = stop.rows[0] ? { lat: Number(stop.rows[0].lat), lng: Number(stop.rows[0].lng) } : null;
+
+  await refreshPool(client, ride.pool_id, position);
+};
+
+/**
+ * Removes a cancelled ride's stops from its pool and re-times the rest
+ * Must run in the transaction that cancels the ride.
+ * @param client - Transaction client
+ * @param ride - Cancelled pooled ride
+ */
+export const leavePool = async (client: PoolClient, ride: RideType): Promise<void> => {
+  if (!ride.pool_id) return;
+
+  await client.query('DELETE FROM ride_pool_stops WHERE ride_id = $1 AND completed_at IS NULL', [ride.id]);
+  await refreshPool(client, ride.pool_id, null);
+};
+
+/**
+ * Gets a pool with every stop, for its driver
+ * Stops show the rider's first name, seats and ride status.
+ * @param poolId - Pool ID
+ * @returns Promise resolving to the pool and its stops in driving order, or null if it does not exist
+ */
+export const getPoolRoute = async (poolId: string) => {
+  const ridePool = await pool.query('SELECT * FROM ride_pools WHERE id = $1 LIMIT 1', [poolId]);
+  if (ridePool.rowCount === 0) return null;
+
+  const stops = await pool.query(
+    `SELECT s.ride_id, s.kind, s.sequence, s.lat, s.lng, s.address, s.planned_arrival_at, s.completed_at,
+            r.status AS ride_status, r.seats, u.firstname AS rider_firstname
+     FROM ride_pool_stops s
+     JOIN rides r ON r.id = s.ride_id
+     JOIN users u ON u.id = r.rider_id
+     WHERE s.pool_id = $1
+     ORDER BY s.sequence ASC, s.id ASC`,
+    [poolId],
+  );
+
+  return { ...(ridePool.rows[0] as RidePoolType), stops: stops.rows };
+};
+
+/**
+ * Gets a pooled ride's own pickup and drop with their planned arrival times
+ * Other riders' stops are never included.
+ * @param rideId - Ride ID
+ * @returns Promise resolving to the rider's stops
+ */
+export const getPoolLeg = async (rideId: string) => {
+  const { rows } = await pool.query(
+    `SELECT kind, lat, lng, address, planned_arrival_at, completed_at
+     FROM ride_pool_stops
+     WHERE ride_id = $1
+     ORDER BY sequence ASC`,
+    [rideId],
+  );
+  return rows;
+};
+
+/**
+ * Pushes a pool's new route to its driver and each rider's leg to that rider's ride channel
+ * @param poolId - Pool ID
+ */
+export const publishPoolUpdate = async (poolId: string): Promise<void> => {
+  const route = await getPoolRoute(poolId);
+  if (!route) return;
+
+  publishToUser(route.driver_id, 'pool.route_updated', route);
+
+  const rideIds = new Set<string>(route.stops.map(({ ride_id }) => ride_id));
+  rideIds.forEach((rideId) => {
+    const stops = route.stops
+      .filter(({ ride_id }) => ride_id === rideId)
+      .map(({ kind, lat, lng, address, planned_arrival_at, completed_at }) => ({
+        kind,
+        lat,
+        lng,
+        address,
+        planned_arrival_at,
+        completed_at,
+      }));
+    publishToRide(rideId, 'ride.pool_leg_updated', { ride_id: rideId, stops });
+  });
+};
@@ -0,0 +1,34 @@
+/**
+ * Postgres Rate Limit Store Service
+ * Keeps rate limit counters in the rate_limit_buckets table, so every instance
+ * counts against the same buckets. Ended windows are deleted by the rate limit job.
+ */
+
+import pool from '../db/db';
+import { RateLimitHit, RateLimitStore } from '../types/rate-limit.type';
+
+/**
+ * Rate limit store backed by one row per bucket
+ *
+ * @example
+ * const store = new PostgresRateLimitStore();
+ * const { count, resetAt } = await store.hit('signIn:ip:203.0.113.7', 900);
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    // A single upsert counts the request atomically, starting a new window once the previous one ended
+    const { rows } = await pool.query(
+      `INSERT INTO rate_limit_buckets (key, count, reset_at)
+       VALUES ($1, 1, NOW() + make_interval(secs => $2))
+       ON CONFLICT (key) DO UPDATE
+       SET count = CASE WHEN rate_limit_buckets.reset_at <= NOW() THEN 1 ELSE rate_limit_buckets.count + 1 END,
+           reset_at = CASE WHEN rate_limit_buckets.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limit_buckets.reset_at END
+       RETURNING count, reset_at`,
+      [key, windowSeconds],
+    );
+
+    return { count: rows[0].count, resetAt: new Date(rows[0].reset_at) };
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePromoDiscount } from './promo.service';
+import { calculateFare } from '../utils/fare-calculator.utils';
+import { PromoCodeType } from '../types/promo.type';
+
+const promo = (overrides: Partial<PromoCodeType>): PromoCodeType => ({
+  id: 'p1',
+  code: 'RYDE20',
+  description: null,
+  discount_type: 'percent',
+  discount_value: 20,
+  max_discount: null,
+  valid_from: new Date('2025-01-01T00:00:00Z'),
+  valid_until: null,
+  usage_limit: null,
+  per_user_limit: 1,
+  redemption_count: 0,
+  first_ride_only: false,
+  ride_options: null,
+  vehicle_types: null,
+  is_active: true,
+  ...overrides,
+});
+
+describe('calculatePromoDiscount', () => {
+  it('takes a percentage off the fare', () => {
+    assert.equal(calculatePromoDiscount(promo({ discount_type: 'percent', discount_value: 20 }), 250), 50);
+  });
+
+  it('rounds percentage discounts to two decimals', () => {
+    assert.equal(calculatePromoDiscount(promo({ discount_type: 'percent', discount_value: 15 }), 123.45), 18.52);
+  });
+
+  it('takes a flat amount off the fare whatever its size', () => {
+    const flat = promo({ discount_type: 'flat', discount_value: 40 });
+
+    assert.equal(calculatePromoDiscount(flat, 100), 40);
+    assert.equal(calculatePromoDiscount(flat, 900), 40);
+  });
+
+  it('caps a percentage discount at the maximum discount', () => {
+    const capped = promo({ discount_type: 'percent', discount_value: 50, max_discount: 75 });
+
+    assert.equal(calculatePromoDiscount(capped, 100), 50);
+    assert.equal(calculatePromoDiscount(capped, 400), 75);
+  });
+
+  it('reads amounts that PostgreSQL returns as numeric strings', () => {
+    const fromDatabase = promo({
+      discount_type: 'percent',
+      discount_value: '50.00' as unknown as number,
+      max_discount: '75.00' as unknown as number,
+    });
+
+    assert.equal(calculatePromoDiscount(fromDatabase, 400), 75);
+  });
+
+  it('discounts a fare raised to the rate card minimum fare on its total', () => {
+    const fare = calculateFare('car', 0.2, 1);
+    assert.ok(fare.minimum_fare_adjustment > 0);
+
+    const discount = calculatePromoDiscount(promo({ discount_type: 'percent', discount_value: 10 }), fare.total);
+    assert.equal(discount, Math.round(fare.total * 10) / 100);
+  });
+
+  it('never gives more than the fare', () => {
+    assert.equal(calculatePromoDiscount(promo({ discount_type: 'flat', discount_value: 100 }), 60.5), 60.5);
+    assert.equal(calculatePromoDiscount(promo({ discount_type: 'percent', discount_value: 150 }), 80), 80);
+    assert.equal(calculatePromoDiscount(promo({ discount_type: 'flat', discount_value: 100 }), 0), 0);
+  });
+});
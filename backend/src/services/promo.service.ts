@@ -0,0 +1,199 @@
+/**
+ * Promo Service
+ * Checks promo codes against rides and records their redemptions. A code is
+ * reserved when attached to a ride request, redeemed with the final discount when
+ * the ride completes and released when it is cancelled. Reservations lock the
+ * promo code row, so concurrent requests can never overshoot its limits.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import pool from '../db/db';
+import ApiError from '../utils/api-error.utils';
+import { roundTo2 } from '../utils/fare-calculator.utils';
+import { FareBreakdown, IntercityFareBreakdown } from '../types/fare.type';
+import { PromoCodeType, PromoContext } from '../types/promo.type';
+
+/**
+ * Normalises a promo code as entered by a rider or admin
+ * @param code - Raw code
+ * @returns Trimmed, upper-case code
+ */
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Calculates the discount a promo code gives on a fare
+ * @param promo - Promo code
+ * @param fareTotal - Fare total before the discount
+ * @returns Discount amount, never more than the fare itself
+ */
+export const calculatePromoDiscount = (promo: PromoCodeType, fareTotal: number): number => {
+  let discount =
+    promo.discount_type === 'flat' ? Number(promo.discount_value) : (fareTotal * Number(promo.discount_value)) / 100;
+
+  if (promo.max_discount !== null) {
+    discount = Math.min(discount, Number(promo.max_discount));
+  }
+
+  return roundTo2(Math.min(discount, fareTotal));
+};
+
+/**
+ * Checks that a promo code can be used for a ride
+ * @param db - Pool or transaction client to query with
+ * @param promo - Promo code
+ * @param context - Rider and ride the code is used for
+ * @throws {ApiError} 400 with the reason the code cannot be used
+ */
+const assertPromoEligible = async (db: Pool | PoolClient, promo: PromoCodeType, context: PromoContext) => {
+  const now = new Date();
+
+  if (
+    !promo.is_active ||
+    new Date(promo.valid_from) > now ||
+    (promo.valid_until && new Date(promo.valid_until) <= now)
+  ) {
+    throw new ApiError(400, 'This promo code is not valid right now');
+  }
+
+  if (promo.ride_options && !promo.ride_options.includes(context.rideOption)) {
+    throw new ApiError(400, 'This promo code is not valid for this ride option');
+  }
+
+  if (promo.vehicle_types && !promo.vehicle_types.includes(context.vehicleType)) {
+    throw new ApiError(400, 'This promo code is not valid for this vehicle type');
+  }
+
+  if (promo.usage_limit !== null && promo.redemption_count >= promo.usage_limit) {
+    throw new ApiError(400, 'This promo code has reached its usage limit');
+  }
+
+  const userRedemptions = await db.query(
+    "SELECT COUNT(*)::int AS count FROM promo_redemptions WHERE promo_code_id = $1 AND user_id = $2 AND status <> 'released'",
+    [promo.id, context.userId],
+  );
+  if (userRedemptions.rows[0].count >= promo.per_user_limit) {
+    throw new ApiError(400, 'You have already used this promo code');
+  }
+
+  if (promo.first_ride_only) {
+    const completedRides = await db.query("SELECT 1 FROM rides WHERE rider_id = $1 AND status = 'completed' LIMIT 1", [
+      context.userId,
+    ]);
+    if (completedRides.rowCount) {
+      throw new ApiError(400, 'This promo code is only valid on your first ride');
+    }
+  }
+};
+
+/**
+ * Checks a promo code against a fare estimate without using it
+ * @param code - Code entered by the rider
+ * @param context - Rider and estimated ride
+ * @returns Promise resolving to the promo code and the discount it would give
+ * @throws {ApiError} 404 if the code does not exist, 400 if it cannot be used
+ */
+export const previewPromoCode = async (code: string, context: PromoContext) => {
+  const { rows } = await pool.query('SELECT * FROM promo_codes WHERE code = $1 LIMIT 1', [normalizePromoCode(code)]);
+  const promo: PromoCodeType | undefined = rows[0];
+  if (!promo) {
+    throw new ApiError(404, 'Promo code not found');
+  }
+
+  await assertPromoEligible(pool, promo, context);
+
+  return { promo, discount: calculatePromoDiscount(promo, context.fareTotal) };
+};
+
+/**
+ * Reserves a use of a promo code for a new ride
+ * Must run in the transaction that creates the ride.
+ * @param client - Transaction client
+ * @param code - Code entered by the rider
+ * @param rideId - ID of the new ride
+ * @param context - Rider and estimated ride
+ * @returns Promise resolving to the code and the estimated discount
+ * @throws {ApiError} 404 if the code does not exist, 400 if it cannot be used
+ */
+export const reservePromoRedemption = async (
+  client: PoolClient,
+  code: string,
+  rideId: string,
+  context: PromoContext,
+): Promise<{ code: string; discount: number }> => {
+  // Lock the code so limits are checked and updated by one request at a time
+  const { rows } = await client.query('SELECT * FROM promo_codes WHERE code = $1 LIMIT 1 FOR UPDATE', [
+    normalizePromoCode(code),
+  ]);
+  const promo: PromoCodeType | undefined = rows[0];
+  if (!promo) {
+    throw new ApiError(404, 'Promo code not found');
+  }
+
+  await assertPromoEligible(client, promo, context);
+
+  const discount = calculatePromoDiscount(promo, context.fareTotal);
+  await client.query(
+    'INSERT INTO promo_redemptions (promo_code_id, user_id, ride_id, discount_amount) VALUES ($1, $2, $3, $4)',
+    [promo.id, context.userId, rideId, discount],
+  );
+  await client.query(
+    'UPDATE promo_codes SET redemption_count = redemption_count + 1, updated_at = NOW() WHERE id = $1',
+    [promo.id],
+  );
+
+  return { code: promo.code, discount };
+};
+
+/**
+ * Returns the reserved promo code use of a cancelled ride
+ * @param client - Transaction client
+ * @param rideId - ID of the cancelled ride
+ */
+export const releasePromoRedemption = async (client: PoolClient, rideId: string): Promise<void> => {
+  const { rows } = await client.query(
+    `UPDATE promo_redemptions SET status = 'released', updated_at = NOW()
+     WHERE ride_id = $1 AND status = 'reserved'
+     RETURNING promo_code_id`,
+    [rideId],
+  );
+
+  if (rows.length > 0) {
+    await client.query(
+      'UPDATE promo_codes SET redemption_count = redemption_count - 1, updated_at = NOW() WHERE id = $1',
+      [rows[0].promo_code_id],
+    );
+  }
+};
+
+/**
+ * Applies the promo code reserved for a ride to its final fare and marks it redeemed
+ * @param client - Transaction client
+ * @param rideId - ID of the completed ride
+ * @param fare - Final fare before the discount
+ * @returns Promise resolving to the fare with the discount line, or the fare unchanged
+ */
+export const applyPromoToFare = async <T extends FareBreakdown | IntercityFareBreakdown>(
+  client: PoolClient,
+  rideId: string,
+  fare: T,
+): Promise<T> => {
+  const { rows } = await client.query(
+    `SELECT pr.id AS redemption_id, pc.*
+     FROM promo_redemptions pr
+     JOIN promo_codes pc ON pc.id = pr.promo_code_id
+     WHERE pr.ride_id = $1 AND pr.status = 'reserved'
+     FOR UPDATE OF pr`,
+    [rideId],
+  );
+  if (rows.length === 0) return fare;
+
+  const promo = rows[0];
+  const discount = calculatePromoDiscount(promo, fare.total);
+
+  await client.query(
+    "UPDATE promo_redemptions SET status = 'redeemed', discount_amount = $1, updated_at = NOW() WHERE id = $2",
+    [discount, promo.redemption_id],
+  );
+
+  return { ...fare, promo_code: promo.code, discount, total: roundTo2(fare.total - discount) };
+};
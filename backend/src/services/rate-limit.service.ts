@@ -0,0 +1,30 @@
+/**
+ * Rate Limit Service
+ * Selects the rate limit store configured by RATE_LIMIT_STORE.
+ * New stores implement RateLimitStore and are added to createRateLimitStore.
+ */
+
+import { MemoryRateLimitStore } from './memory-rate-limit-store.service';
+import { PostgresRateLimitStore } from './postgres-rate-limit-store.service';
+import { RATE_LIMIT_STORE } from '../constants';
+import { RateLimitStore } from '../types/rate-limit.type';
+
+/**
+ * Creates the rate limit store with the given name
+ * @param name - Store name
+ * @returns Rate limit store
+ * @throws {Error} If no store has that name
+ */
+export const createRateLimitStore = (name: string): RateLimitStore => {
+  switch (name) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+};
+
+/** Rate limit store used by the application */
+export const rateLimitStore = createRateLimitStore(RATE_LIMIT_STORE);
@@ -0,0 +1,272 @@
+/**
+ * Realtime Gateway Service
+ * WebSocket server attached to the HTTP server that pushes ride and driver events.
+ * Connections authenticate with the same access token checked by the authenticate middleware
+ * and may only subscribe to channels of rides their user takes part in.
+ *
+ * Connect: ws://host/ws?token=<accessToken> (or an Authorization: Bearer header)
+ * Subscribe: { "type": "subscribe", "rideId": "<ride id>" }
+ */
+
+import { IncomingMessage, Server } from 'http';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { WebSocket, WebSocketServer } from 'ws';
+import pool from '../db/db';
+import { isUuid } from '../utils/validation.utils';
+import { RealtimeClientMessage, RealtimeEvent, RealtimeMessage } from '../types/realtime.type';
+import { RideStatus, RideType } from '../types/ride.type';
+
+/** Interval between heartbeat pings; sockets that miss one are dropped */
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface GatewayConnection {
+  socket: WebSocket;
+  userId: string;
+  role: string;
+  rideIds: Set<string>;
+  isAlive: boolean;
+}
+
+/** Event pushed when a ride enters a status */
+const rideStatusEvents: Record<RideStatus, RealtimeEvent | null> = {
+  requested: null,
+  driver_assigned: 'ride.driver_assigned',
+  driver_arrived: 'ride.driver_arrived',
+  in_progress: 'ride.started',
+  completed: 'ride.completed',
+  cancelled: 'ride.cancelled',
+};
+
+// Open connections per user ID
+const userConnections = new Map<string, Set<GatewayConnection>>();
+
+// Subscribed connections per ride ID
+const rideSubscriptions = new Map<string, Set<GatewayConnection>>();
+
+/**
+ * Sends a message on a socket if it is still open
+ * @param socket - Target socket
+ * @param message - Message to send
+ */
+const send = (socket: WebSocket, message: RealtimeMessage): void => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * Authenticates an upgrade request with the access token; the token's session must still be active
+ * @param req - HTTP upgrade request
+ * @returns Promise resolving to the user's ID and role, or null if the token is invalid
+ */
+const authenticate = async (req: IncomingMessage): Promise<{ id: string; role: string } | null> => {
+  const url = new URL(req.url || '', 'http://localhost');
+  const token = url.searchParams.get('token') || req.headers.authorization?.replace('Bearer ', '');
+  if (!token) return null;
+
+  try {
+    const decodedToken = jwt.verify(token, process.env.ACCESS_TOKEN_SECRET as string) as JwtPayload;
+    const { rows } = await pool.query(
+      `SELECT u.id, u.role
+       FROM users u
+       JOIN sessions s ON s.user_id = u.id
+       WHERE u.id = $1 AND s.id = $2 AND s.revoked_at IS NULL AND s.expires_at > NOW()
+       LIMIT 1`,
+      [decodedToken.userId, decodedToken.sessionId],
+    );
+    return rows[0] || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Subscribes a connection to a ride channel if its user takes part in the ride
+ * The client gets an error frame when the ride cannot be subscribed to.
+ * @param connection - Gateway connection
+ * @param rideId - Ride ID
+ */
+const subscribe = async (connection: GatewayConnection, rideId: string): Promise<void> => {
+  if (!isUuid(rideId)) {
+    send(connection.socket, { event: 'error', data: { rideId, message: 'Invalid ride ID' } });
+    return;
+  }
+
+  let ride: Pick<RideType, 'rider_id' | 'driver_id'> | undefined;
+  try {
+    const { rows } = await pool.query('SELECT rider_id, driver_id FROM rides WHERE id = $1 LIMIT 1', [rideId]);
+    ride = rows[0];
+  } catch (err) {
+    console.error(`❌ Realtime subscribe error for ride ${rideId}:`, err);
+    send(connection.socket, { event: 'error', data: { rideId, message: 'Could not subscribe to this ride' } });
+    return;
+  }
+
+  if (!ride || (ride.rider_id !== connection.userId && ride.driver_id !== connection.userId)) {
+    send(connection.socket, { event: 'error', data: { rideId, message: 'You are not a participant of this ride' } });
+    return;
+  }
+
+  if (!rideSubscriptions.has(rideId)) {
+    rideSubscriptions.set(rideId, new Set());
+  }
+  rideSubscriptions.get(rideId)!.add(connection);
+  connection.rideIds.add(rideId);
+
+  send(connection.socket, { event: 'subscribed', data: { rideId } });
+};
+
+/**
+ * Removes a connection from a ride channel
+ * @param connection - Gateway connection
+ * @param rideId - Ride ID
+ */
+const unsubscribe = (connection: GatewayConnection, rideId: string): void => {
+  const subscribers = rideSubscriptions.get(rideId);
+  subscribers?.delete(connection);
+  if (subscribers && subscribers.size === 0) {
+    rideSubscriptions.delete(rideId);
+  }
+  connection.rideIds.delete(rideId);
+};
+
+/**
+ * Removes every trace of a closed connection
+ * @param connection - Gateway connection
+ */
+const removeConnection = (connection: GatewayConnection): void => {
+  [...connection.rideIds].forEach((rideId) => unsubscribe(connection, rideId));
+
+  const connections = userConnections.get(connection.userId);
+  connections?.delete(connection);
+  if (connections && connections.size === 0) {
+    userConnections.delete(connection.userId);
+  }
+};
+
+/**
+ * Handles a message sent by a client
+ * @param connection - Gateway connection
+ * @param raw - Raw message payload
+ */
+const handleClientMessage = async (connection: GatewayConnection, raw: string): Promise<void> => {
+  let message: RealtimeClientMessage;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    send(connection.socket, { event: 'error', data: { message: 'Invalid message' } });
+    return;
+  }
+
+  if (message?.type === 'subscribe' && message.rideId) {
+    await subscribe(connection, message.rideId);
+  } else if (message?.type === 'unsubscribe' && message.rideId) {
+    unsubscribe(connection, message.rideId);
+    send(connection.socket, { event: 'unsubscribed', data: { rideId: message.rideId } });
+  } else {
+    send(connection.socket, { event: 'error', data: { message: 'Unknown message type' } });
+  }
+};
+
+/**
+ * Attaches the WebSocket gateway to an HTTP server
+ * @param server - HTTP server returned by app.listen
+ * @returns The WebSocket server
+ *
+ * @example
+ * const server = app.listen(PORT);
+ * attachRealtimeGateway(server);
+ */
+export const attachRealtimeGateway = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ server, path: '/ws' });
+
+  wss.on('connection', (socket, req) => {
+    // Messages may arrive before authentication finishes, so handlers wait for it
+    const connectionPromise = authenticate(req).then((user) => {
+      if (!user) {
+        socket.close(4401, 'Unauthorized');
+        return null;
+      }
+
+      const connection: GatewayConnection = {
+        socket,
+        userId: user.id,
+        role: user.role,
+        rideIds: new Set(),
+        isAlive: true,
+      };
+      if (!userConnections.has(user.id)) {
+        userConnections.set(user.id, new Set());
+      }
+      userConnections.get(user.id)!.add(connection);
+      return connection;
+    });
+
+    socket.on('pong', async () => {
+      const connection = await connectionPromise;
+      if (connection) connection.isAlive = true;
+    });
+    socket.on('message', async (raw) => {
+      const connection = await connectionPromise;
+      if (!connection) return;
+
+      handleClientMessage(connection, raw.toString()).catch((err) => console.error('❌ Realtime message error:', err));
+    });
+    socket.on('close', async () => {
+      const connection = await connectionPromise;
+      if (connection) removeConnection(connection);
+    });
+  });
+
+  // Drop sockets that did not answer the previous heartbeat
+  const heartbeat = setInterval(() => {
+    userConnections.forEach((connections) => {
+      connections.forEach((connection) => {
+        if (!connection.isAlive) {
+          connection.socket.terminate();
+          removeConnection(connection);
+          return;
+        }
+
+        connection.isAlive = false;
+        connection.socket.ping();
+      });
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  console.log('🔌 Realtime gateway listening on /ws');
+  return wss;
+};
+
+/**
+ * Pushes an event to every connection of a user
+ * @param userId - Target user ID
+ * @param event - Event name
+ * @param data - Event payload
+ */
+export const publishToUser = (userId: string, event: RealtimeEvent, data: unknown): void => {
+  userConnections.get(userId)?.forEach((connection) => send(connection.socket, { event, data }));
+};
+
+/**
+ * Pushes an event to every connection subscribed to a ride
+ * @param rideId - Target ride ID
+ * @param event - Event name
+ * @param data - Event payload
+ */
+export const publishToRide = (rideId: string, event: RealtimeEvent, data: unknown): void => {
+  rideSubscriptions.get(rideId)?.forEach((connection) => send(connection.socket, { event, data }));
+};
+
+/**
+ * Pushes the event matching a ride's current status to the ride channel
+ * @param ride - Ride after its latest transition
+ */
+export const publishRideUpdate = (ride: RideType): void => {
+  const event = rideStatusEvents[ride.status];
+  if (event) {
+    publishToRide(ride.id, event, ride);
+  }
+};
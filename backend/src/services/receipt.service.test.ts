@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDF_PAGE_HEIGHT } from '../utils/pdf.utils';
+import { renderReceiptPdf } from './receipt.service';
+import { RideReceipt } from '../types/receipt.type';
+
+interface PrintedText {
+  text: string;
+  y: number; // Points from the top edge
+  size: number;
+}
+
+/** Text printed on each page of a rendered PDF, in page order */
+const printedPages = (pdf: Buffer): PrintedText[][] =>
+  [...pdf.toString('latin1').matchAll(/stream\n([\s\S]*?)\nendstream/g)].map(([, content]) =>
+    [...content.matchAll(/BT \/F\d (\d+) Tf [\d.]+ ([\d.]+) Td \((.*)\) Tj ET/g)].map(([, size, y, text]) => ({
+      text,
+      y: PDF_PAGE_HEIGHT - Number(y),
+      size: Number(size),
+    })),
+  );
+
+const receipt: RideReceipt = {
+  receipt_number: 'RYD-20250105-0001',
+  ride_id: '3f2504e0-4f89-11d3-9a0c-0305e82c3301',
+  status: 'completed',
+  currency: 'INR',
+  rider_name: 'Asha',
+  rider_email: 'asha@example.com',
+  driver_name: 'Ravi',
+  vehicle: 'White Maruti Dzire KA01AB1234',
+  ride_option: 'trip',
+  vehicle_type: 'car',
+  pickup: '12 Main Street, Indiranagar, Bengaluru',
+  drop: 'Terminal 2, Kempegowda International Airport, Bengaluru',
+  started_at: new Date('2025-01-05T08:00:00Z'),
+  completed_at: new Date('2025-01-05T08:45:00Z'),
+  cancelled_at: null,
+  cancellation_reason: null,
+  distance_km: 34.2,
+  duration_min: 45,
+  fare_lines: [
+    { label: 'Base fare', amount: 50 },
+    { label: 'Distance', amount: 513 },
+  ],
+  promo_code: null,
+  discount: 0,
+  fare_total: 563,
+  tip: 0,
+  total_paid: 563,
+  payment_method: 'wallet',
+};
+
+const isFooter = ({ text }: PrintedText) => text.startsWith(`Ride ID ${receipt.ride_id}.`);
+
+describe('renderReceiptPdf', () => {
+  it('fits a short receipt on one page with the footer', () => {
+    const pages = printedPages(renderReceiptPdf(receipt));
+
+    assert.equal(pages.length, 1);
+    assert.equal(pages[0].filter(isFooter).length, 1);
+    assert.ok(pages[0].some(({ text }) => text === 'Total paid'));
+  });
+
+  it('moves content that would reach the footer onto a new page', () => {
+    const longAddress = Array.from({ length: 60 }, (_, index) => `Cross road ${index + 1}`).join(', ');
+    const pages = printedPages(
+      renderReceiptPdf({
+        ...receipt,
+        pickup: longAddress,
+        drop: longAddress,
+        fare_lines: Array.from({ length: 20 }, (_, index) => ({ label: `Charge ${index + 1}`, amount: 10 })),
+      }),
+    );
+
+    assert.ok(pages.length > 1);
+    pages.forEach((page, index) => {
+      const footers = page.filter(isFooter);
+      assert.equal(footers.length, 1);
+      assert.match(footers[0].text, new RegExp(`Page ${index + 1} of ${pages.length}\\.$`));
+
+      // Every other line ends well above the footer line
+      for (const { y, size } of page.filter((text) => !isFooter(text))) {
+        assert.ok(y + size < footers[0].y - footers[0].size, `text at y=${y} overlaps the footer`);
+      }
+    });
+    assert.ok(pages[pages.length - 1].some(({ text }) => text === 'Payment method'));
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Receipt Service
+ * Builds trip receipts for completed rides and renders them as PDF. A receipt is
+ * built from the ride as it is when the receipt is read, so the PDF download also
+ * shows a tip recorded after the receipt email was sent on completion. A ride
+ * cancelled for a fee gets a receipt listing only the cancellation fee.
+ */
+
+import pool from '../db/db';
+import { renderPdf, PdfRule, PdfText, wrapText } from '../utils/pdf.utils';
+import { formatFareAmount, roundTo2 } from '../utils/fare-calculator.utils';
+import { sendRideReceiptEmail } from '../emails/send-ride-receipt.email';
+import { FARE_CURRENCY } from '../constants';
+import { FareBreakdown, IntercityFareBreakdown } from '../types/fare.type';
+import { ReceiptLine, RideReceipt } from '../types/receipt.type';
+
+/** Left and right margins of the PDF receipt, in points */
+const PDF_LEFT = 50;
+const PDF_RIGHT = 545;
+
+/** Top margin, lowest content baseline and footer baseline of each receipt page, in points */
+const PDF_TOP = 70;
+const PDF_CONTENT_BOTTOM = 770;
+const PDF_FOOTER_Y = 800;
+
+/**
+ * Lists the fare components of a breakdown, skipping those that do not apply
+ * @param fare - Final fare breakdown
+ * @returns Labelled amounts, before the promo discount
+ */
+const buildFareLines = (fare: FareBreakdown | IntercityFareBreakdown): ReceiptLine[] => {
+  const lines: ReceiptLine[] =
+    'trip_type' in fare
+      ? [
+          { label: 'Base fare', amount: fare.base_fare },
+          { label: `Distance (${fare.billable_distance_km} km)`, amount: fare.distance_fare },
+          { label: 'Minimum distance adjustment', amount: fare.minimum_distance_adjustment },
+          { label: `Driver allowance (${fare.trip_days} days)`, amount: fare.driver_allowance },
+          { label: 'Booking fee', amount: fare.booking_fee },
+          { label: 'Taxes', amount: fare.taxes },
+          { label: 'Toll charges', amount: fare.toll_charges },
+          { label: 'State permit charges', amount: fare.state_permit_charges },
+        ]
+      : [
+          { label: 'Base fare', amount: fare.base_fare },
+          { label: `Distance (${fare.distance_km} km)`, amount: fare.distance_fare },
+          { label: `Time (${fare.duration_min} min)`, amount: fare.time_fare },
+          { label: 'Minimum fare adjustment', amount: fare.minimum_fare_adjustment },
+          { label: 'Booking fee', amount: fare.booking_fee },
+          { label: 'Taxes', amount: fare.taxes },
+          { label: `Extra seats (${(fare.seats ?? 1) - 1})`, amount: fare.extra_seat_charge ?? 0 },
+          { label: 'Pool discount', amount: -(fare.pool_discount ?? 0) },
+        ];
+
+  return lines.filter(({ label, amount }) => label === 'Base fare' || Number(amount) !== 0);
+};
+
+/**
+ * Builds the receipt of a completed ride, or of a ride cancelled for a fee
+ * @param rideId - Ride ID
+ * @returns Promise resolving to the receipt, or null if the ride has nothing to receipt
+ */
+export const getRideReceipt = async (rideId: string): Promise<RideReceipt | null> => {
+  const { rows } = await pool.query(
+    `SELECT r.*, rider.firstname AS rider_firstname, rider.lastname AS rider_lastname, rider.email AS rider_email,
+            driver.firstname AS driver_firstname, driver.lastname AS driver_lastname,
+            d.vehicle_colour, d.vehicle_make, d.vehicle_model, d.vehicle_plate, t.amount AS tip,
+            c.fee AS cancellation_fee, c.driver_travelled_km
+     FROM rides r
+     JOIN users rider ON rider.id = r.rider_id
+     LEFT JOIN users driver ON driver.id = r.driver_id
+     LEFT JOIN drivers d ON d.user_id = r.driver_id
+     LEFT JOIN ride_tips t ON t.ride_id = r.id
+     LEFT JOIN ride_cancellations c ON c.ride_id = r.id
+     WHERE r.id = $1 AND (r.status = 'completed' OR (r.status = 'cancelled' AND c.fee > 0))
+     LIMIT 1`,
+    [rideId],
+  );
+  if (rows.length === 0) return null;
+
+  const ride = rows[0];
+  const receipt = {
+    receipt_number: `RYD-${ride.id.slice(0, 8).toUpperCase()}`,
+    ride_id: ride.id,
+    status: ride.status,
+    rider_name: `${ride.rider_firstname} ${ride.rider_lastname}`,
+    rider_email: ride.rider_email,
+    driver_name: ride.driver_firstname ? `${ride.driver_firstname} ${ride.driver_lastname}` : null,
+    vehicle: ride.vehicle_plate
+      ? `${ride.vehicle_colour} ${ride.vehicle_make} ${ride.vehicle_model} (${ride.vehicle_plate})`
+      : null,
+    ride_option: ride.ride_option,
+    vehicle_type: ride.vehicle_type,
+    pickup: ride.pickup_address || `${ride.pickup_lat}, ${ride.pickup_lng}`,
+    drop: ride.drop_address || `${ride.drop_lat}, ${ride.drop_lng}`,
+    started_at: ride.started_at,
+    completed_at: ride.completed_at,
+    cancelled_at: ride.cancelled_at,
+    cancellation_reason: ride.cancellation_reason,
+  };
+
+  if (ride.status === 'cancelled') {
+    const fee = Number(ride.cancellation_fee);
+    return {
+      ...receipt,
+      currency: FARE_CURRENCY,
+      distance_km: null,
+      duration_min: null,
+      fare_lines: [{ label: `Cancellation fee (driver drove ${ride.driver_travelled_km} km)`, amount: fee }],
+      promo_code: null,
+      discount: 0,
+      fare_total: fee,
+      tip: 0,
+      total_paid: fee,
+      payment_method: 'wallet', // Cancellation fees are always taken from the wallet
+    };
+  }
+
+  const fare: FareBreakdown | IntercityFareBreakdown = ride.fare_breakdown;
+  const tip = Number(ride.tip ?? 0);
+
+  return {
+    ...receipt,
+    currency: fare.currency,
+    distance_km: Number(ride.distance_km),
+    duration_min: Number(ride.duration_min),
+    fare_lines: buildFareLines(fare),
+    promo_code: fare.promo_code ?? null,
+    discount: fare.discount ?? 0,
+    fare_total: Number(ride.final_fare),
+    tip,
+    total_paid: roundTo2(Number(ride.final_fare) + tip),
+    payment_method: ride.payment_method,
+  };
+};
+
+/**
+ * Emails the receipt of a completed ride, or of a ride cancelled for a fee, to its rider
+ * @param rideId - Ride ID
+ */
+export const sendRideReceipt = async (rideId: string): Promise<void> => {
+  const receipt = await getRideReceipt(rideId);
+  if (!receipt) return;
+
+  await sendRideReceiptEmail({ name: receipt.rider_name, email: receipt.rider_email }, receipt);
+};
+
+/**
+ * Renders a receipt as a PDF
+ * Content that would reach the footer, such as long addresses, continues on a new page.
+ * @param receipt - Ride receipt
+ * @returns PDF file contents
+ */
+export const renderReceiptPdf = (receipt: RideReceipt): Buffer => {
+  const texts: PdfText[] = [];
+  const rules: PdfRule[] = [];
+  let page = 0;
+  let y = PDF_TOP;
+
+  const text = (item: PdfText) => texts.push({ ...item, page });
+  const rule = (ruleY: number) => rules.push({ x1: PDF_LEFT, x2: PDF_RIGHT, y: ruleY, page });
+
+  // Moves to a new page when the next block would run into the footer
+  const reserve = (height: number) => {
+    if (y + height <= PDF_CONTENT_BOTTOM) return;
+    page += 1;
+    y = PDF_TOP;
+  };
+
+  const row = (label: string, value: string, bold = false) => {
+    reserve(0);
+    text({ text: label, x: PDF_LEFT, y, bold });
+    text({ text: value, x: PDF_RIGHT, y, bold, align: 'right' });
+    y += 18;
+  };
+
+  const amount = (value: number) => formatFareAmount(receipt.currency, value);
+  const cancelled = receipt.status === 'cancelled';
+  const issuedAt = cancelled ? receipt.cancelled_at : receipt.completed_at;
+
+  text({ text: 'Ryde', x: PDF_LEFT, y, size: 22, bold: true });
+  text({ text: cancelled ? 'Cancellation receipt' : 'Trip receipt', x: PDF_RIGHT, y, size: 14, align: 'right' });
+  y += 24;
+  text({ text: `Receipt ${receipt.receipt_number}`, x: PDF_LEFT, y, size: 9 });
+  text({ text: new Date(issuedAt!).toUTCString(), x: PDF_RIGHT, y, size: 9, align: 'right' });
+  y += 30;
+
+  text({
+    text: cancelled ? `Cancelled ride, ${receipt.rider_name}` : `Thanks for riding, ${receipt.rider_name}`,
+    x: PDF_LEFT,
+    y,
+    size: 13,
+    bold: true,
+  });
+  y += 30;
+
+  // Route summary
+  reserve(20);
+  text({ text: 'Trip', x: PDF_LEFT, y, size: 12, bold: true });
+  y += 20;
+  for (const [label, place] of [
+    ['Pickup', receipt.pickup],
+    ['Drop', receipt.drop],
+  ]) {
+    reserve(0);
+    text({ text: label, x: PDF_LEFT, y, bold: true });
+    for (const line of wrapText(place, PDF_RIGHT - PDF_LEFT - 60, 10)) {
+      reserve(0);
+      text({ text: line, x: PDF_LEFT + 60, y });
+      y += 14;
+    }
+    y += 4;
+  }
+  if (cancelled) {
+    row('Cancelled', new Date(receipt.cancelled_at!).toUTCString());
+    if (receipt.cancellation_reason) row('Reason', receipt.cancellation_reason.replace(/_/g, ' '));
+  } else {
+    row('Started', new Date(receipt.started_at!).toUTCString());
+    row('Completed', new Date(receipt.completed_at!).toUTCString());
+    row('Distance', `${receipt.distance_km} km`);
+    row('Duration', `${receipt.duration_min} min`);
+  }
+  row('Ride', `${receipt.ride_option} (${receipt.vehicle_type})`);
+  if (receipt.driver_name) row('Driver', receipt.driver_name);
+  if (receipt.vehicle) row('Vehicle', receipt.vehicle);
+  y += 12;
+
+  // Fare breakdown
+  reserve(20);
+  text({ text: 'Fare', x: PDF_LEFT, y, size: 12, bold: true });
+  y += 20;
+  receipt.fare_lines.forEach(({ label, amount: value }) => row(label, amount(value)));
+  if (receipt.promo_code) row(`Promo (${receipt.promo_code})`, `-${amount(receipt.discount)}`);
+  reserve(4);
+  rule(y - 10);
+  y += 4;
+  row('Fare total', amount(receipt.fare_total), true);
+  if (receipt.tip > 0) row('Tip', amount(receipt.tip));
+  reserve(4);
+  rule(y - 10);
+  y += 4;
+  row('Total paid', amount(receipt.total_paid), true);
+  row('Payment method', receipt.payment_method === 'wallet' ? 'Ryde wallet' : 'Cash');
+
+  for (let footerPage = 0; footerPage <= page; footerPage++) {
+    texts.push({
+      text: `Ride ID ${receipt.ride_id}. This receipt was generated by Ryde.${page > 0 ? ` Page ${footerPage + 1} of ${page + 1}.` : ''}`,
+      x: PDF_LEFT,
+      y: PDF_FOOTER_Y,
+      size: 8,
+      page: footerPage,
+    });
+  }
+
+  return renderPdf(texts, rules);
+};
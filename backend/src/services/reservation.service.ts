@@ -0,0 +1,207 @@
+/**
+ * Reservation Service
+ * Lead-time rules and scheduled processing for reserve and intercity rides: pickup reminders,
+ * turning due reservations into dispatchable rides and failing reservations
+ * that no driver accepted before the pickup time.
+ */
+
+import pool from '../db/db';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { lockRiderAndCheckActiveRide } from '../utils/ride-state-machine.utils';
+import { addMinutesToDate } from '../utils/otp-generator.utils';
+import { sendReservationReminderEmail } from '../emails/send-reservation-reminder.email';
+import { sendReservationFailedEmail } from '../emails/send-reservation-failed.email';
+import {
+  INTERCITY_DISPATCH_LEAD_MINUTES,
+  RESERVATION_DISPATCH_LEAD_MINUTES,
+  RESERVATION_MAX_LEAD_DAYS,
+  RESERVATION_MIN_LEAD_MINUTES,
+  RESERVATION_REMINDER_MINUTES,
+} from '../constants';
+import { RideType } from '../types/ride.type';
+
+/**
+ * Checks that a pickup time respects the minimum and maximum lead times
+ * @param scheduledAt - Requested pickup time
+ * @param now - Current time (defaults to the wall clock)
+ * @returns Error message, or null if the time is allowed
+ */
+export const validateReservationTime = (scheduledAt: Date, now: Date = new Date()): string | null => {
+  if (Number.isNaN(scheduledAt.getTime())) {
+    return 'Invalid pickup time';
+  }
+  if (scheduledAt < addMinutesToDate(now, RESERVATION_MIN_LEAD_MINUTES)) {
+    return `Pickup time must be at least ${RESERVATION_MIN_LEAD_MINUTES} minutes from now`;
+  }
+  if (scheduledAt > addMinutesToDate(now, RESERVATION_MAX_LEAD_DAYS * 24 * 60)) {
+    return `Pickup time must be within ${RESERVATION_MAX_LEAD_DAYS} days`;
+  }
+  return null;
+};
+
+/**
+ * Sends reminder emails for reservations whose pickup is within RESERVATION_REMINDER_MINUTES
+ * @returns Promise resolving to the number of reminders sent
+ */
+export const sendDueReservationReminders = async (): Promise<number> => {
+  const { rows } = await pool.query(
+    `UPDATE ride_reservations r
+     SET reminder_sent_at = NOW()
+     FROM users u
+     WHERE u.id = r.rider_id AND r.status = 'scheduled' AND r.reminder_sent_at IS NULL
+       AND r.scheduled_at <= NOW() + make_interval(mins => $1)
+     RETURNING r.*, u.firstname, u.lastname, u.email`,
+    [RESERVATION_REMINDER_MINUTES],
+  );
+
+  for (const reservation of rows) {
+    try {
+      await sendReservationReminderEmail(
+        { name: `${reservation.firstname} ${reservation.lastname}`, email: reservation.email },
+        reservation,
+      );
+    } catch (err) {
+      console.error(`Error sending reminder for reservation ${reservation.id}:`, err);
+    }
+  }
+
+  return rows.length;
+};
+
+/**
+ * Creates rides for reservations entering the dispatch window
+ * Each reservation is locked and moved to dispatching together with its ride.
+ * Like requestRide, a rider with a ride still going gets no second one: the reservation
+ * waits for a later pass, and fails once its pickup time has passed. The rider is emailed
+ * about a failed reservation after the transaction commits, as failReservationForRide does.
+ * @returns Promise resolving to the rides that should be dispatched
+ */
+export const createRidesForDueReservations = async (): Promise<RideType[]> => {
+  const { rides, failedReservations } = await withTransaction(async (client) => {
+    // Intercity drivers need more notice, so their dispatch window opens earlier
+    const { rows: reservations } = await client.query(
+      `SELECT * FROM ride_reservations
+       WHERE status = 'scheduled'
+         AND scheduled_at <= NOW() + make_interval(mins => CASE WHEN ride_option = 'intercity' THEN $2 ELSE $1 END)
+       FOR UPDATE SKIP LOCKED`,
+      [RESERVATION_DISPATCH_LEAD_MINUTES, INTERCITY_DISPATCH_LEAD_MINUTES],
+    );
+
+    const rides: RideType[] = [];
+    const failedReservations = [];
+    for (const reservation of reservations) {
+      if (await lockRiderAndCheckActiveRide(client, reservation.rider_id)) {
+        if (new Date(reservation.scheduled_at) <= new Date()) {
+          const failed = await client.query(
+            `UPDATE ride_reservations r
+             SET status = 'failed', updated_at = NOW()
+             FROM users u
+             WHERE u.id = r.rider_id AND r.id = $1
+             RETURNING r.*, u.firstname, u.lastname, u.email`,
+            [reservation.id],
+          );
+          failedReservations.push(...failed.rows);
+        }
+        continue;
+      }
+
+      const ride = await client.query(
+        `INSERT INTO rides (rider_id, ride_option, vehicle_type, pickup_lat, pickup_lng, pickup_address, drop_lat, drop_lng, drop_address,
+                            estimated_distance_km, estimated_duration_min, estimated_fare)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING *`,
+        [
+          reservation.rider_id,
+          reservation.ride_option,
+          reservation.vehicle_type,
+          reservation.pickup_lat,
+          reservation.pickup_lng,
+          reservation.pickup_address,
+          reservation.drop_lat,
+          reservation.drop_lng,
+          reservation.drop_address,
+          reservation.estimated_distance_km,
+          reservation.estimated_duration_min,
+          reservation.estimated_fare,
+        ],
+      );
+
+      await client.query(
+        'INSERT INTO ride_status_transitions (ride_id, from_status, to_status, actor_id) VALUES ($1, NULL, $2, NULL)',
+        [ride.rows[0].id, 'requested'],
+      );
+      await client.query(
+        "UPDATE ride_reservations SET status = 'dispatching', ride_id = $1, updated_at = NOW() WHERE id = $2",
+        [ride.rows[0].id, reservation.id],
+      );
+
+      rides.push(ride.rows[0]);
+    }
+
+    return { rides, failedReservations };
+  });
+
+  for (const reservation of failedReservations) {
+    try {
+      await sendReservationFailedEmail(
+        { name: `${reservation.firstname} ${reservation.lastname}`, email: reservation.email },
+        reservation,
+      );
+    } catch (err) {
+      console.error(`Error sending failure email for reservation ${reservation.id}:`, err);
+    }
+  }
+
+  return rides;
+};
+
+/**
+ * Lists rides of dispatching reservations that are still waiting for a driver
+ * @returns Promise resolving to the waiting rides with their reservation's pickup time
+ */
+export const getWaitingReservationRides = async (): Promise<(RideType & { scheduled_at: Date })[]> => {
+  const { rows } = await pool.query(
+    `SELECT r.*, rr.scheduled_at
+     FROM ride_reservations rr
+     JOIN rides r ON r.id = rr.ride_id
+     WHERE rr.status = 'dispatching' AND r.status = 'requested'`,
+  );
+  return rows;
+};
+
+/**
+ * Checks whether a ride belongs to a reservation whose pickup time has not passed yet,
+ * in which case a failed dispatch round is retried by the reservation job
+ * @param rideId - Ride ID
+ * @returns Promise resolving to true if dispatch will be retried
+ */
+export const isAwaitingReservationRetry = async (rideId: string): Promise<boolean> => {
+  const { rowCount } = await pool.query(
+    "SELECT 1 FROM ride_reservations WHERE ride_id = $1 AND status = 'dispatching' AND scheduled_at > NOW()",
+    [rideId],
+  );
+  return (rowCount ?? 0) > 0;
+};
+
+/**
+ * Marks the reservation of a ride as failed and notifies the rider
+ * @param rideId - Ride ID whose dispatch failed
+ */
+export const failReservationForRide = async (rideId: string): Promise<void> => {
+  const { rows } = await pool.query(
+    `UPDATE ride_reservations r
+     SET status = 'failed', updated_at = NOW()
+     FROM users u
+     WHERE u.id = r.rider_id AND r.ride_id = $1 AND r.status = 'dispatching'
+     RETURNING r.*, u.firstname, u.lastname, u.email`,
+    [rideId],
+  );
+
+  if (rows.length === 0) return;
+
+  const reservation = rows[0];
+  await sendReservationFailedEmail(
+    { name: `${reservation.firstname} ${reservation.lastname}`, email: reservation.email },
+    reservation,
+  );
+};
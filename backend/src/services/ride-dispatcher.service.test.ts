@@ -0,0 +1,292 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RideDispatcher } from './ride-dispatcher.service';
+import {
+  DispatchCandidate,
+  DispatchClock,
+  DispatchDependencies,
+  DispatchRide,
+  RideOffer,
+} from '../types/dispatch.type';
+
+const OFFER_TIMEOUT_MS = 15000;
+
+/** Clock whose time only moves when the test advances it */
+class FakeClock implements DispatchClock {
+  private time = 0;
+  private nextHandle = 1;
+  private readonly timers = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /** Moves time forward and runs the timers that fall due, then lets their async work finish */
+  async advance(ms: number): Promise<void> {
+    this.time += ms;
+    for (const [handle, { at, callback }] of [...this.timers].sort(([, a], [, b]) => a.at - b.at)) {
+      if (at > this.time) continue;
+      this.timers.delete(handle);
+      callback();
+    }
+    await settle();
+  }
+}
+
+/** Waits until pending promise callbacks have run */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const ride = (id: string): DispatchRide => ({
+  id,
+  pickup_lat: 12.97,
+  pickup_lng: 77.59,
+  drop_lat: 12.93,
+  drop_lng: 77.62,
+  vehicle_type: 'car',
+  ride_option: 'trip',
+  seats: 1,
+  estimated_duration_min: 20,
+});
+
+const candidates = (...driverIds: string[]): DispatchCandidate[] =>
+  driverIds.map((driverId, index) => ({ driverId, distanceKm: index + 1 }));
+
+describe('RideDispatcher', () => {
+  let clock: FakeClock;
+  let offers: RideOffer[];
+  let expired: string[];
+  let noDriverFound: string[];
+  let deps: DispatchDependencies;
+
+  const offeredDrivers = () => offers.map(({ driverId }) => driverId);
+  const createDispatcher = (overrides: Partial<DispatchDependencies> = {}) =>
+    new RideDispatcher({ ...deps, ...overrides });
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    offers = [];
+    expired = [];
+    noDriverFound = [];
+    deps = {
+      clock,
+      offerTimeoutMs: OFFER_TIMEOUT_MS,
+      findCandidates: async () => candidates('d1', 'd2', 'd3'),
+      findDeclinedDrivers: async () => [],
+      createOffer: async () => {},
+      expireOffer: async (rideId, driverId) => {
+        expired.push(`${rideId}:${driverId}`);
+        return true;
+      },
+      onOffer: (offer) => {
+        offers.push(offer);
+      },
+      onNoDriverFound: async (rideId) => {
+        noDriverFound.push(rideId);
+      },
+    };
+  });
+
+  it('offers the ride to the best candidate until the offer timeout', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+
+    assert.deepEqual(offers, [{ rideId: 'r1', driverId: 'd1', distanceKm: 1, expiresAt: new Date(OFFER_TIMEOUT_MS) }]);
+    assert.equal(dispatcher.isDispatching('r1'), true);
+  });
+
+  it('moves to the next candidate when the offer times out', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+
+    await clock.advance(OFFER_TIMEOUT_MS - 1);
+    assert.deepEqual(offeredDrivers(), ['d1']);
+
+    await clock.advance(1);
+    assert.deepEqual(expired, ['r1:d1']);
+    assert.deepEqual(offeredDrivers(), ['d1', 'd2']);
+    assert.equal(offers[1].expiresAt.getTime(), 2 * OFFER_TIMEOUT_MS);
+  });
+
+  it('keeps the offer when the driver answered as it timed out', async () => {
+    const dispatcher = createDispatcher({ expireOffer: async () => false });
+    await dispatcher.dispatch(ride('r1'));
+
+    await clock.advance(OFFER_TIMEOUT_MS);
+    assert.deepEqual(offeredDrivers(), ['d1']);
+  });
+
+  it('moves to the next candidate when the offered driver declines', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+
+    await dispatcher.handleDeclined('r1', 'd2');
+    assert.deepEqual(offeredDrivers(), ['d1']);
+
+    await dispatcher.handleDeclined('r1', 'd1');
+    assert.deepEqual(offeredDrivers(), ['d1', 'd2']);
+    assert.equal(clock.pendingTimers, 1);
+  });
+
+  it('skips drivers who declined the ride in an earlier round', async () => {
+    const dispatcher = createDispatcher({ findDeclinedDrivers: async () => ['d1', 'd2'] });
+    await dispatcher.dispatch(ride('r1'));
+
+    assert.deepEqual(offeredDrivers(), ['d3']);
+  });
+
+  it('does not offer two rides to the same driver at once', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+    await dispatcher.dispatch(ride('r2'));
+
+    assert.deepEqual(
+      offers.map(({ rideId, driverId }) => `${rideId}:${driverId}`),
+      ['r1:d1', 'r2:d2'],
+    );
+  });
+
+  it('moves to the next candidate when an offer cannot be stored', async (t) => {
+    const logError = t.mock.method(console, 'error', () => {});
+    let failNextOffer = true;
+    const dispatcher = createDispatcher({
+      createOffer: async () => {
+        if (!failNextOffer) return;
+        failNextOffer = false;
+        throw new Error('insert failed');
+      },
+    });
+    await dispatcher.dispatch(ride('r1'));
+
+    assert.deepEqual(offeredDrivers(), ['d2']);
+    assert.equal(clock.pendingTimers, 1);
+    assert.equal(logError.mock.callCount(), 1);
+
+    // The failed offer does not keep the driver from other rides
+    await dispatcher.dispatch(ride('r2'));
+    assert.deepEqual(offeredDrivers(), ['d2', 'd1']);
+  });
+
+  it('expires an offer stored after the ride was cancelled', async () => {
+    let dispatcher: RideDispatcher | null = null;
+    dispatcher = createDispatcher({
+      createOffer: async () => {
+        dispatcher?.cancel('r1');
+      },
+    });
+    await dispatcher.dispatch(ride('r1'));
+
+    assert.deepEqual(offers, []);
+    assert.deepEqual(expired, ['r1:d1']);
+    assert.equal(clock.pendingTimers, 0);
+  });
+
+  it('stops tracking the ride when starting dispatch fails', async () => {
+    let failLookup = true;
+    const dispatcher = createDispatcher({
+      findDeclinedDrivers: async () => {
+        if (failLookup) throw new Error('connection lost');
+        return [];
+      },
+    });
+
+    await assert.rejects(dispatcher.dispatch(ride('r1')), /connection lost/);
+    assert.equal(dispatcher.isDispatching('r1'), false);
+
+    failLookup = false;
+    await dispatcher.dispatch(ride('r1'));
+    assert.deepEqual(offeredDrivers(), ['d1']);
+  });
+
+  it('frees the ride and the driver when the first offer fails', async () => {
+    let failNextOffer = true;
+    const dispatcher = createDispatcher({
+      onOffer: (offer) => {
+        if (!failNextOffer) return deps.onOffer(offer);
+        failNextOffer = false;
+        throw new Error('publish failed');
+      },
+    });
+
+    await assert.rejects(dispatcher.dispatch(ride('r1')), /publish failed/);
+    assert.equal(dispatcher.isDispatching('r1'), false);
+    assert.equal(clock.pendingTimers, 0);
+    assert.deepEqual(expired, ['r1:d1']);
+
+    await dispatcher.dispatch(ride('r2'));
+    assert.deepEqual(
+      offers.map(({ rideId, driverId }) => `${rideId}:${driverId}`),
+      ['r2:d1'],
+    );
+  });
+
+  it('stops tracking the ride when the candidate search fails', async () => {
+    const dispatcher = createDispatcher({ findCandidates: async () => Promise.reject(new Error('query failed')) });
+
+    await assert.rejects(dispatcher.dispatch(ride('r1')), /query failed/);
+    assert.equal(dispatcher.isDispatching('r1'), false);
+    assert.deepEqual(noDriverFound, []);
+  });
+
+  it('gives up once every candidate declined or timed out', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+
+    await dispatcher.handleDeclined('r1', 'd1');
+    await clock.advance(OFFER_TIMEOUT_MS);
+    await dispatcher.handleDeclined('r1', 'd3');
+
+    assert.deepEqual(offeredDrivers(), ['d1', 'd2', 'd3']);
+    assert.deepEqual(noDriverFound, ['r1']);
+    assert.equal(dispatcher.isDispatching('r1'), false);
+  });
+
+  it('gives up at once when there are no candidates', async () => {
+    const dispatcher = createDispatcher({ findCandidates: async () => [] });
+    await dispatcher.dispatch(ride('r1'));
+
+    assert.deepEqual(offers, []);
+    assert.deepEqual(noDriverFound, ['r1']);
+  });
+
+  it('stops dispatching once the ride is accepted', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+
+    dispatcher.handleAccepted('r1');
+    await clock.advance(OFFER_TIMEOUT_MS);
+
+    assert.equal(dispatcher.isDispatching('r1'), false);
+    assert.equal(clock.pendingTimers, 0);
+    assert.deepEqual(offeredDrivers(), ['d1']);
+    assert.deepEqual(expired, []);
+  });
+
+  it('frees the offered driver when the ride is cancelled', async () => {
+    const dispatcher = createDispatcher();
+    await dispatcher.dispatch(ride('r1'));
+
+    dispatcher.cancel('r1');
+    await clock.advance(OFFER_TIMEOUT_MS);
+    await dispatcher.dispatch(ride('r2'));
+
+    assert.deepEqual(
+      offers.map(({ rideId, driverId }) => `${rideId}:${driverId}`),
+      ['r1:d1', 'r2:d1'],
+    );
+    assert.deepEqual(noDriverFound, []);
+  });
+});
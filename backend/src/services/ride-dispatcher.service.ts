@@ -0,0 +1,359 @@
+/**
+ * Ride Dispatcher Service
+ * Matches requested rides with nearby available drivers. Offers a ride to one
+ * driver at a time, moving to the next candidate when the driver declines or the
+ * offer times out. Acceptance itself is made race-safe in the database: an offer
+ * can only move out of pending once and the ride row is locked while assigning.
+ */
+
+import pool from '../db/db';
+import { withTransaction } from '../utils/db-transaction.utils';
+import { transitionRideStatus } from '../utils/ride-state-machine.utils';
+import { findNearbyOnlineDrivers } from './driver-location.service';
+import { publishRideUpdate, publishToUser } from './realtime-gateway.service';
+import { failReservationForRide, isAwaitingReservationRetry } from './reservation.service';
+import { releasePromoRedemption } from './promo.service';
+import { planRideIntoPool } from './pool.service';
+import {
+  DISPATCH_MIN_DRIVER_RATING,
+  DISPATCH_OFFER_TIMEOUT_SECONDS,
+  DISPATCH_RADIUS_KM,
+  INTERCITY_DISPATCH_RADIUS_KM,
+  RATING_MIN_COUNT,
+} from '../constants';
+import {
+  DispatchCandidate,
+  DispatchClock,
+  DispatchDependencies,
+  DispatchRide,
+  RideOffer,
+} from '../types/dispatch.type';
+
+interface DispatchState {
+  ride: DispatchRide;
+  triedDriverIds: Set<string>; // Drivers already offered this ride
+  currentOffer: { driverId: string; timer: unknown } | null;
+}
+
+/**
+ * Offers rides to candidate drivers one at a time
+ *
+ * @example
+ * const dispatcher = new RideDispatcher({ clock: fakeClock, offerTimeoutMs: 15000, ...fakes });
+ * await dispatcher.dispatch(ride);
+ * fakeClock.advance(15000); // offer expires, next candidate is offered
+ */
+export class RideDispatcher {
+  private readonly states = new Map<string, DispatchState>();
+  private readonly driversWithOffer = new Set<string>();
+
+  constructor(private readonly deps: DispatchDependencies) {}
+
+  /**
+   * Starts dispatching a ride
+   * Drivers who declined the ride in an earlier round are not offered it again.
+   * If starting fails, the ride is no longer tracked, so a later dispatch can try again.
+   * @param ride - Ride to find a driver for
+   * @throws The error of the dependency that failed
+   */
+  async dispatch(ride: DispatchRide): Promise<void> {
+    if (this.states.has(ride.id)) return;
+
+    const state: DispatchState = { ride, triedDriverIds: new Set(), currentOffer: null };
+    this.states.set(ride.id, state);
+
+    try {
+      for (const driverId of await this.deps.findDeclinedDrivers(ride.id)) {
+        state.triedDriverIds.add(driverId);
+      }
+      await this.offerNext(ride.id);
+    } catch (err) {
+      if (this.states.get(ride.id) === state) {
+        // An offer already stored would otherwise stay pending with no timer to expire it
+        const offeredDriverId = state.currentOffer?.driverId;
+        this.stop(ride.id);
+        if (offeredDriverId) {
+          await this.deps
+            .expireOffer(ride.id, offeredDriverId)
+            .catch((expireErr) => console.error(`Error expiring offer for ride ${ride.id}:`, expireErr));
+        }
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Checks whether a ride is currently being dispatched
+   * @param rideId - Ride ID
+   * @returns True while the dispatcher is looking for a driver
+   */
+  isDispatching(rideId: string): boolean {
+    return this.states.has(rideId);
+  }
+
+  /**
+   * Stops dispatch after the offered driver accepted the ride
+   * @param rideId - Ride ID
+   */
+  handleAccepted(rideId: string): void {
+    this.stop(rideId);
+  }
+
+  /**
+   * Moves to the next candidate after the offered driver declined
+   * @param rideId - Ride ID
+   * @param driverId - Driver who declined
+   */
+  async handleDeclined(rideId: string, driverId: string): Promise<void> {
+    const state = this.states.get(rideId);
+    if (!state?.currentOffer || state.currentOffer.driverId !== driverId) return;
+
+    this.clearOffer(state);
+    await this.offerNext(rideId);
+  }
+
+  /**
+   * Stops dispatch when the ride is cancelled
+   * @param rideId - Ride ID
+   */
+  cancel(rideId: string): void {
+    this.stop(rideId);
+  }
+
+  private stop(rideId: string): void {
+    const state = this.states.get(rideId);
+    if (!state) return;
+
+    this.clearOffer(state);
+    this.states.delete(rideId);
+  }
+
+  private clearOffer(state: DispatchState): void {
+    if (!state.currentOffer) return;
+
+    this.deps.clock.clearTimeout(state.currentOffer.timer);
+    this.driversWithOffer.delete(state.currentOffer.driverId);
+    state.currentOffer = null;
+  }
+
+  private async handleTimeout(rideId: string, driverId: string): Promise<void> {
+    const state = this.states.get(rideId);
+    if (!state?.currentOffer || state.currentOffer.driverId !== driverId) return;
+
+    // The driver may have accepted at the same moment; only move on if the offer was still pending
+    const expired = await this.deps.expireOffer(rideId, driverId);
+    if (!expired) return;
+
+    this.clearOffer(state);
+    await this.offerNext(rideId);
+  }
+
+  private async offerNext(rideId: string): Promise<void> {
+    const state = this.states.get(rideId);
+    if (!state) return;
+
+    const candidates = await this.deps.findCandidates(state.ride);
+    const candidate = candidates.find(
+      ({ driverId }) => !state.triedDriverIds.has(driverId) && !this.driversWithOffer.has(driverId),
+    );
+
+    // The ride may have been accepted or cancelled while candidates were loading
+    if (this.states.get(rideId) !== state || state.currentOffer) return;
+
+    if (!candidate) {
+      this.states.delete(rideId);
+      await this.deps.onNoDriverFound(rideId);
+      return;
+    }
+
+    const offer: RideOffer = {
+      rideId,
+      driverId: candidate.driverId,
+      distanceKm: candidate.distanceKm,
+      expiresAt: new Date(this.deps.clock.now() + this.deps.offerTimeoutMs),
+    };
+
+    state.triedDriverIds.add(candidate.driverId);
+    this.driversWithOffer.add(candidate.driverId);
+
+    // The offer is stored before its timer starts, so a failed insert leaves nothing pending
+    try {
+      await this.deps.createOffer(offer);
+    } catch (err) {
+      console.error(`Error offering ride ${rideId} to driver ${candidate.driverId}:`, err);
+      this.driversWithOffer.delete(candidate.driverId);
+      await this.offerNext(rideId);
+      return;
+    }
+
+    // The ride may have been cancelled while the offer was being stored
+    if (this.states.get(rideId) !== state) {
+      this.driversWithOffer.delete(candidate.driverId);
+      await this.deps.expireOffer(rideId, candidate.driverId);
+      return;
+    }
+
+    state.currentOffer = {
+      driverId: candidate.driverId,
+      timer: this.deps.clock.setTimeout(() => {
+        this.handleTimeout(rideId, candidate.driverId).catch((err) =>
+          console.error('Error handling ride offer timeout:', err),
+        );
+      }, this.deps.offerTimeoutMs),
+    };
+    this.deps.onOffer(offer);
+  }
+}
+
+/** Wall-clock time source */
+export const systemClock: DispatchClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Finds approved, online drivers without an active ride near the pickup, nearest first
+ * The spatial search runs on the in-process index; the database only checks the nearby set.
+ * Intercity rides search a wider radius and only go to drivers who opted in to intercity work.
+ * Drivers with enough ratings to be judged are skipped when their average is below DISPATCH_MIN_DRIVER_RATING.
+ * @param ride - Ride to find drivers for
+ * @returns Candidate drivers
+ */
+const findAvailableDrivers = async (ride: DispatchRide) => {
+  const isIntercity = ride.ride_option === 'intercity';
+  const nearby = findNearbyOnlineDrivers(
+    Number(ride.pickup_lat),
+    Number(ride.pickup_lng),
+    isIntercity ? INTERCITY_DISPATCH_RADIUS_KM : DISPATCH_RADIUS_KM,
+    ride.vehicle_type,
+  );
+  if (nearby.length === 0) return [];
+
+  const { rows } = await pool.query(
+    `SELECT d.user_id
+     FROM drivers d
+     JOIN users u ON u.id = d.user_id
+     WHERE d.user_id = ANY($1) AND d.status = 'approved' AND d.is_online = true
+       AND ($2 = false OR d.accepts_intercity = true)
+       AND (u.rating_count < $3 OR u.rating_average >= $4)
+       AND NOT EXISTS (
+         SELECT 1 FROM rides r
+         WHERE r.driver_id = d.user_id AND r.status IN ('driver_assigned', 'driver_arrived', 'in_progress')
+       )`,
+    [nearby.map(({ id }) => id), isIntercity, RATING_MIN_COUNT, DISPATCH_MIN_DRIVER_RATING],
+  );
+  const availableIds = new Set(rows.map((row) => row.user_id));
+
+  return nearby.filter(({ id }) => availableIds.has(id)).map(({ id, distanceKm }) => ({ driverId: id, distanceKm }));
+};
+
+/**
+ * Finds drivers for a pooled ride
+ * Drivers running a pool that can take the rider within the seat and detour limits come
+ * first, by the minutes the rider adds to their route; free drivers follow, nearest first.
+ * @param ride - Pooled ride to find drivers for
+ * @returns Candidate drivers
+ */
+const findPoolDrivers = async (ride: DispatchRide) => {
+  const nearby = findNearbyOnlineDrivers(
+    Number(ride.pickup_lat),
+    Number(ride.pickup_lng),
+    DISPATCH_RADIUS_KM,
+    ride.vehicle_type,
+  );
+  if (nearby.length === 0) return [];
+
+  // Drivers on a pooled trip stay available; drivers on any other trip do not
+  const { rows } = await pool.query(
+    `SELECT d.user_id, p.id AS pool_id, p.vehicle_type, p.seat_capacity
+     FROM drivers d
+     JOIN users u ON u.id = d.user_id
+     LEFT JOIN ride_pools p ON p.driver_id = d.user_id AND p.status = 'active'
+     WHERE d.user_id = ANY($1) AND d.status = 'approved' AND d.is_online = true
+       AND (u.rating_count < $2 OR u.rating_average >= $3)
+       AND NOT EXISTS (
+         SELECT 1 FROM rides r
+         WHERE r.driver_id = d.user_id AND r.pool_id IS NULL
+           AND r.status IN ('driver_assigned', 'driver_arrived', 'in_progress')
+       )`,
+    [nearby.map(({ id }) => id), RATING_MIN_COUNT, DISPATCH_MIN_DRIVER_RATING],
+  );
+  const availableDrivers = new Map(rows.map((row) => [row.user_id, row]));
+
+  const pooledDrivers: { candidate: DispatchCandidate; addedMin: number }[] = [];
+  const freeDrivers: DispatchCandidate[] = [];
+  for (const { id, distanceKm } of nearby) {
+    const driver = availableDrivers.get(id);
+    if (!driver) continue;
+
+    if (!driver.pool_id) {
+      freeDrivers.push({ driverId: id, distanceKm });
+      continue;
+    }
+
+    const insertion = await planRideIntoPool(
+      pool,
+      { id: driver.pool_id, driver_id: id, vehicle_type: driver.vehicle_type, seat_capacity: driver.seat_capacity },
+      ride,
+    );
+    if (insertion) {
+      pooledDrivers.push({ candidate: { driverId: id, distanceKm }, addedMin: insertion.addedMin });
+    }
+  }
+
+  pooledDrivers.sort((a, b) => a.addedMin - b.addedMin);
+  return [...pooledDrivers.map(({ candidate }) => candidate), ...freeDrivers];
+};
+
+/** Dispatcher used by the application, backed by PostgreSQL and the wall clock */
+export const rideDispatcher = new RideDispatcher({
+  clock: systemClock,
+  offerTimeoutMs: DISPATCH_OFFER_TIMEOUT_SECONDS * 1000,
+  findCandidates: (ride) => (ride.ride_option === 'pool' ? findPoolDrivers(ride) : findAvailableDrivers(ride)),
+  findDeclinedDrivers: async (rideId) => {
+    const { rows } = await pool.query("SELECT driver_id FROM ride_offers WHERE ride_id = $1 AND status = 'declined'", [
+      rideId,
+    ]);
+    return rows.map(({ driver_id }) => driver_id);
+  },
+  createOffer: async ({ rideId, driverId, distanceKm, expiresAt }) => {
+    await pool.query('INSERT INTO ride_offers (ride_id, driver_id, distance_km, expires_at) VALUES ($1, $2, $3, $4)', [
+      rideId,
+      driverId,
+      distanceKm,
+      expiresAt,
+    ]);
+  },
+  expireOffer: async (rideId, driverId) => {
+    const result = await pool.query(
+      `UPDATE ride_offers SET status = 'expired', responded_at = NOW()
+       WHERE ride_id = $1 AND driver_id = $2 AND status = 'pending'`,
+      [rideId, driverId],
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+  onOffer: (offer) => {
+    publishToUser(offer.driverId, 'ride.offer', offer);
+  },
+  onNoDriverFound: async (rideId) => {
+    try {
+      // Reserve rides stay requested until their pickup time; the reservation job dispatches them again
+      if (await isAwaitingReservationRetry(rideId)) return;
+
+      const ride = await withTransaction(async (client) => {
+        const cancelledRide = await transitionRideStatus(client, rideId, 'cancelled', {
+          actorId: null,
+          updates: { cancellation_reason: 'No drivers available' },
+        });
+        await releasePromoRedemption(client, rideId);
+        return cancelledRide;
+      });
+      publishRideUpdate(ride);
+      await failReservationForRide(rideId);
+    } catch (err) {
+      // The rider may already have cancelled the ride
+      console.error(`Could not cancel ride ${rideId} after dispatch failed:`, err);
+    }
+  },
+});
@@ -0,0 +1,222 @@
+/**
+ * Safety Service
+ * Raises SOS alerts and manages trip sharing links. An SOS emails every admin and
+ * the rider's emergency contacts, and contacts also get a live link to the trip.
+ * A sharing link carries a random token of which only a hash is stored; it stops
+ * working when it expires or when the ride ends, whichever comes first.
+ * Emergency contacts are only alerted once they have confirmed their email address
+ * through a link sent to it, so the SOS email cannot be pointed at any address.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import pool from '../db/db';
+import { getLatestDriverLocation } from './driver-location.service';
+import { sendSosAlertEmail } from '../emails/send-sos-alert.email';
+import { sendEmergencyContactConfirmationEmail } from '../emails/send-emergency-contact-confirmation.email';
+import { ACTIVE_TRIP_STATUSES, TRIP_SHARE_LINK_TTL_MINUTES } from '../constants';
+import { RideType } from '../types/ride.type';
+import { CreatedTripShareLink, SosAlertNotice, SosAlertType } from '../types/safety.type';
+
+/**
+ * Hashes a sharing or confirmation token for storage and lookup
+ * @param token - Token from the link
+ * @returns Hex-encoded SHA-256 of the token
+ */
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Creates a public link to follow a ride live
+ * @param db - Pool or transaction client
+ * @param rideId - Ride to share
+ * @param userId - Rider sharing the ride
+ * @returns Promise resolving to the link, including its token
+ */
+export const createTripShareLink = async (
+  db: Pool | PoolClient,
+  rideId: string,
+  userId: string,
+): Promise<CreatedTripShareLink> => {
+  const token = randomBytes(32).toString('base64url');
+
+  const { rows } = await db.query(
+    `INSERT INTO trip_share_links (ride_id, created_by, token_hash, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))
+     RETURNING id, expires_at`,
+    [rideId, userId, hashToken(token), TRIP_SHARE_LINK_TTL_MINUTES],
+  );
+
+  return {
+    id: rows[0].id,
+    token,
+    url: `${process.env.FRONTEND_URL}/track/${token}`,
+    expires_at: rows[0].expires_at,
+  };
+};
+
+/**
+ * Creates the token an emergency contact confirms their email address with
+ * @returns The token for the confirmation link and the hash stored with the contact
+ */
+export const createContactConfirmationToken = (): { token: string; hash: string } => {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashToken(token) };
+};
+
+/**
+ * Emails an emergency contact the link that confirms their address
+ * @param contact - Contact's name and email
+ * @param riderId - Rider who added the contact
+ * @param token - Token from createContactConfirmationToken
+ */
+export const sendContactConfirmation = async (
+  contact: { name: string; email: string },
+  riderId: string,
+  token: string,
+): Promise<void> => {
+  const { rows } = await pool.query('SELECT firstname, lastname FROM users WHERE id = $1', [riderId]);
+
+  await sendEmergencyContactConfirmationEmail(
+    contact,
+    `${rows[0].firstname} ${rows[0].lastname}`,
+    `${process.env.FRONTEND_URL}/emergency-contacts/confirm/${token}`,
+  );
+};
+
+/**
+ * Confirms the emergency contact a confirmation link was sent to
+ * @param token - Token from the confirmation link
+ * @returns Promise resolving to true, or false if no contact is waiting on this token
+ */
+export const confirmEmergencyContact = async (token: string): Promise<boolean> => {
+  const { rowCount } = await pool.query(
+    `UPDATE emergency_contacts
+     SET confirmed_at = NOW(), confirmation_token_hash = NULL, updated_at = NOW()
+     WHERE confirmation_token_hash = $1`,
+    [hashToken(token)],
+  );
+  return (rowCount ?? 0) > 0;
+};
+
+/**
+ * Gets what a sharing link shows: the ride's status and route, its driver and vehicle, and the driver's position
+ * The rider's own details are never included.
+ * @param token - Token from the sharing link
+ * @returns Promise resolving to the shared trip, or null if the link is unknown, revoked or expired or the ride ended
+ */
+export const getSharedTrip = async (token: string) => {
+  const { rows } = await pool.query(
+    `SELECT l.expires_at, r.status, r.pickup_address, r.drop_address, r.drop_lat, r.drop_lng, r.driver_id,
+            r.driver_arrived_at, r.started_at, u.firstname AS driver_firstname, u.rating_average AS driver_rating,
+            d.vehicle_type, d.vehicle_make, d.vehicle_model, d.vehicle_colour, d.vehicle_plate
+     FROM trip_share_links l
+     JOIN rides r ON r.id = l.ride_id
+     JOIN users u ON u.id = r.driver_id
+     JOIN drivers d ON d.user_id = r.driver_id
+     WHERE l.token_hash = $1 AND l.revoked_at IS NULL AND l.expires_at > NOW() AND r.status = ANY($2)
+     LIMIT 1`,
+    [hashToken(token), ACTIVE_TRIP_STATUSES],
+  );
+  if (rows.length === 0) return null;
+
+  const { driver_id, ...trip } = rows[0];
+  const location = await getLatestDriverLocation(driver_id);
+
+  return {
+    ...trip,
+    driver_location: location
+      ? { lat: location.lat, lng: location.lng, heading: location.heading, recorded_at: location.recordedAt }
+      : null,
+  };
+};
+
+/**
+ * Records an SOS alert for a ride
+ * Without a position from the rider, the driver's latest position is used. A ride has
+ * at most one open alert, so repeated SOS presses do not send the alert emails again
+ * until an admin resolves it.
+ * @param ride - Active ride
+ * @param position - Where the rider is, when their device reported it
+ * @param message - What the rider wrote (optional)
+ * @returns Promise resolving to the ride's open alert, and whether this call raised it
+ */
+export const raiseSosAlert = async (
+  ride: RideType,
+  position: { lat: number; lng: number } | null,
+  message: string | null,
+): Promise<{ alert: SosAlertType; raised: boolean }> => {
+  const location = position ?? (ride.driver_id ? await getLatestDriverLocation(ride.driver_id) : null);
+
+  const { rows } = await pool.query(
+    `INSERT INTO sos_alerts (ride_id, user_id, lat, lng, message)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (ride_id) WHERE status = 'open' DO NOTHING
+     RETURNING *`,
+    [ride.id, ride.rider_id, location?.lat ?? null, location?.lng ?? null, message],
+  );
+  if (rows.length > 0) return { alert: rows[0], raised: true };
+
+  const open = await pool.query("SELECT * FROM sos_alerts WHERE ride_id = $1 AND status = 'open' LIMIT 1", [ride.id]);
+  return { alert: open.rows[0], raised: false };
+};
+
+/**
+ * Emails an SOS alert to every admin and to the rider's emergency contacts
+ * Contacts also get a new sharing link to follow the trip. The number of contacts
+ * reached is stored on the alert.
+ * @param alert - SOS alert
+ */
+export const notifySosAlert = async (alert: SosAlertType): Promise<void> => {
+  const { rows } = await pool.query(
+    `SELECT rider.firstname AS rider_firstname, rider.lastname AS rider_lastname, rider.phone_number AS rider_phone,
+            driver.firstname AS driver_firstname, driver.lastname AS driver_lastname,
+            d.vehicle_colour, d.vehicle_make, d.vehicle_model, d.vehicle_plate
+     FROM rides r
+     JOIN users rider ON rider.id = r.rider_id
+     LEFT JOIN users driver ON driver.id = r.driver_id
+     LEFT JOIN drivers d ON d.user_id = r.driver_id
+     WHERE r.id = $1`,
+    [alert.ride_id],
+  );
+  const ride = rows[0];
+
+  const admins = await pool.query("SELECT firstname, lastname, email FROM users WHERE role = 'admin'");
+  const contacts = await pool.query(
+    'SELECT name, email FROM emergency_contacts WHERE user_id = $1 AND confirmed_at IS NOT NULL',
+    [alert.user_id],
+  );
+
+  const notice: SosAlertNotice = {
+    alert_id: alert.id,
+    ride_id: alert.ride_id,
+    rider_name: `${ride.rider_firstname} ${ride.rider_lastname}`,
+    rider_phone: ride.rider_phone,
+    driver_name: ride.driver_firstname ? `${ride.driver_firstname} ${ride.driver_lastname}` : null,
+    vehicle: ride.vehicle_plate
+      ? `${ride.vehicle_colour} ${ride.vehicle_make} ${ride.vehicle_model} (${ride.vehicle_plate})`
+      : null,
+    lat: alert.lat,
+    lng: alert.lng,
+    message: alert.message,
+    raised_at: alert.created_at,
+    tracking_url: null,
+  };
+
+  const trackingUrl = contacts.rowCount ? (await createTripShareLink(pool, alert.ride_id, alert.user_id)).url : null;
+
+  await Promise.allSettled(
+    admins.rows.map(({ firstname, lastname, email }) =>
+      sendSosAlertEmail({ name: `${firstname} ${lastname}`, email }, notice),
+    ),
+  );
+  const sent = await Promise.allSettled(
+    contacts.rows.map(({ name, email }) =>
+      sendSosAlertEmail({ name, email }, { ...notice, tracking_url: trackingUrl }),
+    ),
+  );
+
+  await pool.query('UPDATE sos_alerts SET contacts_notified = $1 WHERE id = $2', [
+    sent.filter(({ status }) => status === 'fulfilled').length,
+    alert.id,
+  ]);
+};
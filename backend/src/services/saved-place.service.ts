@@ -0,0 +1,58 @@
+/**
+ * Saved Place Service
+ * Lets riders use a saved place ID instead of raw coordinates for the pickup or
+ * drop of a fare estimate or ride request.
+ */
+
+import pool from '../db/db';
+import ApiError from '../utils/api-error.utils';
+import { SavedPlaceType } from '../types/saved-place.type';
+
+/** Trip fields a saved place can fill in */
+export interface TripEndpoints {
+  pickup_lat?: unknown;
+  pickup_lng?: unknown;
+  pickup_address?: unknown;
+  pickup_place_id?: unknown;
+  drop_lat?: unknown;
+  drop_lng?: unknown;
+  drop_address?: unknown;
+  drop_place_id?: unknown;
+}
+
+/**
+ * Replaces pickup_place_id and drop_place_id with the coordinates and address of those places
+ * Fields without a place ID are returned unchanged.
+ * @param userId - Rider who saved the places
+ * @param body - Request body
+ * @returns Promise resolving to the body with coordinates and addresses filled in
+ * @throws {ApiError} 404 if a place does not exist or belongs to another user
+ */
+export const resolveSavedPlaces = async <T extends TripEndpoints>(userId: string, body: T): Promise<T> => {
+  const placeIds = [body.pickup_place_id, body.drop_place_id].filter(Boolean).map(String);
+  if (placeIds.length === 0) return body;
+
+  const { rows } = await pool.query<SavedPlaceType>(
+    'SELECT * FROM saved_places WHERE user_id = $1 AND id::text = ANY($2)',
+    [userId, placeIds],
+  );
+  const findPlace = (placeId: unknown) => {
+    const place = rows.find(({ id }) => id === String(placeId));
+    if (!place) {
+      throw new ApiError(404, 'Saved place not found');
+    }
+    return place;
+  };
+
+  const resolved = { ...body };
+  if (body.pickup_place_id) {
+    const place = findPlace(body.pickup_place_id);
+    Object.assign(resolved, { pickup_lat: place.lat, pickup_lng: place.lng, pickup_address: place.address });
+  }
+  if (body.drop_place_id) {
+    const place = findPlace(body.drop_place_id);
+    Object.assign(resolved, { drop_lat: place.lat, drop_lng: place.lng, drop_address: place.address });
+  }
+
+  return resolved;
+};
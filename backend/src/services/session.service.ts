@@ -0,0 +1,182 @@
+/**
+ * Session Service
+ * Manages signed-in devices. Every sign-in creates a session that stores only a hash
+ * of its refresh token, and every refresh replaces that token, so each refresh token
+ * works once. A token that was already replaced being presented again means it
+ * leaked: the session, which is the token family, is revoked and the device has to
+ * sign in again. Access tokens carry their session and stop working with it.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import pool from '../db/db';
+import ApiError from '../utils/api-error.utils';
+import { generateAccessAndRefreshTokens } from '../utils/generate-access-and-refresh-tokens.utils';
+import { Role } from '../types/role.type';
+import { SessionDevice, SessionRevokedReason, SessionTokens } from '../types/session.type';
+
+/**
+ * Hashes a refresh token for storage and lookup
+ * @param token - Refresh token
+ * @returns Hex-encoded SHA-256 of the token
+ */
+const hashRefreshToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Reads when a signed token expires
+ * @param token - Token signed with an expiry
+ * @returns Expiry date
+ */
+const getTokenExpiry = (token: string): Date => new Date(((jwt.decode(token) as JwtPayload).exp as number) * 1000);
+
+/**
+ * Signs a user in on a device
+ * @param userId - User signing in
+ * @param role - User's role, carried in the access token
+ * @param device - Device the session is created for
+ * @returns Promise resolving to the session ID and its first tokens
+ */
+export const createSession = async (userId: string, role: Role, device: SessionDevice): Promise<SessionTokens> => {
+  const sessionId = randomUUID();
+  const { generatedAccessToken, generatedRefreshToken } = await generateAccessAndRefreshTokens(userId, role, sessionId);
+
+  await pool.query(
+    `INSERT INTO sessions (id, user_id, refresh_token_hash, device_name, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      sessionId,
+      userId,
+      hashRefreshToken(generatedRefreshToken),
+      device.deviceName,
+      device.userAgent,
+      device.ipAddress,
+      getTokenExpiry(generatedRefreshToken),
+    ],
+  );
+
+  return { sessionId, accessToken: generatedAccessToken, refreshToken: generatedRefreshToken };
+};
+
+/**
+ * Exchanges a refresh token for new tokens, replacing the refresh token of its session
+ * @param refreshToken - Refresh token presented by the device
+ * @returns Promise resolving to the new tokens
+ * @throws {ApiError} 401 if the token is invalid, its session has ended, or it was already used (which revokes the session)
+ */
+export const rotateSession = async (refreshToken: string): Promise<SessionTokens> => {
+  let decodedToken: JwtPayload;
+  try {
+    decodedToken = jwt.verify(refreshToken, process.env.REFRESH_TOKEN_SECRET as string) as JwtPayload;
+  } catch {
+    throw new ApiError(401, 'Invalid refresh token');
+  }
+
+  const { rows } = await pool.query(
+    `SELECT s.id, s.user_id, s.revoked_at, s.expires_at, u.role
+     FROM sessions s
+     JOIN users u ON u.id = s.user_id
+     WHERE s.id = $1 AND s.user_id = $2
+     LIMIT 1`,
+    [decodedToken.sessionId, decodedToken.userId],
+  );
+  const session = rows[0];
+
+  if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+    throw new ApiError(401, 'Session has expired or was signed out');
+  }
+
+  const { generatedAccessToken, generatedRefreshToken } = await generateAccessAndRefreshTokens(
+    session.user_id,
+    session.role,
+    session.id,
+  );
+
+  // Only the current token of the session can be swapped; concurrent refreshes with the same token lose
+  const rotated = await pool.query(
+    `UPDATE sessions
+     SET refresh_token_hash = $1, expires_at = $2, last_used_at = NOW()
+     WHERE id = $3 AND refresh_token_hash = $4 AND revoked_at IS NULL`,
+    [
+      hashRefreshToken(generatedRefreshToken),
+      getTokenExpiry(generatedRefreshToken),
+      session.id,
+      hashRefreshToken(refreshToken),
+    ],
+  );
+
+  if (rotated.rowCount === 0) {
+    await pool.query(
+      `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'token_reused' WHERE id = $1 AND revoked_at IS NULL`,
+      [session.id],
+    );
+    console.warn(`Refresh token reused for session ${session.id} of user ${session.user_id}; session revoked`);
+    throw new ApiError(401, 'Refresh token was already used; please sign in again');
+  }
+
+  return { sessionId: session.id, accessToken: generatedAccessToken, refreshToken: generatedRefreshToken };
+};
+
+/**
+ * Lists a user's signed-in devices, most recently used first
+ * @param userId - User ID
+ * @returns Promise resolving to the active sessions, without their token hashes
+ */
+export const listActiveSessions = async (userId: string) => {
+  const { rows } = await pool.query(
+    `SELECT id, device_name, user_agent, ip_address, created_at, last_used_at, expires_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY last_used_at DESC`,
+    [userId],
+  );
+  return rows;
+};
+
+/**
+ * Signs one device out
+ * @param userId - User the session belongs to
+ * @param sessionId - Session to revoke
+ * @param reason - Why the session ends
+ * @returns Promise resolving to true if an active session was revoked
+ */
+export const revokeSession = async (
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokedReason,
+): Promise<boolean> => {
+  const revoked = await pool.query(
+    `UPDATE sessions SET revoked_at = NOW(), revoked_reason = $1
+     WHERE id = $2 AND user_id = $3 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [reason, sessionId, userId],
+  );
+  return (revoked.rowCount ?? 0) > 0;
+};
+
+/**
+ * Signs a user out of every device
+ * @param userId - User ID
+ * @returns Promise resolving to the number of sessions revoked
+ */
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+  const revoked = await pool.query(
+    `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'signed_out_everywhere'
+     WHERE user_id = $1 AND revoked_at IS NULL`,
+    [userId],
+  );
+  return revoked.rowCount ?? 0;
+};
+
+/**
+ * Signs a user out of every device except one
+ * @param userId - User ID
+ * @param keepSessionId - Session that stays signed in
+ * @returns Promise resolving to the number of sessions revoked
+ */
+export const revokeOtherSessions = async (userId: string, keepSessionId: string): Promise<number> => {
+  const revoked = await pool.query(
+    `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'signed_out_everywhere'
+     WHERE user_id = $1 AND id <> $2 AND revoked_at IS NULL`,
+    [userId, keepSessionId],
+  );
+  return revoked.rowCount ?? 0;
+};
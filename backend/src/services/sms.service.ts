@@ -0,0 +1,27 @@
+/**
+ * SMS Service
+ * Selects the SMS provider configured by SMS_PROVIDER.
+ * New providers implement SmsProvider and are added to createSmsProvider.
+ */
+
+import { ConsoleSmsProvider } from './console-sms-provider.service';
+import { SMS_OUTBOX_FILE, SMS_PROVIDER } from '../constants';
+import { SmsProvider } from '../types/sms.type';
+
+/**
+ * Creates the SMS provider with the given name
+ * @param name - Provider name
+ * @returns SMS provider
+ * @throws {Error} If no provider has that name
+ */
+export const createSmsProvider = (name: string): SmsProvider => {
+  switch (name) {
+    case 'console':
+      return new ConsoleSmsProvider(SMS_OUTBOX_FILE || undefined);
+    default:
+      throw new Error(`Unknown SMS provider: ${name}`);
+  }
+};
+
+/** SMS provider used by the application */
+export const smsProvider = createSmsProvider(SMS_PROVIDER);
@@ -0,0 +1,60 @@
+/**
+ * Auth Type Definition Module
+ * Defines the authenticated user attached to requests and the permissions that
+ * routes require. Each Role is granted a set of permissions in ROLE_PERMISSIONS.
+ *
+ * @description
+ * - fares:estimate: Get fare estimates
+ * - rides:book: Request rides and intercity trips, reserve rides and check promo codes
+ * - rides:view: See one's own rides, history, receipts, ratings and ride chat
+ * - rides:view_any: See any ride, not only one's own
+ * - rides:participate: Act in a ride one takes part in (cancel, rate, chat, SOS, share)
+ * - rides:drive: Go online, receive offers and drive rides (approved drivers only)
+ * - earnings:view: See earnings and payout statements (approved drivers only)
+ * - account:manage: Manage one's sessions, password and phone number
+ * - profile:view: See user profiles
+ * - profile:edit: Update or delete one's own profile
+ * - places:manage: Manage saved places
+ * - emergency_contacts:manage: Manage emergency contacts
+ * - wallet:use: See and top up one's wallet
+ * - driver_profile:manage: See one's driver application and resubmit documents
+ * - users:list: List every user
+ * - drivers:review: Review driver applications and cancellation flags
+ * - ratings:review: Review low-rated accounts
+ * - safety:manage: Follow up SOS alerts
+ * - promos:manage: Manage promo codes
+ * - ledger:manage: Refund rides and reconcile wallets
+ * - payouts:manage: Run and settle driver payouts
+ */
+
+import { Role } from './role.type';
+
+export type Permission =
+  | 'fares:estimate'
+  | 'rides:book'
+  | 'rides:view'
+  | 'rides:view_any'
+  | 'rides:participate'
+  | 'rides:drive'
+  | 'earnings:view'
+  | 'account:manage'
+  | 'profile:view'
+  | 'profile:edit'
+  | 'places:manage'
+  | 'emergency_contacts:manage'
+  | 'wallet:use'
+  | 'driver_profile:manage'
+  | 'users:list'
+  | 'drivers:review'
+  | 'ratings:review'
+  | 'safety:manage'
+  | 'promos:manage'
+  | 'ledger:manage'
+  | 'payouts:manage';
+
+/** User attached to a request by the authenticate middleware */
+export interface AuthUser {
+  id: string;
+  role: Role;
+  sessionId: string; // Session (device) the access token was issued to
+}
@@ -0,0 +1,52 @@
+/**
+ * Cancellation Type Definition Module
+ * Defines ride cancellations, the reasons each side can give and the
+ * cancellation policy applied per ride option.
+ *
+ * @description
+ * - rider: The ride was cancelled by its rider, who may owe a cancellation fee
+ * - driver: The ride was cancelled by its assigned driver, which counts towards flagging
+ */
+
+export type CancellerRole = 'rider' | 'driver';
+
+export type CancellationReason =
+  | 'driver_too_far'
+  | 'driver_not_moving'
+  | 'changed_plans'
+  | 'found_other_ride'
+  | 'wrong_pickup'
+  | 'rider_not_at_pickup'
+  | 'rider_unreachable'
+  | 'too_many_riders'
+  | 'vehicle_issue'
+  | 'unsafe_pickup'
+  | 'other';
+
+/** Cancellation rules of a ride option */
+export interface CancellationPolicy {
+  graceMinutes: number; // Minutes after a driver is assigned during which a rider cancels for free
+  baseFee: number; // Fee charged once the grace period is over
+  perKmFee: number; // Fee per kilometre the driver has travelled towards the pickup
+  maxFee: number; // Highest fee, whatever the distance
+}
+
+/** Fee a rider would pay to cancel a ride now */
+export interface CancellationFeeQuote {
+  fee: number;
+  within_grace: boolean;
+  grace_ends_at: Date | null; // When the free cancellation period ends, null before a driver is assigned
+  driver_travelled_km: number;
+}
+
+export interface RideCancellationType {
+  ride_id: string;
+  cancelled_by: string;
+  canceller_role: CancellerRole;
+  reason: CancellationReason;
+  note: string | null;
+  fee: number;
+  driver_travelled_km: number;
+  within_grace: boolean;
+  created_at: Date;
+}
@@ -0,0 +1,30 @@
+/**
+ * Chat Type Definition Module
+ * Defines the messages a rider and their assigned driver exchange during a ride.
+ * The chat opens when a driver is assigned and locks when the ride ends.
+ *
+ * @description
+ * - rider: The message was sent by the ride's rider
+ * - driver: The message was sent by the ride's assigned driver
+ */
+
+export type ChatSenderRole = 'rider' | 'driver';
+
+export type QuickReplyCode =
+  | 'on_my_way'
+  | 'arrived'
+  | 'running_late'
+  | 'stuck_in_traffic'
+  | 'cannot_find_pickup'
+  | 'please_come_to_pickup';
+
+export interface RideMessageType {
+  id: string;
+  ride_id: string;
+  sender_id: string;
+  sender_role: ChatSenderRole;
+  body: string;
+  quick_reply: QuickReplyCode | null; // Set when a driver sent a canned reply
+  read_at: Date | null; // When the other participant read the message
+  created_at: Date;
+}
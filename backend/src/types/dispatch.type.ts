@@ -0,0 +1,55 @@
+/**
+ * Dispatch Type Definition Module
+ * Defines the ride offers made by the dispatcher and the dependencies it runs on.
+ */
+
+import { RideType } from './ride.type';
+
+/** Ride fields the dispatcher needs to find candidates */
+export type DispatchRide = Pick<
+  RideType,
+  | 'id'
+  | 'pickup_lat'
+  | 'pickup_lng'
+  | 'drop_lat'
+  | 'drop_lng'
+  | 'vehicle_type'
+  | 'ride_option'
+  | 'seats'
+  | 'estimated_duration_min'
+>;
+
+export type RideOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+export interface DispatchCandidate {
+  driverId: string; // User ID of the driver
+  distanceKm: number; // Distance from the driver to the pickup
+}
+
+export interface RideOffer {
+  rideId: string;
+  driverId: string;
+  distanceKm: number;
+  expiresAt: Date;
+}
+
+/**
+ * Time source used by the dispatcher
+ * Injected so offer timeouts can be driven by a fake clock
+ */
+export interface DispatchClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface DispatchDependencies {
+  clock: DispatchClock;
+  offerTimeoutMs: number; // How long a driver has to accept an offer
+  findCandidates(ride: DispatchRide): Promise<DispatchCandidate[]>; // Available drivers, best first
+  findDeclinedDrivers(rideId: string): Promise<string[]>; // Drivers who declined the ride in an earlier round
+  createOffer(offer: RideOffer): Promise<void>; // Persists a pending offer
+  expireOffer(rideId: string, driverId: string): Promise<boolean>; // Expires a pending offer, false if already answered
+  onOffer(offer: RideOffer): void; // Notifies the driver of a new offer
+  onNoDriverFound(rideId: string): Promise<void>; // Called when every candidate declined or timed out
+}
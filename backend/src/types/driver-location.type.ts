@@ -0,0 +1,14 @@
+/**
+ * Driver Location Type Definition Module
+ * Defines a single position reported by a driver's device.
+ */
+
+export interface DriverLocation {
+  driverId: string; // User ID of the driver
+  lat: number; // Latitude in degrees
+  lng: number; // Longitude in degrees
+  heading: number | null; // Direction of travel in degrees from north
+  speed: number | null; // Speed in metres per second
+  accuracy: number | null; // Horizontal accuracy in metres
+  recordedAt: Date; // Time the device recorded the position
+}
@@ -0,0 +1,40 @@
+/**
+ * Driver Type Definition Module
+ * Defines the driver profile and its onboarding review status.
+ *
+ * @description
+ * - pending_review: Application submitted and waiting for an admin decision
+ * - resubmission_requested: Admin asked the driver to upload specific documents again
+ * - approved: Driver can go online and accept rides
+ * - rejected: Application was declined by an admin
+ */
+
+import { VehicleType } from './ride.type';
+
+export type DriverStatus = 'pending_review' | 'resubmission_requested' | 'approved' | 'rejected';
+
+export type DriverDocument = 'licence' | 'registration' | 'insurance';
+
+export interface DriverProfileType {
+  id: string;
+  user_id: string;
+  licence_number: string;
+  vehicle_type: VehicleType;
+  vehicle_make: string;
+  vehicle_model: string;
+  vehicle_plate: string;
+  vehicle_colour: string;
+  licence_image_url: string;
+  registration_image_url: string;
+  insurance_image_url: string;
+  status: DriverStatus;
+  review_reason: string | null;
+  requested_documents: DriverDocument[] | null;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  is_online: boolean;
+  accepts_intercity: boolean;
+  last_seen_at: Date | null;
+  cancellation_flagged_at: Date | null; // Set when the driver cancelled too many rides, cleared by an admin
+  cancellation_flag_cleared_at: Date | null; // Cancellations before this no longer count towards flagging
+}
@@ -0,0 +1,54 @@
+/**
+ * Earnings Type Definition Module
+ * Defines the per-ride split between platform commission and driver earnings,
+ * and the weekly payout statements built from those splits.
+ *
+ * @description
+ * - pending: Statement generated and waiting to be paid
+ * - paid: Admin recorded the payout as paid
+ */
+
+import { VehicleType } from './ride.type';
+import { RidePaymentMethod } from './ledger.type';
+
+export type PayoutStatus = 'pending' | 'paid';
+
+export interface CommissionSplit {
+  commission_rate: number; // Percentage of the commissionable fare kept by the platform
+  commission_amount: number;
+  driver_earnings: number;
+}
+
+export interface RideEarningType extends CommissionSplit {
+  ride_id: string;
+  driver_id: string;
+  vehicle_type: VehicleType;
+  payment_method: RidePaymentMethod;
+  gross_fare: number; // Fare before the promo discount
+  discount: number; // Promo discount, funded by the platform
+  fare_total: number; // Amount the rider paid
+  pass_through_charges: number; // Tolls and permits paid to the driver without commission
+  cash_collected: number; // What the driver collected in cash: part or all of the fare, plus any unpaid wallet balance
+  completed_at: Date;
+  payout_id: string | null;
+  created_at: Date;
+}
+
+export interface DriverPayoutType {
+  id: string;
+  driver_id: string;
+  period_start: Date;
+  period_end: Date;
+  ride_count: number;
+  gross_fare: number;
+  commission_amount: number;
+  driver_earnings: number;
+  cash_collected: number; // Fares the driver already collected in cash
+  net_payout: number; // Earnings minus cash collected; negative when the driver owes the platform
+  status: PayoutStatus;
+  paid_at: Date | null;
+  paid_by: string | null;
+  payment_reference: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
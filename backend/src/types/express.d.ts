@@ -0,0 +1,18 @@
+/**
+ * Express Request Augmentation
+ * Adds the authenticated user and driver profile set by the auth middleware.
+ */
+
+import { AuthUser } from './auth.type';
+import { DriverProfileType } from './driver.type';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user: AuthUser; // Set by authenticate; only read it on routes that use it
+      driver?: DriverProfileType; // Set by authorize for approved drivers on driver permissions
+    }
+  }
+}
+
+export {};
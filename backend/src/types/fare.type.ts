@@ -0,0 +1,77 @@
+/**
+ * Fare Type Definition Module
+ * Defines rate cards and the fare breakdowns returned to riders.
+ */
+
+import { VehicleType } from './ride.type';
+import { IntercityTripType } from './intercity.type';
+
+/**
+ * Pricing configuration for a single vehicle type
+ * All amounts are in the smallest display unit of FARE_CURRENCY (e.g. rupees)
+ */
+export interface RateCard {
+  baseFare: number; // Flat amount charged for every trip
+  perKm: number; // Amount charged per kilometre
+  perMinute: number; // Amount charged per minute of trip time
+  minimumFare: number; // Lowest fare (before booking fee and taxes)
+  bookingFee: number; // Platform booking fee added to every trip
+  taxRate: number; // Tax rate applied to the fare, e.g. 0.05 for 5%
+  averageSpeedKmph: number; // Average speed used to estimate trip duration
+}
+
+export interface FareBreakdown {
+  vehicle_type: VehicleType;
+  currency: string;
+  distance_km: number;
+  duration_min: number;
+  base_fare: number;
+  distance_fare: number;
+  time_fare: number;
+  minimum_fare_adjustment: number; // Top-up applied when the metered fare is below the minimum fare
+  booking_fee: number;
+  taxes: number;
+  seats?: number; // Seats booked on a pooled ride
+  extra_seat_charge?: number; // Charge for pooled seats beyond the first
+  pool_discount?: number; // Pooled ride discount, already subtracted from the total
+  promo_code?: string; // Code applied to the final fare
+  discount?: number; // Promo discount subtracted from the total
+  total: number;
+}
+
+/**
+ * Pricing configuration for intercity trips of a single vehicle type
+ * Intercity trips are priced per kilometre with a minimum distance billed per trip day
+ */
+export interface IntercityRateCard {
+  baseFare: number; // Flat amount charged for every trip
+  perKm: number; // Amount charged per kilometre
+  minimumKmPerDay: number; // Distance billed per trip day even if the car travels less
+  driverNightAllowance: number; // Allowance paid to the driver for every night away
+  tollPerKm: number; // Average toll cost per kilometre used for estimates
+  maxTollPerKm: number; // Most tolls billable per kilometre; tolls reported by the driver are capped to it
+  statePermitCharge: number; // Permit charge for trips crossing a state border, also the most that can be billed
+  bookingFee: number; // Platform booking fee added to every trip
+  taxRate: number; // Tax rate applied to the fare, excluding tolls and permits
+  averageSpeedKmph: number; // Average highway speed used to estimate trip duration
+}
+
+export interface IntercityFareBreakdown {
+  vehicle_type: VehicleType;
+  currency: string;
+  trip_type: IntercityTripType;
+  trip_days: number;
+  distance_km: number; // Total distance driven, both ways for round trips
+  billable_distance_km: number; // Distance after applying the per-day minimum
+  base_fare: number;
+  distance_fare: number;
+  minimum_distance_adjustment: number; // Charge for the kilometres below the per-day minimum
+  driver_allowance: number; // Night allowance for multi-day trips
+  booking_fee: number;
+  taxes: number;
+  toll_charges: number; // Passed through without tax
+  state_permit_charges: number; // Passed through without tax
+  promo_code?: string; // Code applied to the final fare
+  discount?: number; // Promo discount subtracted from the total
+  total: number;
+}
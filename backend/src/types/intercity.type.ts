@@ -0,0 +1,21 @@
+/**
+ * Intercity Type Definition Module
+ * Defines intercity bookings, which extend a reservation with trip details and pricing.
+ *
+ * @description
+ * - one_way: The driver drops the rider at the destination
+ * - round_trip: The driver waits and brings the rider back by the return date
+ */
+
+import { IntercityFareBreakdown } from './fare.type';
+
+export type IntercityTripType = 'one_way' | 'round_trip';
+
+export interface IntercityBookingType {
+  reservation_id: string;
+  trip_type: IntercityTripType;
+  return_at: Date | null;
+  trip_days: number;
+  crosses_state_border: boolean;
+  fare_breakdown: IntercityFareBreakdown;
+}
@@ -0,0 +1,46 @@
+/**
+ * Ledger Type Definition Module
+ * Defines the double-entry ledger behind wallets.
+ * Every transaction has entries on at least two accounts whose amounts sum to zero;
+ * an account's balance is the sum of its entries.
+ *
+ * @description
+ * - top_up: Money paid in through the payment provider, credited to a wallet
+ * - ride_charge: A wallet ride's fare split between the driver's wallet and platform revenue
+ * - commission: The platform's share of a cash ride, owed by the driver who collected the fare
+ * - cancellation_fee: A rider's cancellation fee split between the driver's wallet and platform revenue
+ * - cash_settlement: A negative wallet balance the driver collected in cash on a cash ride, moved from the driver's wallet to the rider's
+ * - refund: Money returned to a rider's wallet by the platform
+ * - payout: A driver's weekly net earnings paid out of (or settled into) their wallet
+ */
+
+export type LedgerAccountKind = 'wallet' | 'system';
+
+/** Accounts owned by the platform rather than a user */
+export type SystemAccountCode = 'payment_clearing' | 'platform_revenue';
+
+export type LedgerTransactionType =
+  | 'top_up'
+  | 'ride_charge'
+  | 'commission'
+  | 'cancellation_fee'
+  | 'cash_settlement'
+  | 'refund'
+  | 'payout';
+
+export type RidePaymentMethod = 'cash' | 'wallet';
+
+export interface LedgerEntryInput {
+  accountId: string;
+  amount: number; // Positive increases the account balance, negative decreases it
+}
+
+export interface LedgerTransactionInput {
+  type: LedgerTransactionType;
+  idempotencyKey: string; // Posting the same key twice returns the first transaction
+  entries: LedgerEntryInput[];
+  rideId?: string | null;
+  paymentId?: string | null;
+  description?: string | null;
+  createdBy?: string | null;
+}
@@ -0,0 +1,31 @@
+/**
+ * OTP Type Definition Module
+ * Defines what a one-time code can be used for. A code only works for the
+ * purpose it was issued for.
+ *
+ * @description
+ * - email_verification: Confirms the email address of a new account
+ * - password_reset: Proves access to the email before a password reset
+ * - phone_sign_in: Signs in with a verified phone number
+ * - phone_verification: Confirms a phone number for the signed-in user
+ */
+
+export type OtpPurpose = 'email_verification' | 'password_reset' | 'phone_sign_in' | 'phone_verification';
+
+export interface OtpCodeType {
+  id: number;
+  user_id: string;
+  purpose: OtpPurpose;
+  otp_hash: string;
+  phone_number: string | null;
+  attempts: number;
+  otp_expiry: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** Token handed out for a verified password reset OTP, exchanged once for a new password */
+export interface PasswordResetToken {
+  resetToken: string;
+  expires_at: Date;
+}
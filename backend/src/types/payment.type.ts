@@ -0,0 +1,26 @@
+/**
+ * Payment Type Definition Module
+ * Defines the interface every payment provider implements.
+ * Providers only move money in from outside; balances live in the ledger.
+ */
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface PaymentChargeRequest {
+  userId: string;
+  amount: number;
+  currency: string;
+  paymentMethodToken: string; // Card or UPI token issued by the provider's client SDK
+  idempotencyKey: string; // Retrying with the same key must not charge twice
+}
+
+export interface PaymentChargeResult {
+  providerPaymentId: string;
+  status: Exclude<PaymentStatus, 'pending'>;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: PaymentChargeRequest): Promise<PaymentChargeResult>;
+}
@@ -0,0 +1,74 @@
+/**
+ * Pool Type Definition Module
+ * Defines pooled rides: a driver's pool ties several riders' rides to one
+ * ordered list of pickups and drops.
+ *
+ * @description
+ * - active: The driver still has stops to make and may take more riders
+ * - completed: Every rider of the pool was dropped off or cancelled
+ */
+
+import { VehicleType } from './ride.type';
+
+export type PoolStatus = 'active' | 'completed';
+
+export type PoolStopKind = 'pickup' | 'drop';
+
+export interface RidePoolType {
+  id: string;
+  driver_id: string;
+  vehicle_type: VehicleType;
+  seat_capacity: number;
+  status: PoolStatus;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export interface RidePoolStopType {
+  id: number;
+  pool_id: string;
+  ride_id: string;
+  kind: PoolStopKind;
+  sequence: number; // Position of the stop in the driver's route
+  lat: number;
+  lng: number;
+  address: string | null;
+  planned_arrival_at: Date | null;
+  completed_at: Date | null;
+}
+
+/** Stop of a pool route being planned */
+export interface PoolRouteStop {
+  rideId: string;
+  kind: PoolStopKind;
+  lat: number;
+  lng: number;
+}
+
+/** Rider of a pool route being planned */
+export interface PoolRouteRider {
+  rideId: string;
+  seats: number;
+  directMin: number; // Estimated duration of the rider's trip without other riders
+  onBoardMin: number | null; // Minutes the rider has been in the vehicle, null before pickup
+}
+
+export interface PlannedPoolStop extends PoolRouteStop {
+  etaMin: number; // Minutes from now until the driver reaches the stop
+}
+
+export interface PoolRoutePlan {
+  stops: PlannedPoolStop[];
+  durationMin: number; // Minutes until the last stop
+}
+
+export interface PoolInsertion extends PoolRoutePlan {
+  addedMin: number; // Minutes the new rider adds to the driver's route
+}
+
+/** Limits a pool route must respect */
+export interface PoolRouteLimits {
+  vehicleType: VehicleType;
+  seatCapacity: number;
+  maxDetourMin: number; // Extra minutes a rider may spend in the vehicle compared with a direct trip
+}
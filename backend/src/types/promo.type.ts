@@ -0,0 +1,41 @@
+/**
+ * Promo Type Definition Module
+ * Defines admin-managed promo codes and their redemptions.
+ *
+ * @description
+ * - reserved: The code is attached to a ride that has not finished yet and counts towards limits
+ * - redeemed: The ride was completed and the discount applied to the final fare
+ * - released: The ride was cancelled and the use returned to the code
+ */
+
+import { RideOption, VehicleType } from './ride.type';
+
+export type PromoDiscountType = 'flat' | 'percent';
+
+export type PromoRedemptionStatus = 'reserved' | 'redeemed' | 'released';
+
+export interface PromoCodeType {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  max_discount: number | null; // Cap for percent discounts
+  valid_from: Date;
+  valid_until: Date | null;
+  usage_limit: number | null; // Uses across all riders, unlimited when null
+  per_user_limit: number;
+  redemption_count: number;
+  first_ride_only: boolean;
+  ride_options: RideOption[] | null; // Any ride option when null
+  vehicle_types: VehicleType[] | null; // Any vehicle type when null
+  is_active: boolean;
+}
+
+/** Ride a promo code is checked against */
+export interface PromoContext {
+  userId: string;
+  rideOption: RideOption;
+  vehicleType: VehicleType;
+  fareTotal: number;
+}
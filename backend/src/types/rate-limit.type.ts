@@ -0,0 +1,39 @@
+/**
+ * Rate Limit Type Definition Module
+ * Defines rate limiting rules and the interface every rate limit store implements.
+ *
+ * @description
+ * - ip: One bucket per client IP address
+ * - account: One bucket per account the request targets (e.g. the email being signed in to)
+ */
+
+export type RateLimitScope = 'ip' | 'account';
+
+/** Routes with their own rate limits */
+export type RateLimitedRoute =
+  | 'signIn'
+  | 'forgotPassword'
+  | 'verifyEmail'
+  | 'verifyOtp'
+  | 'requestPhoneOtp'
+  | 'verifyPhoneOtp'
+  | 'changePassword'
+  | 'emergencyContactInvite';
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+}
+
+/** State of a bucket after counting a request */
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  /** Counts a request in a bucket, starting a new window if the previous one ended */
+  hit(key: string, windowSeconds: number): Promise<RateLimitHit>;
+}
@@ -0,0 +1,36 @@
+/**
+ * Rating Type Definition Module
+ * Defines the ratings riders and drivers give each other after a completed ride.
+ *
+ * @description
+ * - rider: The rating was given by the rider, about the driver
+ * - driver: The rating was given by the driver, about the rider
+ */
+
+export type RaterRole = 'rider' | 'driver';
+
+export type RatingTag =
+  | 'polite'
+  | 'on_time'
+  | 'safe_driving'
+  | 'clean_vehicle'
+  | 'good_navigation'
+  | 'respectful'
+  | 'rude'
+  | 'late'
+  | 'unsafe_driving'
+  | 'dirty_vehicle'
+  | 'messy'
+  | 'wrong_pickup';
+
+export interface RideRatingType {
+  id: string;
+  ride_id: string;
+  rater_id: string;
+  ratee_id: string;
+  rater_role: RaterRole;
+  rating: number;
+  tags: RatingTag[];
+  comment: string | null;
+  created_at: Date;
+}
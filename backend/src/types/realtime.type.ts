@@ -0,0 +1,39 @@
+/**
+ * Realtime Type Definition Module
+ * Defines the events pushed to riders and drivers over the WebSocket gateway.
+ *
+ * @description
+ * - ride.offer: A ride is offered to a driver (sent to the driver only)
+ * - ride.driver_assigned: A driver accepted the ride
+ * - ride.driver_location: The assigned driver's latest position
+ * - ride.driver_arrived: The driver is waiting at the pickup
+ * - ride.started: The trip has started
+ * - ride.completed: The trip has ended
+ * - ride.cancelled: The ride was cancelled
+ * - ride.pool_leg_updated: New planned times of a pooled rider's own pickup and drop
+ * - pool.route_updated: New stop order of a pool (sent to the driver only)
+ * - ride.message: A new message in the ride chat
+ * - ride.messages_read: A participant read the other participant's messages
+ */
+
+export type RealtimeEvent =
+  | 'ride.offer'
+  | 'ride.driver_assigned'
+  | 'ride.driver_location'
+  | 'ride.driver_arrived'
+  | 'ride.started'
+  | 'ride.completed'
+  | 'ride.cancelled'
+  | 'ride.pool_leg_updated'
+  | 'pool.route_updated'
+  | 'ride.message'
+  | 'ride.messages_read';
+
+/** Messages a client can send to the gateway */
+export type RealtimeClientMessage = { type: 'subscribe'; rideId: string } | { type: 'unsubscribe'; rideId: string };
+
+/** Envelope of every message pushed by the gateway */
+export interface RealtimeMessage {
+  event: RealtimeEvent | 'subscribed' | 'unsubscribed' | 'error';
+  data: unknown;
+}
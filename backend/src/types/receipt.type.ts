@@ -0,0 +1,42 @@
+/**
+ * Receipt Type Definition Module
+ * Defines the trip receipt shared by the receipt email and the PDF download,
+ * built from the ride as it is when the receipt is read.
+ * Rides cancelled after the grace period get a receipt for the cancellation fee.
+ */
+
+import { RideOption, RideStatus, VehicleType } from './ride.type';
+import { RidePaymentMethod } from './ledger.type';
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+}
+
+export interface RideReceipt {
+  receipt_number: string;
+  ride_id: string;
+  status: RideStatus; // completed, or cancelled for a cancellation fee
+  currency: string;
+  rider_name: string;
+  rider_email: string;
+  driver_name: string | null;
+  vehicle: string | null; // Colour, make, model and plate of the driver's vehicle
+  ride_option: RideOption;
+  vehicle_type: VehicleType;
+  pickup: string; // Pickup address, or coordinates when no address was given
+  drop: string; // Drop address, or coordinates when no address was given
+  started_at: Date | null;
+  completed_at: Date | null;
+  cancelled_at: Date | null;
+  cancellation_reason: string | null;
+  distance_km: number | null; // Null for cancelled rides
+  duration_min: number | null; // Null for cancelled rides
+  fare_lines: ReceiptLine[]; // Fare components before the promo discount, or the cancellation fee
+  promo_code: string | null;
+  discount: number;
+  fare_total: number; // Fare after the promo discount
+  tip: number;
+  total_paid: number; // Fare total plus tip
+  payment_method: RidePaymentMethod;
+}
@@ -0,0 +1,35 @@
+/**
+ * Reservation Type Definition Module
+ * Defines a ride booked for a future pickup time (reserve and intercity rides).
+ *
+ * @description
+ * - scheduled: Waiting for the dispatch window to open
+ * - dispatching: A ride was created and dispatch is looking for a driver
+ * - confirmed: A driver accepted the ride
+ * - failed: No driver accepted before the pickup time
+ * - cancelled: The rider cancelled the booking
+ */
+
+import { RideOption, VehicleType } from './ride.type';
+
+export type ReservationStatus = 'scheduled' | 'dispatching' | 'confirmed' | 'failed' | 'cancelled';
+
+export interface ReservationType {
+  id: string;
+  rider_id: string;
+  ride_id: string | null;
+  ride_option: Extract<RideOption, 'reserve' | 'intercity'>;
+  vehicle_type: VehicleType;
+  pickup_lat: number;
+  pickup_lng: number;
+  pickup_address: string | null;
+  drop_lat: number;
+  drop_lng: number;
+  drop_address: string | null;
+  scheduled_at: Date;
+  estimated_distance_km: number;
+  estimated_duration_min: number;
+  estimated_fare: number;
+  status: ReservationStatus;
+  reminder_sent_at: Date | null;
+}
@@ -0,0 +1,55 @@
+/**
+ * Ride Type Definition Module
+ * Defines the ride options, vehicle types and lifecycle statuses of a ride.
+ *
+ * @description
+ * - requested: Rider has created the request and is waiting for a driver
+ * - driver_assigned: A driver has accepted the ride and is heading to the pickup
+ * - driver_arrived: The driver is waiting at the pickup location
+ * - in_progress: The rider is on board and the trip has started
+ * - completed: The trip has ended at the drop location
+ * - cancelled: The ride was cancelled by the rider or the driver
+ */
+
+import { FareBreakdown, IntercityFareBreakdown } from './fare.type';
+import { RidePaymentMethod } from './ledger.type';
+
+export type RideStatus = 'requested' | 'driver_assigned' | 'driver_arrived' | 'in_progress' | 'completed' | 'cancelled';
+
+export type RideOption = 'trip' | 'auto' | 'intercity' | 'reserve' | 'pool';
+
+export type VehicleType = 'bike' | 'auto' | 'car';
+
+export interface RideType {
+  id: string;
+  rider_id: string;
+  driver_id: string | null;
+  ride_option: RideOption;
+  vehicle_type: VehicleType;
+  status: RideStatus;
+  pickup_lat: number;
+  pickup_lng: number;
+  pickup_address: string | null;
+  drop_lat: number;
+  drop_lng: number;
+  drop_address: string | null;
+  estimated_distance_km: number;
+  estimated_duration_min: number;
+  estimated_fare: number;
+  distance_km: number | null;
+  duration_min: number | null;
+  final_fare: number | null;
+  fare_breakdown: FareBreakdown | IntercityFareBreakdown | null;
+  payment_method: RidePaymentMethod;
+  cash_due: number; // Paid in cash at drop-off: the part of the fare a wallet did not cover, plus any unpaid wallet balance on cash rides
+  seats: number; // Seats booked, more than one only on pooled rides
+  pool_id: string | null; // Driver's pool the ride joined, pooled rides only
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  requested_at: Date;
+  driver_assigned_at: Date | null;
+  driver_arrived_at: Date | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  cancelled_at: Date | null;
+}
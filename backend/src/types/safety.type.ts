@@ -0,0 +1,71 @@
+/**
+ * Safety Type Definition Module
+ * Defines a rider's emergency contacts, SOS alerts raised during a ride and the
+ * public links riders share to let others follow a trip.
+ *
+ * @description
+ * - open: The SOS alert was raised and nobody has followed it up yet
+ * - resolved: An admin followed the alert up and closed it
+ */
+
+export type SosAlertStatus = 'open' | 'resolved';
+
+export interface EmergencyContactType {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string; // SOS alerts are sent here
+  phone_number: string | null;
+  relationship: string | null;
+  confirmed_at: Date | null; // Set once the contact confirms their email; unconfirmed contacts get no SOS alerts
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SosAlertType {
+  id: string;
+  ride_id: string;
+  user_id: string; // Rider who raised the alert
+  lat: number | null; // Null when neither the rider nor the driver reported a position
+  lng: number | null;
+  message: string | null;
+  status: SosAlertStatus;
+  contacts_notified: number;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+}
+
+export interface TripShareLinkType {
+  id: string;
+  ride_id: string;
+  created_by: string;
+  token_hash: string; // SHA-256 of the token in the link; the token itself is never stored
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+/** Newly created trip sharing link, the only time its token is available */
+export interface CreatedTripShareLink {
+  id: string;
+  token: string;
+  url: string;
+  expires_at: Date;
+}
+
+/** Details of an SOS alert sent to admins and emergency contacts */
+export interface SosAlertNotice {
+  alert_id: string;
+  ride_id: string;
+  rider_name: string;
+  rider_phone: string | null;
+  driver_name: string | null;
+  vehicle: string | null; // Colour, make, model and plate of the driver's vehicle
+  lat: number | null;
+  lng: number | null;
+  message: string | null;
+  raised_at: Date;
+  tracking_url: string | null; // Live trip link, included for emergency contacts only
+}
@@ -0,0 +1,23 @@
+/**
+ * Saved Place Type Definition Module
+ * Defines the places a rider saves for quick pickup and drop selection.
+ *
+ * @description
+ * - home: The rider's home, at most one per rider
+ * - work: The rider's workplace, at most one per rider
+ * - custom: Any other favourite, named by the rider
+ */
+
+export type SavedPlaceKind = 'home' | 'work' | 'custom';
+
+export interface SavedPlaceType {
+  id: string;
+  user_id: string;
+  kind: SavedPlaceKind;
+  label: string;
+  lat: number;
+  lng: number;
+  address: string;
+  created_at: Date;
+  updated_at: Date;
+}
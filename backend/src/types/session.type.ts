@@ -0,0 +1,41 @@
+/**
+ * Session Type Definition Module
+ * Defines a signed-in device. Each session holds the hash of its current refresh
+ * token, which is replaced on every refresh; a session is also the token family
+ * that is revoked when an old refresh token is used again.
+ *
+ * @description
+ * - signed_out: The device signed out, or was signed out from another device
+ * - signed_out_everywhere: The user signed out of every device
+ * - token_reused: A refresh token that had already been rotated was presented again
+ */
+
+export type SessionRevokedReason = 'signed_out' | 'signed_out_everywhere' | 'token_reused';
+
+export interface SessionType {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: Date;
+  last_used_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: SessionRevokedReason | null;
+  created_at: Date;
+}
+
+/** Details of the device a session is created for */
+export interface SessionDevice {
+  deviceName: string | null; // Name the client gives the device, e.g. "Pixel 8"
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/** Tokens issued when a session is created or refreshed */
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+}
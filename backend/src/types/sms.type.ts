@@ -0,0 +1,14 @@
+/**
+ * SMS Type Definition Module
+ * Defines the interface every SMS provider implements.
+ */
+
+export interface SmsMessage {
+  to: string; // Phone number in E.164 format
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
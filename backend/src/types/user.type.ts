@@ -12,6 +12,10 @@ export interface UserType {
   lastname: string;
   email: string;
   password: string;
+  phone_number: string | null;
+  phone_verified_at: Date | null; // Set once the number was confirmed by OTP; cleared when it changes
   role: Role;
   is_verified: boolean;
+  failed_sign_in_count: number; // Wrong passwords in a row since the last sign-in or lock
+  locked_until: Date | null; // Password sign-in is refused until then
 }
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv } from './csv.utils';
+
+describe('toCsv', () => {
+  it('writes the header and rows with CRLF line endings', () => {
+    assert.equal(toCsv(['ride_id', 'fare'], [['a1', 120.5]]), 'ride_id,fare\r\na1,120.5\r\n');
+  });
+
+  it('writes empty fields for null and undefined', () => {
+    assert.equal(toCsv(['a', 'b', 'c'], [[null, undefined, false]]), 'a,b,c\r\n,,false\r\n');
+  });
+
+  it('writes dates as ISO timestamps', () => {
+    assert.equal(toCsv(['at'], [[new Date(Date.UTC(2025, 0, 2, 3, 4, 5))]]), 'at\r\n2025-01-02T03:04:05.000Z\r\n');
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    assert.equal(
+      toCsv(['note'], [['a,b'], ['say "hi"'], ['two\nlines']]),
+      'note\r\n"a,b"\r\n"say ""hi"""\r\n"two\nlines"\r\n',
+    );
+  });
+
+  it('prefixes text starting with a formula character with a quote', () => {
+    assert.equal(
+      toCsv(['note'], [['=SUM(A1:A2)'], ['+1'], ['-1'], ['@cmd']]),
+      "note\r\n'=SUM(A1:A2)\r\n'+1\r\n'-1\r\n'@cmd\r\n",
+    );
+  });
+
+  it('quotes a formula field after prefixing it when it also needs quoting', () => {
+    assert.equal(toCsv(['note'], [['=HYPERLINK("x","y")']]), 'note\r\n"\'=HYPERLINK(""x"",""y"")"\r\n');
+  });
+
+  it('leaves negative numbers unprefixed', () => {
+    assert.equal(toCsv(['amount'], [[-42.5]]), 'amount\r\n-42.5\r\n');
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * CSV Utility Module
+ * Builds RFC 4180 CSV documents for downloads.
+ */
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Escapes a single CSV field
+ * Fields containing commas, quotes or line breaks are quoted, and quotes are doubled.
+ * Fields starting with a formula character are prefixed with a quote so spreadsheets show them as text.
+ * @param value - Field value
+ * @returns Escaped field
+ */
+const escapeCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+
+  let field = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(field)) {
+    field = `'${field}`;
+  }
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+/**
+ * Builds a CSV document
+ * @param header - Column names
+ * @param rows - Rows of field values, in column order
+ * @returns CSV text with CRLF line endings
+ *
+ * @example
+ * toCsv(['ride_id', 'fare'], [['a1', 120.5]]);
+ * // 'ride_id,fare\r\na1,120.5\r\n'
+ */
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
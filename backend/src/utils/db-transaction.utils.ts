@@ -0,0 +1,36 @@
+/**
+ * Database Transaction Module
+ * Runs a group of queries on a single pooled client inside BEGIN/COMMIT.
+ */
+
+import { PoolClient } from 'pg';
+import pool from '../db/db';
+
+/**
+ * Executes a callback inside a database transaction
+ * Commits when the callback resolves and rolls back when it throws.
+ *
+ * @param callback - Function receiving the transaction client
+ * @returns Promise resolving to the callback result
+ *
+ * @example
+ * const ride = await withTransaction(async (client) => {
+ *   const { rows } = await client.query('SELECT * FROM rides WHERE id = $1 FOR UPDATE', [id]);
+ *   return rows[0];
+ * });
+ */
+export const withTransaction = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { INTERCITY_RATE_CARDS, POOL_DISCOUNT_PERCENT, POOL_EXTRA_SEAT_PERCENT } from '../constants';
+import { calculateFare, calculateIntercityFare, calculatePoolFare, IntercityFareInput } from './fare-calculator.utils';
+
+const carCard = INTERCITY_RATE_CARDS.car!;
+
+const oneWayTrip: IntercityFareInput = {
+  vehicleType: 'car',
+  tripType: 'one_way',
+  oneWayDistanceKm: 300,
+  tripDays: 1,
+  crossesStateBorder: false,
+};
+
+describe('calculateIntercityFare', () => {
+  it('doubles the distance of a round trip', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, tripType: 'round_trip', tripDays: 2 });
+
+    assert.equal(fare.distance_km, 600);
+    assert.equal(fare.distance_fare, 600 * carCard.perKm);
+    assert.equal(fare.driver_allowance, carCard.driverNightAllowance);
+  });
+
+  it('bills the per-day minimum distance for short trips', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, oneWayDistanceKm: 100, tripDays: 2 });
+
+    assert.equal(fare.billable_distance_km, 2 * carCard.minimumKmPerDay);
+    assert.equal(fare.minimum_distance_adjustment, (2 * carCard.minimumKmPerDay - 100) * carCard.perKm);
+  });
+
+  it('estimates tolls from the distance when none are reported', () => {
+    const fare = calculateIntercityFare(oneWayTrip);
+
+    assert.equal(fare.toll_charges, 300 * carCard.tollPerKm);
+  });
+
+  it('caps reported tolls by the rate card', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, tollCharges: 100000 });
+
+    assert.equal(fare.toll_charges, 300 * carCard.maxTollPerKm);
+  });
+
+  it('keeps reported tolls below the cap', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, tollCharges: 120 });
+
+    assert.equal(fare.toll_charges, 120);
+  });
+
+  it('ignores permit charges when the trip stays within the state', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, statePermitCharges: 400 });
+
+    assert.equal(fare.state_permit_charges, 0);
+  });
+
+  it('caps reported permit charges by the rate card', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, crossesStateBorder: true, statePermitCharges: 100000 });
+
+    assert.equal(fare.state_permit_charges, carCard.statePermitCharge);
+  });
+
+  it('adds tolls and permits to the total without tax', () => {
+    const fare = calculateIntercityFare({ ...oneWayTrip, crossesStateBorder: true, tollCharges: 200 });
+    const subtotal =
+      fare.base_fare + fare.distance_fare + fare.minimum_distance_adjustment + fare.driver_allowance + fare.booking_fee;
+
+    assert.equal(fare.taxes, Math.round(subtotal * carCard.taxRate * 100) / 100);
+    assert.equal(fare.total, Math.round((subtotal + fare.taxes + 200 + carCard.statePermitCharge) * 100) / 100);
+  });
+
+  it('rejects vehicle types without an intercity rate card', () => {
+    assert.throws(() => calculateIntercityFare({ ...oneWayTrip, vehicleType: 'bike' }), /not available for intercity/);
+  });
+});
+
+describe('calculatePoolFare', () => {
+  const soloFare = calculateFare('car', 8, 20);
+
+  it('takes the pool discount off a one-seat fare', () => {
+    const fare = calculatePoolFare('car', 8, 20, 1);
+
+    assert.equal(fare.seats, 1);
+    assert.equal(fare.extra_seat_charge, 0);
+    assert.equal(fare.pool_discount, Math.round(soloFare.total * POOL_DISCOUNT_PERCENT) / 100);
+    assert.equal(fare.total, Math.round((soloFare.total - fare.pool_discount) * 100) / 100);
+  });
+
+  it('charges each extra seat a share of the one-seat fare before the discount', () => {
+    const fare = calculatePoolFare('car', 8, 20, 2);
+    const extraSeatCharge = Math.round(soloFare.total * POOL_EXTRA_SEAT_PERCENT) / 100;
+
+    assert.equal(fare.extra_seat_charge, extraSeatCharge);
+    assert.equal(fare.pool_discount, Math.round((soloFare.total + extraSeatCharge) * POOL_DISCOUNT_PERCENT) / 100);
+    assert.equal(fare.total, Math.round((soloFare.total + extraSeatCharge - fare.pool_discount) * 100) / 100);
+  });
+
+  it('costs less than riding alone', () => {
+    assert.ok(calculatePoolFare('car', 8, 20, 1).total < soloFare.total);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Fare Calculator Module
+ * Computes trip distance/duration estimates and fare breakdowns from the rate cards.
+ * The same calculator is used for estimates and final fares.
+ * Pooled rides are priced from the rider's own trip, per seat, with the pool discount.
+ * Intercity trips use their own rate cards, priced per trip day.
+ */
+
+import {
+  FARE_CURRENCY,
+  INTERCITY_RATE_CARDS,
+  POOL_DISCOUNT_PERCENT,
+  POOL_EXTRA_SEAT_PERCENT,
+  RATE_CARDS,
+  ROAD_DISTANCE_FACTOR,
+  VEHICLE_TYPES,
+} from '../constants';
+import { FareBreakdown, IntercityFareBreakdown } from '../types/fare.type';
+import { IntercityTripType } from '../types/intercity.type';
+import { VehicleType } from '../types/ride.type';
+import { haversineDistanceKm } from './geo.utils';
+
+/**
+ * Rounds a monetary or metric value to two decimal places
+ * @param value - Value to round
+ * @returns Rounded value
+ */
+export const roundTo2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Formats an amount for display on receipts and statements
+ * @param currency - Currency code
+ * @param amount - Amount
+ * @returns Amount with currency and two decimals, e.g. "INR 120.50"
+ */
+export const formatFareAmount = (currency: string, amount: number): string =>
+  `${currency} ${Number(amount).toFixed(2)}`;
+
+/**
+ * Estimates the road distance between pickup and drop
+ * @param pickupLat - Pickup latitude
+ * @param pickupLng - Pickup longitude
+ * @param dropLat - Drop latitude
+ * @param dropLng - Drop longitude
+ * @returns Estimated road distance in kilometres
+ */
+export const estimateTripDistanceKm = (
+  pickupLat: number,
+  pickupLng: number,
+  dropLat: number,
+  dropLng: number,
+): number => {
+  return roundTo2(haversineDistanceKm(pickupLat, pickupLng, dropLat, dropLng) * ROAD_DISTANCE_FACTOR);
+};
+
+/**
+ * Estimates trip duration for a vehicle type from its average speed
+ * @param vehicleType - Vehicle type of the trip
+ * @param distanceKm - Trip distance in kilometres
+ * @returns Estimated duration in minutes
+ */
+export const estimateTripDurationMin = (vehicleType: VehicleType, distanceKm: number): number => {
+  return Math.ceil((distanceKm / RATE_CARDS[vehicleType].averageSpeedKmph) * 60);
+};
+
+/**
+ * Calculates the fare breakdown for a trip
+ * @param vehicleType - Vehicle type of the trip
+ * @param distanceKm - Trip distance in kilometres
+ * @param durationMin - Trip duration in minutes
+ * @returns Fare breakdown including booking fee, taxes and total
+ *
+ * @example
+ * const fare = calculateFare('car', 12.4, 28);
+ * console.log(fare.total);
+ */
+export const calculateFare = (vehicleType: VehicleType, distanceKm: number, durationMin: number): FareBreakdown => {
+  const rateCard = RATE_CARDS[vehicleType];
+
+  const baseFare = rateCard.baseFare;
+  const distanceFare = roundTo2(distanceKm * rateCard.perKm);
+  const timeFare = roundTo2(durationMin * rateCard.perMinute);
+  const meteredFare = baseFare + distanceFare + timeFare;
+  const minimumFareAdjustment = roundTo2(Math.max(0, rateCard.minimumFare - meteredFare));
+  const subtotal = meteredFare + minimumFareAdjustment + rateCard.bookingFee;
+  const taxes = roundTo2(subtotal * rateCard.taxRate);
+
+  return {
+    vehicle_type: vehicleType,
+    currency: FARE_CURRENCY,
+    distance_km: roundTo2(distanceKm),
+    duration_min: durationMin,
+    base_fare: baseFare,
+    distance_fare: distanceFare,
+    time_fare: timeFare,
+    minimum_fare_adjustment: minimumFareAdjustment,
+    booking_fee: rateCard.bookingFee,
+    taxes,
+    total: roundTo2(subtotal + taxes),
+  };
+};
+
+/**
+ * Estimates the fare for a vehicle type between two coordinates
+ * @param vehicleType - Vehicle type of the trip
+ * @param pickupLat - Pickup latitude
+ * @param pickupLng - Pickup longitude
+ * @param dropLat - Drop latitude
+ * @param dropLng - Drop longitude
+ * @returns Fare breakdown for the estimated distance and duration
+ */
+export const estimateFare = (
+  vehicleType: VehicleType,
+  pickupLat: number,
+  pickupLng: number,
+  dropLat: number,
+  dropLng: number,
+): FareBreakdown => {
+  const distanceKm = estimateTripDistanceKm(pickupLat, pickupLng, dropLat, dropLng);
+  return calculateFare(vehicleType, distanceKm, estimateTripDurationMin(vehicleType, distanceKm));
+};
+
+/**
+ * Estimates fares for every vehicle type between two coordinates
+ * @param pickupLat - Pickup latitude
+ * @param pickupLng - Pickup longitude
+ * @param dropLat - Drop latitude
+ * @param dropLng - Drop longitude
+ * @returns Fare breakdown per vehicle type
+ */
+export const estimateFaresForAllVehicles = (
+  pickupLat: number,
+  pickupLng: number,
+  dropLat: number,
+  dropLng: number,
+): FareBreakdown[] => {
+  return VEHICLE_TYPES.map((vehicleType) => estimateFare(vehicleType, pickupLat, pickupLng, dropLat, dropLng));
+};
+
+/**
+ * Calculates the fare of a pooled ride
+ * Riders pay for their own trip only, so detours for other riders never raise the fare.
+ * Seats beyond the first add POOL_EXTRA_SEAT_PERCENT of the one-seat fare, and the
+ * pool discount is taken off the result.
+ * @param vehicleType - Vehicle type of the pool
+ * @param distanceKm - Distance of the rider's own trip in kilometres
+ * @param durationMin - Duration of the rider's own trip in minutes
+ * @param seats - Seats booked
+ * @returns Fare breakdown with the seat charge and pool discount
+ */
+export const calculatePoolFare = (
+  vehicleType: VehicleType,
+  distanceKm: number,
+  durationMin: number,
+  seats: number,
+): FareBreakdown => {
+  const fare = calculateFare(vehicleType, distanceKm, durationMin);
+  const extraSeatCharge = roundTo2((fare.total * POOL_EXTRA_SEAT_PERCENT * (seats - 1)) / 100);
+  const poolDiscount = roundTo2(((fare.total + extraSeatCharge) * POOL_DISCOUNT_PERCENT) / 100);
+
+  return {
+    ...fare,
+    seats,
+    extra_seat_charge: extraSeatCharge,
+    pool_discount: poolDiscount,
+    total: roundTo2(fare.total + extraSeatCharge - poolDiscount),
+  };
+};
+
+/**
+ * Estimates the fare of a pooled ride between two coordinates
+ * @param vehicleType - Vehicle type of the pool
+ * @param seats - Seats booked
+ * @param pickupLat - Pickup latitude
+ * @param pickupLng - Pickup longitude
+ * @param dropLat - Drop latitude
+ * @param dropLng - Drop longitude
+ * @returns Pooled fare breakdown for the estimated distance and duration
+ */
+export const estimatePoolFare = (
+  vehicleType: VehicleType,
+  seats: number,
+  pickupLat: number,
+  pickupLng: number,
+  dropLat: number,
+  dropLng: number,
+): FareBreakdown => {
+  const distanceKm = estimateTripDistanceKm(pickupLat, pickupLng, dropLat, dropLng);
+  return calculatePoolFare(vehicleType, distanceKm, estimateTripDurationMin(vehicleType, distanceKm), seats);
+};
+
+export interface IntercityFareInput {
+  vehicleType: VehicleType;
+  tripType: IntercityTripType;
+  oneWayDistanceKm: number; // Road distance from pickup to drop
+  tripDays: number;
+  crossesStateBorder: boolean;
+  tollCharges?: number; // Actual tolls paid, capped by the rate card; estimated from the distance when omitted
+  statePermitCharges?: number; // Actual permit charges paid, capped by the rate card; ignored without a border crossing
+}
+
+/**
+ * Counts the calendar days an intercity trip spans
+ * One-way trips last as long as the drive; round trips last until the return date.
+ * @param tripType - One way or round trip
+ * @param departureAt - Departure time
+ * @param returnAt - Return time (round trips only)
+ * @param oneWayDurationMin - Estimated driving time from pickup to drop
+ * @returns Number of trip days, at least 1
+ */
+export const countIntercityTripDays = (
+  tripType: IntercityTripType,
+  departureAt: Date,
+  returnAt: Date | null,
+  oneWayDurationMin: number,
+): number => {
+  const endAt =
+    tripType === 'round_trip' && returnAt
+      ? new Date(returnAt.getTime() + oneWayDurationMin * 60000)
+      : new Date(departureAt.getTime() + oneWayDurationMin * 60000);
+
+  const startDay = new Date(departureAt);
+  startDay.setHours(0, 0, 0, 0);
+  const endDay = new Date(endAt);
+  endDay.setHours(0, 0, 0, 0);
+
+  return Math.round((endDay.getTime() - startDay.getTime()) / 86400000) + 1;
+};
+
+/**
+ * Calculates the fare breakdown for an intercity trip
+ * Distance below the per-day minimum is still billed, every night away adds the
+ * driver allowance, and tolls and state permits are passed through untaxed.
+ * Tolls and permits reported by the driver are capped by the rate card, and
+ * permits are only billed when the trip crosses a state border.
+ * @param input - Trip details
+ * @returns Intercity fare breakdown
+ *
+ * @example
+ * const fare = calculateIntercityFare({ vehicleType: 'car', tripType: 'round_trip', oneWayDistanceKm: 180, tripDays: 2, crossesStateBorder: false });
+ */
+export const calculateIntercityFare = (input: IntercityFareInput): IntercityFareBreakdown => {
+  const rateCard = INTERCITY_RATE_CARDS[input.vehicleType];
+  if (!rateCard) {
+    throw new Error(`Vehicle type ${input.vehicleType} is not available for intercity trips`);
+  }
+
+  const distanceKm = roundTo2(input.oneWayDistanceKm * (input.tripType === 'round_trip' ? 2 : 1));
+  const billableDistanceKm = Math.max(distanceKm, input.tripDays * rateCard.minimumKmPerDay);
+
+  const distanceFare = roundTo2(distanceKm * rateCard.perKm);
+  const minimumDistanceAdjustment = roundTo2((billableDistanceKm - distanceKm) * rateCard.perKm);
+  const driverAllowance = (input.tripDays - 1) * rateCard.driverNightAllowance;
+  const subtotal = rateCard.baseFare + distanceFare + minimumDistanceAdjustment + driverAllowance + rateCard.bookingFee;
+  const taxes = roundTo2(subtotal * rateCard.taxRate);
+
+  const tollCharges = roundTo2(
+    Math.min(input.tollCharges ?? distanceKm * rateCard.tollPerKm, distanceKm * rateCard.maxTollPerKm),
+  );
+  const statePermitCharges = input.crossesStateBorder
+    ? roundTo2(Math.min(input.statePermitCharges ?? rateCard.statePermitCharge, rateCard.statePermitCharge))
+    : 0;
+
+  return {
+    vehicle_type: input.vehicleType,
+    currency: FARE_CURRENCY,
+    trip_type: input.tripType,
+    trip_days: input.tripDays,
+    distance_km: distanceKm,
+    billable_distance_km: roundTo2(billableDistanceKm),
+    base_fare: rateCard.baseFare,
+    distance_fare: distanceFare,
+    minimum_distance_adjustment: minimumDistanceAdjustment,
+    driver_allowance: driverAllowance,
+    booking_fee: rateCard.bookingFee,
+    taxes,
+    toll_charges: tollCharges,
+    state_permit_charges: statePermitCharges,
+    total: roundTo2(subtotal + taxes + tollCharges + statePermitCharges),
+  };
+};
@@ -8,16 +8,21 @@ import { Role } from '../types/role.type';
  * @private
  * @param userId - User's ID to generate tokens for
  * @param role - Profile Role type
+ * @param sessionId - Session (device) the tokens are issued to
  * @returns {Promise<{generatedAccessToken: string, generatedRefreshToken: string}>} Object containing access and refresh tokens
  * @throws {ApiError} If token generation fails or user not found
  */
-export const generateAccessAndRefreshTokens = async (userId: number, role: Role): Promise<{
+export const generateAccessAndRefreshTokens = async (
+  userId: string,
+  role: Role,
+  sessionId: string,
+): Promise<{
   generatedAccessToken: string;
   generatedRefreshToken: string;
 }> => {
   try {
-    const generatedAccessToken = generateAuthTokenUtils(userId, role);
-    const generatedRefreshToken = generateRefreshTokenUtils(userId);
+    const generatedAccessToken = generateAuthTokenUtils(userId, role, sessionId);
+    const generatedRefreshToken = generateRefreshTokenUtils(userId, sessionId);
 
     return { generatedAccessToken, generatedRefreshToken };
   } catch (error) {
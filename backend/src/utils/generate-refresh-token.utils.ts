@@ -3,20 +3,24 @@
  * This module provides functionality to generate JWT refresh tokens for user sessions.
  */
 
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
 
 /**
  * Generates a JWT refresh token for a user
+ * Every token gets a unique ID, so a rotated token never equals the one it replaces.
  * @param userId - The unique identifier of the user
+ * @param sessionId - The session (device) the token is issued to
  * @returns JWT refresh token string
  * @throws Error if REFRESH_TOKEN_SECRET is not configured
  */
-export const generateRefreshTokenUtils = (userId: number): string => {
+export const generateRefreshTokenUtils = (userId: string, sessionId: string): string => {
   if (!process.env.REFRESH_TOKEN_SECRET) {
     throw new Error('REFRESH_TOKEN_SECRET is not configured');
   }
 
-  return jwt.sign({ userId }, process.env.REFRESH_TOKEN_SECRET, {
+  return jwt.sign({ userId, sessionId }, process.env.REFRESH_TOKEN_SECRET, {
     expiresIn: process.env.REFRESH_TOKEN_EXPIRY,
+    jwtid: randomUUID(),
   });
 };
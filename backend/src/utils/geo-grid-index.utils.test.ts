@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GeoGridIndex } from './geo-grid-index.utils';
+import { haversineDistanceKm } from './geo.utils';
+
+const ids = (points: { id: string }[]) => points.map(({ id }) => id);
+
+describe('GeoGridIndex', () => {
+  it('stores points and their payloads', () => {
+    const index = new GeoGridIndex<{ vehicleType: string }>();
+    index.upsert('d1', 12.97, 77.59, { vehicleType: 'car' });
+
+    assert.deepEqual(index.get('d1'), { vehicleType: 'car' });
+    assert.equal(index.get('d2'), undefined);
+    assert.deepEqual(ids(index.findWithinRadius(12.97, 77.59, 1)), ['d1']);
+  });
+
+  it('moves a point to its new position and payload', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('d1', 12.97, 77.59, 'car');
+    index.upsert('d1', 13.2, 77.7, 'bike');
+
+    assert.deepEqual(ids(index.findWithinRadius(12.97, 77.59, 2)), []);
+    assert.deepEqual(index.findWithinRadius(13.2, 77.7, 2), [
+      { id: 'd1', lat: 13.2, lng: 77.7, distanceKm: 0, data: 'bike' },
+    ]);
+  });
+
+  it('updates a point that moves within its cell', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('d1', 12.971, 77.591, 'car');
+    index.upsert('d1', 12.972, 77.592, 'car');
+
+    const [point] = index.findWithinRadius(12.972, 77.592, 1);
+    assert.deepEqual([point.lat, point.lng], [12.972, 77.592]);
+  });
+
+  it('removes points', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('d1', 12.97, 77.59, 'car');
+    index.upsert('d2', 12.97, 77.59, 'car');
+    index.remove('d1');
+    index.remove('unknown');
+
+    assert.equal(index.get('d1'), undefined);
+    assert.deepEqual(ids(index.findWithinRadius(12.97, 77.59, 1)), ['d2']);
+  });
+
+  it('finds points in neighbouring cells across cell borders', () => {
+    const index = new GeoGridIndex<string>();
+    // The search centre sits just inside one corner of a cell; each point is in a different cell
+    index.upsert('north', 13.0004, 77.5996, 'car');
+    index.upsert('east', 12.9996, 77.6004, 'car');
+    index.upsert('north-east', 13.0004, 77.6004, 'car');
+    index.upsert('same-cell', 12.9996, 77.5996, 'car');
+
+    assert.deepEqual(ids(index.findWithinRadius(12.9999, 77.5999, 0.5)).sort(), [
+      'east',
+      'north',
+      'north-east',
+      'same-cell',
+    ]);
+  });
+
+  it('finds points across the equator and the prime meridian', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('south-west', -0.002, -0.002, 'car');
+    index.upsert('north-east', 0.002, 0.002, 'car');
+
+    assert.deepEqual(ids(index.findWithinRadius(0, 0, 1)).sort(), ['north-east', 'south-west']);
+  });
+
+  it('leaves out points beyond the radius, including those in cells the search inspects', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('inside', 12.97, 77.6, 'car');
+    index.upsert('outside', 12.97, 77.62, 'car');
+
+    const radiusKm =
+      (haversineDistanceKm(12.97, 77.59, 12.97, 77.6) + haversineDistanceKm(12.97, 77.59, 12.97, 77.62)) / 2;
+    assert.deepEqual(ids(index.findWithinRadius(12.97, 77.59, radiusKm)), ['inside']);
+  });
+
+  it('finds a point just inside the radius in the next cell', () => {
+    const index = new GeoGridIndex<string>();
+    // The point sits at the very start of the cell north of the search centre's cell
+    index.upsert('edge', 12.98, 77.59, 'car');
+
+    const radiusKm = haversineDistanceKm(12.9705, 77.59, 12.98, 77.59) * 1.0005;
+    assert.deepEqual(ids(index.findWithinRadius(12.9705, 77.59, radiusKm)), ['edge']);
+  });
+
+  it('finds points east of the centre where the search circle bulges towards the pole', () => {
+    const index = new GeoGridIndex<string>();
+    // Longitude degrees shrink towards the pole, so the circle spans more of them north of its centre
+    index.upsert('edge', 61.27, 18.1, 'car');
+
+    assert.ok(haversineDistanceKm(60, 0, 61.27, 18.1) < 1000);
+    assert.deepEqual(ids(index.findWithinRadius(60, 0, 1000)), ['edge']);
+  });
+
+  it('returns points nearest first with their distances', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('far', 12.99, 77.59, 'car');
+    index.upsert('near', 12.971, 77.59, 'car');
+    index.upsert('middle', 12.96, 77.59, 'car');
+
+    const nearby = index.findWithinRadius(12.97, 77.59, 5);
+    assert.deepEqual(ids(nearby), ['near', 'middle', 'far']);
+    nearby.forEach(({ lat, lng, distanceKm }) => assert.equal(distanceKm, haversineDistanceKm(12.97, 77.59, lat, lng)));
+  });
+
+  it('applies the filter to payloads', () => {
+    const index = new GeoGridIndex<string>();
+    index.upsert('car', 12.97, 77.59, 'car');
+    index.upsert('bike', 12.971, 77.59, 'bike');
+
+    assert.deepEqual(ids(index.findWithinRadius(12.97, 77.59, 1, (vehicleType) => vehicleType === 'car')), ['car']);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Geo Grid Index Module
+ * In-process spatial index that buckets points into fixed-size latitude/longitude
+ * cells so radius searches only inspect the cells overlapping the search area.
+ */
+
+import { haversineDistanceKm } from './geo.utils';
+
+/** Kilometres per degree of latitude, on the same Earth radius as the distances compared with the search radius */
+const KM_PER_DEGREE = haversineDistanceKm(0, 0, 1, 0);
+
+interface IndexedPoint<T> {
+  id: string;
+  lat: number;
+  lng: number;
+  cellKey: string;
+  data: T;
+}
+
+export interface NearbyPoint<T> {
+  id: string;
+  lat: number;
+  lng: number;
+  distanceKm: number;
+  data: T;
+}
+
+/**
+ * Grid-based spatial index keyed by point ID
+ *
+ * @example
+ * const index = new GeoGridIndex<{ vehicleType: string }>();
+ * index.upsert('driver-1', 23.03, 72.58, { vehicleType: 'car' });
+ * const nearby = index.findWithinRadius(23.02, 72.57, 3);
+ */
+export class GeoGridIndex<T> {
+  private readonly cells = new Map<string, Set<string>>();
+  private readonly points = new Map<string, IndexedPoint<T>>();
+
+  /**
+   * Creates a grid index
+   * @param cellSizeDegrees - Width and height of a grid cell in degrees (defaults to 0.01, about 1.1 km)
+   */
+  constructor(private readonly cellSizeDegrees = 0.01) {}
+
+  private cellKey(latCell: number, lngCell: number): string {
+    return `${latCell}:${lngCell}`;
+  }
+
+  private latCell(lat: number): number {
+    return Math.floor(lat / this.cellSizeDegrees);
+  }
+
+  private lngCell(lng: number): number {
+    return Math.floor(lng / this.cellSizeDegrees);
+  }
+
+  /**
+   * Inserts a point or moves an existing one
+   * @param id - Unique point ID
+   * @param lat - Latitude in degrees
+   * @param lng - Longitude in degrees
+   * @param data - Payload stored with the point
+   */
+  upsert(id: string, lat: number, lng: number, data: T): void {
+    const cellKey = this.cellKey(this.latCell(lat), this.lngCell(lng));
+    const existing = this.points.get(id);
+
+    if (existing && existing.cellKey !== cellKey) {
+      this.removeFromCell(existing.cellKey, id);
+    }
+
+    if (!this.cells.has(cellKey)) {
+      this.cells.set(cellKey, new Set());
+    }
+    this.cells.get(cellKey)!.add(id);
+    this.points.set(id, { id, lat, lng, cellKey, data });
+  }
+
+  /**
+   * Removes a point from the index
+   * @param id - Point ID
+   */
+  remove(id: string): void {
+    const existing = this.points.get(id);
+    if (!existing) return;
+
+    this.removeFromCell(existing.cellKey, id);
+    this.points.delete(id);
+  }
+
+  private removeFromCell(cellKey: string, id: string): void {
+    const cell = this.cells.get(cellKey);
+    cell?.delete(id);
+    if (cell && cell.size === 0) {
+      this.cells.delete(cellKey);
+    }
+  }
+
+  /**
+   * Returns a stored point by ID
+   * @param id - Point ID
+   * @returns Stored point data or undefined
+   */
+  get(id: string): T | undefined {
+    return this.points.get(id)?.data;
+  }
+
+  /**
+   * Finds points within a radius, nearest first
+   * @param lat - Search centre latitude
+   * @param lng - Search centre longitude
+   * @param radiusKm - Search radius in kilometres
+   * @param filter - Optional predicate applied to each point's payload
+   * @returns Matching points sorted by distance
+   */
+  findWithinRadius(lat: number, lng: number, radiusKm: number, filter?: (data: T) => boolean): NearbyPoint<T>[] {
+    const latDelta = radiusKm / KM_PER_DEGREE;
+    // Degrees of longitude are shortest at the edge of the search area farthest from the equator
+    const farthestLat = Math.min(Math.abs(lat) + latDelta, 90);
+    const lngDelta = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((farthestLat * Math.PI) / 180), 0.01));
+
+    const results: NearbyPoint<T>[] = [];
+    for (let latCell = this.latCell(lat - latDelta); latCell <= this.latCell(lat + latDelta); latCell++) {
+      for (let lngCell = this.lngCell(lng - lngDelta); lngCell <= this.lngCell(lng + lngDelta); lngCell++) {
+        const cell = this.cells.get(this.cellKey(latCell, lngCell));
+        if (!cell) continue;
+
+        for (const id of cell) {
+          const point = this.points.get(id)!;
+          if (filter && !filter(point.data)) continue;
+
+          const distanceKm = haversineDistanceKm(lat, lng, point.lat, point.lng);
+          if (distanceKm <= radiusKm) {
+            results.push({ id, lat: point.lat, lng: point.lng, distanceKm, data: point.data });
+          }
+        }
+      }
+    }
+
+    return results.sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+}
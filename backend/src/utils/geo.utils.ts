@@ -0,0 +1,57 @@
+/**
+ * Geolocation Utilities
+ * Helpers for validating and working with latitude/longitude coordinates.
+ */
+
+/**
+ * Checks if a latitude/longitude pair is a valid WGS84 coordinate
+ * @param lat - Latitude in degrees
+ * @param lng - Longitude in degrees
+ * @returns True if both values are finite numbers within range
+ */
+export const isValidCoordinate = (lat: unknown, lng: unknown): boolean => {
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+
+  return (
+    lat !== null &&
+    lat !== undefined &&
+    lat !== '' &&
+    lng !== null &&
+    lng !== undefined &&
+    lng !== '' &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+};
+
+/** Mean Earth radius in kilometres */
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Converts degrees to radians
+ * @param degrees - Angle in degrees
+ * @returns Angle in radians
+ */
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Calculates the great-circle distance between two coordinates (haversine formula)
+ * @param fromLat - Origin latitude
+ * @param fromLng - Origin longitude
+ * @param toLat - Destination latitude
+ * @param toLng - Destination longitude
+ * @returns Distance in kilometres
+ */
+export const haversineDistanceKm = (fromLat: number, fromLng: number, toLat: number, toLng: number): number => {
+  const dLat = toRadians(toLat - fromLat);
+  const dLng = toRadians(toLng - fromLng);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
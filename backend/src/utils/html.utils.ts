@@ -0,0 +1,23 @@
+/**
+ * HTML Utility Module
+ * Helpers for building the HTML of emails from user-supplied text.
+ */
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes a value for use in HTML text or a quoted attribute
+ * @param value - Value to insert; null and undefined become an empty string
+ * @returns Escaped text
+ *
+ * @example
+ * escapeHtml('<b>Home</b>'); // '&lt;b&gt;Home&lt;/b&gt;'
+ */
+export const escapeHtml = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value).replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
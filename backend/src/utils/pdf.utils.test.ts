@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { measureText, PDF_PAGE_HEIGHT, renderPdf, wrapText } from './pdf.utils';
+
+/** Content streams of a rendered PDF, in page order */
+const pageContents = (pdf: Buffer): string[] =>
+  [...pdf.toString('latin1').matchAll(/stream\n([\s\S]*?)\nendstream/g)].map(([, content]) => content);
+
+describe('wrapText', () => {
+  it('keeps short text on one line', () => {
+    assert.deepEqual(wrapText('12 Main Street', 400, 10), ['12 Main Street']);
+  });
+
+  it('breaks between words so every line fits', () => {
+    const text = 'Terminal 2 departures, Kempegowda International Airport, Devanahalli, Bengaluru, Karnataka';
+    const lines = wrapText(text, 150, 10);
+
+    assert.ok(lines.length > 1);
+    assert.equal(lines.join(' '), text);
+    for (const line of lines) assert.ok(measureText(line, 10) <= 150);
+  });
+
+  it('keeps a word longer than the width on its own line', () => {
+    assert.deepEqual(wrapText('a Supercalifragilisticexpialidocious b', 50, 10), [
+      'a',
+      'Supercalifragilisticexpialidocious',
+      'b',
+    ]);
+  });
+
+  it('returns no lines for blank text', () => {
+    assert.deepEqual(wrapText('   ', 100, 10), []);
+  });
+});
+
+describe('renderPdf', () => {
+  it('writes a one-page document by default', () => {
+    const pdf = renderPdf([{ text: 'Hello', x: 50, y: 70 }]).toString('latin1');
+
+    assert.ok(pdf.startsWith('%PDF-1.4\n'));
+    assert.ok(pdf.endsWith('%%EOF\n'));
+    assert.match(pdf, /\/Count 1 >>/);
+    assert.deepEqual(pageContents(Buffer.from(pdf, 'latin1')), [
+      `BT /F1 10 Tf 50.00 ${PDF_PAGE_HEIGHT - 70} Td (Hello) Tj ET`,
+    ]);
+  });
+
+  it('places text and rules on the pages they name', () => {
+    const pdf = renderPdf(
+      [
+        { text: 'First', x: 50, y: 70 },
+        { text: 'Third', x: 50, y: 70, page: 2 },
+      ],
+      [{ x1: 50, x2: 545, y: 100, page: 1 }],
+    );
+    const contents = pageContents(pdf);
+
+    assert.match(pdf.toString('latin1'), /\/Count 3 >>/);
+    assert.equal(contents.length, 3);
+    assert.match(contents[0], /\(First\)/);
+    assert.match(contents[1], / l S$/);
+    assert.doesNotMatch(contents[1], /Tj/);
+    assert.match(contents[2], /\(Third\)/);
+  });
+
+  it('lists the byte offset of every object in the cross-reference table', () => {
+    const pdf = renderPdf([
+      { text: 'Page one', x: 50, y: 70 },
+      { text: 'Page two', x: 50, y: 70, page: 1 },
+    ]).toString('latin1');
+    const xref = pdf.slice(pdf.indexOf('xref\n'));
+    const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map(([, offset]) => Number(offset));
+
+    assert.equal(offsets.length, 8);
+    offsets.forEach((offset, index) => assert.ok(pdf.startsWith(`${index + 1} 0 obj\n`, offset)));
+    assert.equal(Number(/startxref\n(\d+)/.exec(pdf)![1]), pdf.indexOf('xref\n'));
+  });
+
+  it('right-aligns text to its x position', () => {
+    const [content] = pageContents(renderPdf([{ text: '100.00', x: 545, y: 70, align: 'right' }]));
+
+    assert.match(content, new RegExp(` ${(545 - measureText('100.00', 10)).toFixed(2)} `));
+  });
+
+  it('escapes string delimiters and replaces characters the fonts cannot print', () => {
+    const [content] = pageContents(renderPdf([{ text: 'Fare (incl. tax) \\ 5 ₹', x: 50, y: 70 }]));
+
+    assert.match(content, /\(Fare \\\(incl\. tax\\\) \\\\ 5 \?\) Tj/);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * PDF Utility Module
+ * Writes simple PDF documents (text and horizontal rules) without
+ * any external library or service. Text uses the built-in Helvetica fonts, so
+ * only Latin-1 characters are printed; anything else is replaced with '?'.
+ */
+
+/** A4 page size in points */
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  text: string;
+  x: number; // Points from the left edge (the right edge of the text when right-aligned)
+  y: number; // Points from the top edge to the text baseline
+  size?: number; // Font size in points, defaults to 10
+  bold?: boolean;
+  align?: 'left' | 'right';
+  page?: number; // Page index, defaults to 0 (the first page)
+}
+
+export interface PdfRule {
+  x1: number;
+  x2: number;
+  y: number; // Points from the top edge
+  page?: number; // Page index, defaults to 0 (the first page)
+}
+
+/** Helvetica glyph widths (per 1000 units of font size) for characters 32 to 126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+/**
+ * Estimates the printed width of a string in Helvetica
+ * Bold text is slightly wider; digits, used for right-aligned amounts, are the same in both.
+ * @param text - Text to measure
+ * @param size - Font size in points
+ * @returns Width in points
+ */
+export const measureText = (text: string, size: number): number =>
+  ([...text].reduce((width, char) => width + (HELVETICA_WIDTHS[char.charCodeAt(0) - 32] ?? 556), 0) * size) / 1000;
+
+/**
+ * Splits text into lines that fit a width, breaking between words
+ * @param text - Text to wrap
+ * @param maxWidth - Available width in points
+ * @param size - Font size in points
+ * @returns Lines of text
+ */
+export const wrapText = (text: string, maxWidth: number, size: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+
+  return line ? [...lines, line] : lines;
+};
+
+/**
+ * Escapes text for a PDF string literal and drops characters the fonts cannot print
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+const escapePdfText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+/**
+ * Renders an A4 PDF
+ * The document has as many pages as the highest page index used.
+ * @param texts - Text to print
+ * @param rules - Horizontal lines to draw (optional)
+ * @returns PDF file contents
+ */
+export const renderPdf = (texts: PdfText[], rules: PdfRule[] = []): Buffer => {
+  const pageCount = Math.max(0, ...texts.map(({ page = 0 }) => page), ...rules.map(({ page = 0 }) => page)) + 1;
+
+  const contents = Array.from({ length: pageCount }, (_, index) =>
+    [
+      ...rules
+        .filter(({ page = 0 }) => page === index)
+        .map(({ x1, x2, y }) => `0.8 G 0.5 w ${x1} ${PDF_PAGE_HEIGHT - y} m ${x2} ${PDF_PAGE_HEIGHT - y} l S`),
+      ...texts
+        .filter(({ page = 0 }) => page === index)
+        .map(({ text, x, y, size = 10, bold = false, align = 'left' }) => {
+          const left = align === 'right' ? x - measureText(text, size) : x;
+          return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${PDF_PAGE_HEIGHT - y} Td (${escapePdfText(text)}) Tj ET`;
+        }),
+    ].join('\n'),
+  );
+
+  // Objects 1 to 4 are shared; each page then adds a page object and its content stream
+  const pageObjectNumber = (index: number) => 5 + index * 2;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${contents.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...contents.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectNumber(index) + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    ]),
+  ];
+
+  // Byte offsets of every object are listed in the cross-reference table
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
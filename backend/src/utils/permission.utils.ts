@@ -0,0 +1,17 @@
+/**
+ * Permission Utilities
+ * Helpers for checking what a role is allowed to do, using ROLE_PERMISSIONS.
+ */
+
+import { ROLE_PERMISSIONS } from '../constants';
+import { Permission } from '../types/auth.type';
+import { Role } from '../types/role.type';
+
+/**
+ * Checks whether a role is granted a permission
+ * @param role - Role of the authenticated user
+ * @param permission - Permission to check
+ * @returns True if ROLE_PERMISSIONS grants the permission to the role
+ */
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
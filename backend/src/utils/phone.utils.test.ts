@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalisePhoneNumber } from './phone.utils';
+import { DEFAULT_PHONE_COUNTRY_CODE } from '../constants';
+
+describe('normalisePhoneNumber', () => {
+  it('keeps numbers already in E.164', () => {
+    assert.equal(normalisePhoneNumber('+919876543210'), '+919876543210');
+  });
+
+  it('ignores spaces, dashes, dots and brackets', () => {
+    for (const typed of [
+      '+91 98765 43210',
+      '+91-98765-43210',
+      '+91.98765.43210',
+      '+91 (98765) 43210',
+      ' +919876543210 ',
+    ]) {
+      assert.equal(normalisePhoneNumber(typed), '+919876543210', typed);
+    }
+  });
+
+  it('reads a 00 prefix as international', () => {
+    assert.equal(normalisePhoneNumber('0044 20 7946 0958'), '+442079460958');
+  });
+
+  it('adds the default country code to national numbers', () => {
+    assert.equal(normalisePhoneNumber('98765 43210'), `+${DEFAULT_PHONE_COUNTRY_CODE}9876543210`);
+  });
+
+  it('drops the trunk 0 of a national number', () => {
+    assert.equal(normalisePhoneNumber('098765-43210'), `+${DEFAULT_PHONE_COUNTRY_CODE}9876543210`);
+  });
+
+  it('gives the same result for every way of typing a number', () => {
+    const forms = ['+91 98765 43210', '0091 98765 43210'];
+    if (DEFAULT_PHONE_COUNTRY_CODE === '91') forms.push('98765 43210', '098765 43210');
+
+    assert.equal(new Set(forms.map(normalisePhoneNumber)).size, 1);
+  });
+
+  it('rejects values that are not strings', () => {
+    for (const value of [9876543210, null, undefined, { phone: '+919876543210' }, ['+919876543210']]) {
+      assert.equal(normalisePhoneNumber(value), null);
+    }
+  });
+
+  it('rejects letters, misplaced plus signs and empty input', () => {
+    for (const typed of ['', '   ', '+91 98765 4321O', '91+9876543210', '++919876543210', 'call me']) {
+      assert.equal(normalisePhoneNumber(typed), null, typed);
+    }
+  });
+
+  it('rejects numbers that are too short', () => {
+    assert.equal(normalisePhoneNumber('+1234567'), null);
+    assert.equal(normalisePhoneNumber('12'), null);
+  });
+
+  it('rejects numbers that are too long', () => {
+    assert.equal(normalisePhoneNumber('+1234567890123456'), null);
+    assert.equal(normalisePhoneNumber('+123456789012345'), '+123456789012345');
+  });
+
+  it('rejects country codes starting with 0', () => {
+    assert.equal(normalisePhoneNumber('+0919876543210'), null);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Phone Number Utilities
+ * Helpers for validating phone numbers and storing them in one format.
+ */
+
+import { DEFAULT_PHONE_COUNTRY_CODE } from '../constants';
+
+/** A phone number in E.164 format: a plus sign and up to 15 digits, without a leading zero */
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Normalises a phone number to E.164
+ * Spaces, dashes, dots and brackets are ignored. Numbers starting with + or 00 are
+ * taken as international; other numbers are taken as national numbers of
+ * DEFAULT_PHONE_COUNTRY_CODE, with a leading trunk 0 dropped.
+ * @param phoneNumber - Phone number as typed by the user
+ * @returns The number in E.164 format, or null if it is not a valid phone number
+ */
+export const normalisePhoneNumber = (phoneNumber: unknown): string | null => {
+  if (typeof phoneNumber !== 'string') return null;
+
+  const compact = phoneNumber.trim().replace(/[\s\-.()]/g, '');
+  if (!/^\+?\d+$/.test(compact)) return null;
+
+  let normalised: string;
+  if (compact.startsWith('+')) {
+    normalised = compact;
+  } else if (compact.startsWith('00')) {
+    normalised = `+${compact.slice(2)}`;
+  } else {
+    normalised = `+${DEFAULT_PHONE_COUNTRY_CODE}${compact.replace(/^0/, '')}`;
+  }
+
+  return E164_PATTERN.test(normalised) ? normalised : null;
+};
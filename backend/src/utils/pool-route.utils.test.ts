@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluatePoolRoute, planPoolInsertion, timePoolRoute } from './pool-route.utils';
+import { PoolRouteLimits, PoolRouteRider, PoolRouteStop } from '../types/pool.type';
+
+// Points along one meridian, so a route that only moves north never backtracks
+const point = (lat: number) => ({ lat, lng: 77 });
+const stop = (rideId: string, kind: PoolRouteStop['kind'], lat: number): PoolRouteStop => ({
+  rideId,
+  kind,
+  ...point(lat),
+});
+
+const origin = point(12.9);
+const limits: PoolRouteLimits = { vehicleType: 'car', seatCapacity: 4, maxDetourMin: 10 };
+
+const directMin = (fromLat: number, toLat: number) =>
+  timePoolRoute(point(fromLat), [stop('direct', 'drop', toLat)], limits.vehicleType).durationMin;
+
+const rider = (rideId: string, fromLat: number, toLat: number, seats = 1): PoolRouteRider => ({
+  rideId,
+  seats,
+  directMin: directMin(fromLat, toLat),
+  onBoardMin: null,
+});
+
+describe('evaluatePoolRoute', () => {
+  it('times the stops in driving order', () => {
+    const plan = evaluatePoolRoute(
+      origin,
+      [stop('a', 'pickup', 12.91), stop('a', 'drop', 12.95)],
+      [rider('a', 12.91, 12.95)],
+      limits,
+    );
+
+    assert.ok(plan);
+    assert.deepEqual(
+      plan.stops.map(({ kind }) => kind),
+      ['pickup', 'drop'],
+    );
+    assert.ok(plan.stops[0].etaMin < plan.stops[1].etaMin);
+    assert.equal(plan.durationMin, plan.stops[1].etaMin);
+  });
+
+  it('rejects a route that carries more seats than the vehicle has', () => {
+    const riders = [rider('a', 12.91, 12.95, 2), rider('b', 12.92, 12.96, 3)];
+    const stops = [stop('a', 'pickup', 12.91), stop('b', 'pickup', 12.92), stop('a', 'drop', 12.95)];
+
+    assert.equal(evaluatePoolRoute(origin, [...stops, stop('b', 'drop', 12.96)], riders, limits), null);
+    assert.ok(evaluatePoolRoute(origin, [...stops, stop('b', 'drop', 12.96)], riders, { ...limits, seatCapacity: 5 }));
+  });
+
+  it('counts riders already on board against the seats', () => {
+    const onBoard = { ...rider('a', 12.8, 12.95, 3), onBoardMin: 5 };
+    const stops = [stop('b', 'pickup', 12.91), stop('a', 'drop', 12.95), stop('b', 'drop', 12.96)];
+
+    assert.equal(evaluatePoolRoute(origin, stops, [onBoard, rider('b', 12.91, 12.96, 2)], limits), null);
+  });
+
+  it('rejects a drop before its pickup', () => {
+    const stops = [stop('a', 'drop', 12.95), stop('a', 'pickup', 12.91)];
+
+    assert.equal(evaluatePoolRoute(origin, stops, [rider('a', 12.91, 12.95)], limits), null);
+  });
+
+  it('rejects a route that keeps a rider in the vehicle beyond the detour limit', () => {
+    // Rider b is picked up far to the south while rider a is on board
+    const stops = [stop('a', 'pickup', 12.91), stop('b', 'pickup', 12.6), stop('a', 'drop', 12.95)];
+    const riders = [rider('a', 12.91, 12.95), rider('b', 12.6, 12.61)];
+
+    assert.equal(evaluatePoolRoute(origin, [...stops, stop('b', 'drop', 12.61)], riders, limits), null);
+  });
+
+  it('includes the minutes an on-board rider has already spent in the vehicle', () => {
+    const stops = [stop('a', 'drop', 12.95)];
+    const onBoard = { ...rider('a', 12.9, 12.95), onBoardMin: 0 };
+
+    assert.ok(evaluatePoolRoute(origin, stops, [onBoard], limits));
+    assert.equal(evaluatePoolRoute(origin, stops, [{ ...onBoard, onBoardMin: limits.maxDetourMin + 1 }], limits), null);
+  });
+});
+
+describe('planPoolInsertion', () => {
+  const riderA = rider('a', 12.91, 13.0);
+  const stops = [stop('a', 'pickup', 12.91), stop('a', 'drop', 13.0)];
+
+  it('fits a rider travelling along the route between the existing stops', () => {
+    const insertion = planPoolInsertion(
+      origin,
+      stops,
+      [riderA],
+      rider('b', 12.93, 12.96),
+      point(12.93),
+      point(12.96),
+      limits,
+    );
+
+    assert.ok(insertion);
+    assert.deepEqual(
+      insertion.stops.map(({ rideId, kind }) => `${kind} ${rideId}`),
+      ['pickup a', 'pickup b', 'drop b', 'drop a'],
+    );
+    assert.ok(insertion.addedMin < 0.1);
+  });
+
+  it('reports the minutes a detour adds to the route', () => {
+    const insertion = planPoolInsertion(
+      origin,
+      stops,
+      [riderA],
+      rider('b', 13.01, 13.03),
+      point(13.01),
+      point(13.03),
+      limits,
+    );
+
+    assert.ok(insertion);
+    assert.deepEqual(
+      insertion.stops.map(({ rideId, kind }) => `${kind} ${rideId}`),
+      ['pickup a', 'drop a', 'pickup b', 'drop b'],
+    );
+    assert.ok(Math.abs(insertion.addedMin - directMin(13.0, 13.03)) < 0.1);
+  });
+
+  it('keeps the order of the existing stops', () => {
+    const insertion = planPoolInsertion(origin, stops, [riderA], rider('b', 12.95, 12.92), point(12.95), point(12.92), {
+      ...limits,
+      maxDetourMin: 60,
+    });
+
+    assert.ok(insertion);
+    const order = insertion.stops.map(({ rideId, kind }) => `${kind} ${rideId}`);
+    assert.ok(order.indexOf('pickup a') < order.indexOf('drop a'));
+    assert.ok(order.indexOf('pickup b') < order.indexOf('drop b'));
+  });
+
+  it('never seats the rider while the vehicle is full', () => {
+    const insertion = planPoolInsertion(
+      origin,
+      stops,
+      [{ ...riderA, seats: 3 }],
+      rider('b', 12.93, 12.96, 2),
+      point(12.93),
+      point(12.96),
+      limits,
+    );
+
+    assert.ok(insertion);
+    const order = insertion.stops.map(({ rideId, kind }) => `${kind} ${rideId}`);
+    assert.ok(
+      order.indexOf('pickup b') > order.indexOf('drop a') || order.indexOf('drop b') < order.indexOf('pickup a'),
+    );
+  });
+
+  it('returns null when the rider books more seats than the vehicle has', () => {
+    const insertion = planPoolInsertion(
+      origin,
+      stops,
+      [riderA],
+      rider('b', 12.93, 12.96, limits.seatCapacity + 1),
+      point(12.93),
+      point(12.96),
+      limits,
+    );
+
+    assert.equal(insertion, null);
+  });
+});
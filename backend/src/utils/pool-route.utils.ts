@@ -0,0 +1,148 @@
+/**
+ * Pool Route Planner Module
+ * Orders the pickups and drops of a pooled ride. A new rider is inserted into the
+ * driver's remaining stops at the positions that add the least driving time while
+ * keeping every rider's time in the vehicle within the detour limit and the
+ * vehicle within its seats. Travel times are estimated the same way as fares.
+ */
+
+import { RATE_CARDS } from '../constants';
+import { estimateTripDistanceKm, roundTo2 } from './fare-calculator.utils';
+import { VehicleType } from '../types/ride.type';
+import {
+  PlannedPoolStop,
+  PoolInsertion,
+  PoolRouteLimits,
+  PoolRoutePlan,
+  PoolRouteRider,
+  PoolRouteStop,
+} from '../types/pool.type';
+
+interface Point {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Estimates the driving time between two points
+ * @param vehicleType - Vehicle type of the pool
+ * @param from - Start point
+ * @param to - End point
+ * @returns Driving time in minutes
+ */
+const travelMinutes = (vehicleType: VehicleType, from: Point, to: Point): number =>
+  (estimateTripDistanceKm(from.lat, from.lng, to.lat, to.lng) / RATE_CARDS[vehicleType].averageSpeedKmph) * 60;
+
+/**
+ * Times a route without checking any limits
+ * @param origin - Where the driver is now
+ * @param stops - Stops in driving order
+ * @param vehicleType - Vehicle type of the pool
+ * @returns The stops with their ETAs and the time until the last stop
+ */
+export const timePoolRoute = (origin: Point, stops: PoolRouteStop[], vehicleType: VehicleType): PoolRoutePlan => {
+  let position = origin;
+  let elapsedMin = 0;
+
+  const planned: PlannedPoolStop[] = stops.map((stop) => {
+    elapsedMin += travelMinutes(vehicleType, position, stop);
+    position = stop;
+    return { ...stop, etaMin: roundTo2(elapsedMin) };
+  });
+
+  return { stops: planned, durationMin: roundTo2(elapsedMin) };
+};
+
+/**
+ * Times a route and checks it against the seat and detour limits
+ * @param origin - Where the driver is now
+ * @param stops - Stops in driving order
+ * @param riders - Every rider with a remaining stop
+ * @param limits - Seat capacity and detour limit
+ * @returns The timed route, or null if a limit is broken
+ */
+export const evaluatePoolRoute = (
+  origin: Point,
+  stops: PoolRouteStop[],
+  riders: PoolRouteRider[],
+  limits: PoolRouteLimits,
+): PoolRoutePlan | null => {
+  const plan = timePoolRoute(origin, stops, limits.vehicleType);
+  const ridersById = new Map(riders.map((rider) => [rider.rideId, rider]));
+  const pickupEtas = new Map<string, number>();
+
+  // Riders already on board take their seats before the first stop
+  let seatsTaken = riders.reduce((total, rider) => total + (rider.onBoardMin === null ? 0 : rider.seats), 0);
+
+  for (const stop of plan.stops) {
+    const rider = ridersById.get(stop.rideId);
+    if (!rider) continue;
+
+    if (stop.kind === 'pickup') {
+      pickupEtas.set(rider.rideId, stop.etaMin);
+      seatsTaken += rider.seats;
+      if (seatsTaken > limits.seatCapacity) return null;
+      continue;
+    }
+
+    seatsTaken -= rider.seats;
+    const pickedUpAt = rider.onBoardMin === null ? pickupEtas.get(rider.rideId) : -rider.onBoardMin;
+    if (pickedUpAt === undefined || stop.etaMin - pickedUpAt > rider.directMin + limits.maxDetourMin) return null;
+  }
+
+  return plan;
+};
+
+/**
+ * Finds the cheapest way to add a rider to a pool route
+ * Every pickup and drop position is tried, keeping the order of the existing stops.
+ * @param origin - Where the driver is now
+ * @param stops - Remaining stops in driving order
+ * @param riders - Every rider with a remaining stop
+ * @param newRider - Rider to add
+ * @param pickup - New rider's pickup
+ * @param drop - New rider's drop
+ * @param limits - Seat capacity and detour limit
+ * @returns The new route and the minutes it adds, or null if the rider does not fit
+ *
+ * @example
+ * const insertion = planPoolInsertion(driverPosition, stops, riders, rider, pickup, drop, limits);
+ * if (insertion) console.log(insertion.stops.map(({ rideId, kind }) => `${kind} ${rideId}`));
+ */
+export const planPoolInsertion = (
+  origin: Point,
+  stops: PoolRouteStop[],
+  riders: PoolRouteRider[],
+  newRider: PoolRouteRider,
+  pickup: Point,
+  drop: Point,
+  limits: PoolRouteLimits,
+): PoolInsertion | null => {
+  const pickupStop: PoolRouteStop = { rideId: newRider.rideId, kind: 'pickup', ...pickup };
+  const dropStop: PoolRouteStop = { rideId: newRider.rideId, kind: 'drop', ...drop };
+  const allRiders = [...riders, newRider];
+
+  let best: PoolRoutePlan | null = null;
+  for (let pickupIndex = 0; pickupIndex <= stops.length; pickupIndex++) {
+    for (let dropIndex = pickupIndex; dropIndex <= stops.length; dropIndex++) {
+      const candidate = [
+        ...stops.slice(0, pickupIndex),
+        pickupStop,
+        ...stops.slice(pickupIndex, dropIndex),
+        dropStop,
+        ...stops.slice(dropIndex),
+      ];
+
+      const plan = evaluatePoolRoute(origin, candidate, allRiders, limits);
+      if (plan && (!best || plan.durationMin < best.durationMin)) {
+        best = plan;
+      }
+    }
+  }
+
+  if (!best) return null;
+  return {
+    ...best,
+    addedMin: roundTo2(best.durationMin - timePoolRoute(origin, stops, limits.vehicleType).durationMin),
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertRideTransition, canTransitionRide } from './ride-state-machine.utils';
+import { RIDE_STATUSES } from '../constants';
+import { RideStatus } from '../types/ride.type';
+
+const allowed: [RideStatus, RideStatus][] = [
+  ['requested', 'driver_assigned'],
+  ['requested', 'cancelled'],
+  ['driver_assigned', 'driver_arrived'],
+  ['driver_assigned', 'cancelled'],
+  ['driver_arrived', 'in_progress'],
+  ['driver_arrived', 'cancelled'],
+  ['in_progress', 'completed'],
+];
+
+describe('canTransitionRide', () => {
+  it('allows every step of the ride lifecycle', () => {
+    for (const [from, to] of allowed) {
+      assert.equal(canTransitionRide(from, to), true, `${from} → ${to}`);
+    }
+  });
+
+  it('rejects every other transition', () => {
+    for (const from of RIDE_STATUSES) {
+      for (const to of RIDE_STATUSES) {
+        if (allowed.some(([a, b]) => a === from && b === to)) continue;
+        assert.equal(canTransitionRide(from, to), false, `${from} → ${to}`);
+      }
+    }
+  });
+
+  it('never moves a ride backwards or skips a step', () => {
+    assert.equal(canTransitionRide('completed', 'in_progress'), false);
+    assert.equal(canTransitionRide('in_progress', 'driver_arrived'), false);
+    assert.equal(canTransitionRide('requested', 'in_progress'), false);
+    assert.equal(canTransitionRide('driver_assigned', 'completed'), false);
+  });
+
+  it('does not cancel a ride once it has started', () => {
+    assert.equal(canTransitionRide('in_progress', 'cancelled'), false);
+    assert.equal(canTransitionRide('completed', 'cancelled'), false);
+  });
+
+  it('keeps cancelled and completed rides where they are', () => {
+    for (const to of RIDE_STATUSES) {
+      assert.equal(canTransitionRide('cancelled', to), false, `cancelled → ${to}`);
+      assert.equal(canTransitionRide('completed', to), false, `completed → ${to}`);
+    }
+  });
+
+  it('rejects moving a ride to the status it already has', () => {
+    for (const status of RIDE_STATUSES) {
+      assert.equal(canTransitionRide(status, status), false, `${status} → ${status}`);
+    }
+  });
+
+  it('rejects unknown statuses', () => {
+    assert.equal(canTransitionRide('unknown' as RideStatus, 'cancelled'), false);
+  });
+});
+
+describe('assertRideTransition', () => {
+  it('passes allowed transitions', () => {
+    assert.doesNotThrow(() => assertRideTransition('requested', 'driver_assigned'));
+  });
+
+  it('throws a 409 for rejected transitions', () => {
+    assert.throws(
+      () => assertRideTransition('completed', 'in_progress'),
+      (err: { statusCode?: number; message: string }) =>
+        err.statusCode === 409 && err.message === 'Ride cannot move from completed to in_progress',
+    );
+  });
+});
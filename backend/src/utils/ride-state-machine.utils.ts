@@ -0,0 +1,129 @@
+/**
+ * Ride State Machine Module
+ * Defines the allowed ride status transitions and applies them atomically,
+ * stamping the ride and recording every transition in ride_status_transitions.
+ *
+ * Lifecycle:
+ * requested → driver_assigned → driver_arrived → in_progress → completed
+ * Any status before in_progress can move to cancelled.
+ */
+
+import { PoolClient } from 'pg';
+import ApiError from './api-error.utils';
+import { TERMINAL_RIDE_STATUSES } from '../constants';
+import { RideStatus, RideType } from '../types/ride.type';
+
+/** Statuses each status is allowed to move to */
+const allowedTransitions: Record<RideStatus, RideStatus[]> = {
+  requested: ['driver_assigned', 'cancelled'],
+  driver_assigned: ['driver_arrived', 'cancelled'],
+  driver_arrived: ['in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+};
+
+/** Timestamp column stamped when a ride enters a status */
+const statusTimestampColumns: Record<RideStatus, string> = {
+  requested: 'requested_at',
+  driver_assigned: 'driver_assigned_at',
+  driver_arrived: 'driver_arrived_at',
+  in_progress: 'started_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+};
+
+/**
+ * Checks whether a ride may move from one status to another
+ * @param from - Current ride status
+ * @param to - Requested ride status
+ * @returns True if the transition is allowed
+ */
+export const canTransitionRide = (from: RideStatus, to: RideStatus): boolean => {
+  return allowedTransitions[from]?.includes(to) ?? false;
+};
+
+/**
+ * Asserts that a ride may move from one status to another
+ * @param from - Current ride status
+ * @param to - Requested ride status
+ * @throws {ApiError} 409 if the transition is not allowed
+ */
+export const assertRideTransition = (from: RideStatus, to: RideStatus): void => {
+  if (!canTransitionRide(from, to)) {
+    throw new ApiError(409, `Ride cannot move from ${from} to ${to}`);
+  }
+};
+
+interface TransitionRideOptions {
+  actorId: string | null; // User performing the transition, null for system transitions
+  authorize?: (ride: RideType) => void; // Throws if the actor may not perform the transition
+  updates?: Record<string, unknown>; // Extra ride columns to set with the transition
+}
+
+/**
+ * Moves a ride to a new status inside the given transaction
+ * Locks the ride row, validates the transition, stamps the status timestamp
+ * and appends the transition to ride_status_transitions.
+ *
+ * @param client - Transaction client (see withTransaction)
+ * @param rideId - ID of the ride to transition
+ * @param to - Status the ride should move to
+ * @param options - Actor, authorization guard and extra column updates
+ * @returns Promise resolving to the updated ride
+ * @throws {ApiError} 404 if the ride does not exist, 409 if the transition is illegal
+ */
+export const transitionRideStatus = async (
+  client: PoolClient,
+  rideId: string,
+  to: RideStatus,
+  { actorId, authorize, updates = {} }: TransitionRideOptions,
+): Promise<RideType> => {
+  const { rows } = await client.query('SELECT * FROM rides WHERE id = $1 FOR UPDATE', [rideId]);
+  const ride: RideType | undefined = rows[0];
+
+  if (!ride) {
+    throw new ApiError(404, 'Ride not found');
+  }
+
+  authorize?.(ride);
+  assertRideTransition(ride.status, to);
+
+  const extraColumns = Object.keys(updates);
+  const setClauses = [
+    'status = $1',
+    `${statusTimestampColumns[to]} = NOW()`,
+    'updated_at = NOW()',
+    ...extraColumns.map((column, index) => `${column} = $${index + 3}`),
+  ];
+
+  const updated = await client.query(`UPDATE rides SET ${setClauses.join(', ')} WHERE id = $2 RETURNING *`, [
+    to,
+    rideId,
+    ...extraColumns.map((column) => updates[column]),
+  ]);
+
+  await client.query(
+    'INSERT INTO ride_status_transitions (ride_id, from_status, to_status, actor_id) VALUES ($1, $2, $3, $4)',
+    [rideId, ride.status, to, actorId],
+  );
+
+  return updated.rows[0];
+};
+
+/**
+ * Checks whether a rider already has a ride that has not ended
+ * Locks the rider's user row first, so concurrent ride creation for the same rider
+ * cannot both pass the check. Must run in the transaction that creates the ride.
+ * @param client - Transaction client (see withTransaction)
+ * @param riderId - Rider ID
+ * @returns Promise resolving to true if the rider has an active ride
+ */
+export const lockRiderAndCheckActiveRide = async (client: PoolClient, riderId: string): Promise<boolean> => {
+  await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [riderId]);
+  const { rowCount } = await client.query('SELECT id FROM rides WHERE rider_id = $1 AND status <> ALL($2) LIMIT 1', [
+    riderId,
+    TERMINAL_RIDE_STATUSES,
+  ]);
+  return (rowCount ?? 0) > 0;
+};
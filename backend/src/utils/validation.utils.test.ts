@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCalendarDate, isUuid } from './validation.utils';
+
+describe('isUuid', () => {
+  it('accepts UUIDs in either case', () => {
+    assert.equal(isUuid('3f2504e0-4f89-11d3-9a0c-0305e82c3301'), true);
+    assert.equal(isUuid('3F2504E0-4F89-11D3-9A0C-0305E82C3301'), true);
+  });
+
+  it('rejects malformed IDs and other types', () => {
+    for (const value of ['abc', '3f2504e04f8911d39a0c0305e82c3301', '3f2504e0-4f89-11d3-9a0c-0305e82c330', 42, null]) {
+      assert.equal(isUuid(value), false);
+    }
+  });
+});
+
+describe('isCalendarDate', () => {
+  it('accepts real dates, including leap days', () => {
+    assert.equal(isCalendarDate('2025-01-31'), true);
+    assert.equal(isCalendarDate('2024-02-29'), true);
+  });
+
+  it('rejects dates that JavaScript would roll over into the next month', () => {
+    for (const value of ['2025-02-29', '2025-02-31', '2025-04-31', '2025-13-01', '2025-00-10']) {
+      assert.equal(isCalendarDate(value), false);
+    }
+  });
+
+  it('rejects other formats and types', () => {
+    for (const value of ['2025-1-5', '2025-01-05T00:00:00Z', '05/01/2025', 20250105, undefined]) {
+      assert.equal(isCalendarDate(value), false);
+    }
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Validation Utilities Module
+ * Checks request values that PostgreSQL would otherwise reject with an error,
+ * so controllers can answer 400 instead of 500.
+ */
+
+/** UUID in its canonical 8-4-4-4-12 hex form */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Calendar date as YYYY-MM-DD */
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Checks that a value is a UUID
+ * @param value - Raw request value
+ * @returns True if the value is a UUID string
+ */
+export const isUuid = (value: unknown): value is string => typeof value === 'string' && UUID_PATTERN.test(value);
+
+/**
+ * Checks that a value is a YYYY-MM-DD date that exists in the calendar
+ * JavaScript rolls dates such as 2025-02-31 over into the next month; those are rejected.
+ * @param value - Raw request value
+ * @returns True if the value is a real calendar date
+ */
+export const isCalendarDate = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+
+  const match = DATE_ONLY_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};